@@ -13,6 +13,21 @@ const loadSquadsIDL = async () => {
   return JSON.parse(idlContent);
 };
 
+// The IDL fields touched before rendering
+type SquadsIdlInstructions = {
+  instructions?: { name: string; accounts: { name: string }[] }[];
+};
+
+// vaultTransactionCreateFromBuffer nests the vaultTransactionCreate accounts, which
+// also contain a `creator`, so rename the trailing one to keep the generated input valid
+const renameDuplicateBufferCreator = (idl: SquadsIdlInstructions) => {
+  const instruction = idl.instructions?.find(ix => ix.name === 'vaultTransactionCreateFromBuffer');
+  const bufferCreator = instruction?.accounts?.[instruction.accounts.length - 1];
+  if (bufferCreator?.name === 'creator') {
+    bufferCreator.name = 'bufferCreator';
+  }
+};
+
 async function createCodamaClient() {
   console.log('🔧 Creating Codama client for Squads IDL...');
   
@@ -20,6 +35,7 @@ async function createCodamaClient() {
     // Load the IDL
     const idl = await loadSquadsIDL();
     if (!idl.address) idl.address = "SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf";
+    renameDuplicateBufferCreator(idl);
     
     // Instantiate Codama
     const codama = createFromRoot(rootNodeFromAnchor(idl));
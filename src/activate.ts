@@ -0,0 +1,157 @@
+import {
+  getProposalActivateInstruction,
+  getProposalPda,
+  fetchMultisig,
+  fetchMaybeProposal,
+  type Multisig,
+} from './utils/squads/index';
+import {
+  address,
+  type TransactionSigner,
+} from '@solana/kit';
+import { loadSignerFromConfig, loadAllSignersFromConfig } from './utils/config';
+import { loadMultisigAddressFromConfig } from './utils/config';
+import { signAndSendTransaction } from './utils/sign';
+import { rpc } from './utils/rpc';
+import { prompt, promptWalletChoice } from './utils/prompt';
+import { hasPermission, Permission } from './utils/validation';
+
+interface DraftProposal {
+  index: number;
+  pda: string;
+}
+
+async function getDraftProposals(multisigAddress: string): Promise<DraftProposal[]> {
+  const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
+  const draftProposals: DraftProposal[] = [];
+
+  for (let i = 1; i <= Number(multisigAccount.data.transactionIndex); i++) {
+    try {
+      const [proposalPda] = await getProposalPda(multisigAddress, BigInt(i));
+      const proposalResult = await fetchMaybeProposal(rpc, address(proposalPda));
+
+      if (proposalResult && proposalResult.exists) {
+        const isStale = i <= Number(multisigAccount.data.staleTransactionIndex || 0);
+
+        // Stale drafts can no longer be activated
+        if (!isStale && proposalResult.data.status.__kind === 'Draft') {
+          draftProposals.push({
+            index: i,
+            pda: proposalPda,
+          });
+        }
+      }
+    } catch (error) {
+      continue;
+    }
+  }
+
+  return draftProposals;
+}
+
+async function selectProposal(proposals: DraftProposal[]): Promise<DraftProposal> {
+  console.log('\n📝 Draft Proposals:');
+  proposals.forEach((proposal, index) => {
+    console.log(`   ${index + 1}. Proposal #${proposal.index} - ${proposal.pda}`);
+  });
+
+  const choice = await prompt(`\nSelect proposal to activate (1-${proposals.length}): `);
+  const proposal = proposals[parseInt(choice) - 1];
+
+  if (!proposal) {
+    throw new Error('Invalid proposal selection');
+  }
+
+  return proposal;
+}
+
+function assertCanInitiate(multisig: Multisig, memberAddress: string): void {
+  const member = multisig.members.find(m => m.key === memberAddress);
+
+  if (!member) {
+    throw new Error(`${memberAddress} is not a member of this multisig`);
+  }
+  if (!hasPermission(member, Permission.Initiate)) {
+    throw new Error(`${memberAddress} does not have the Initiate permission required to activate proposals`);
+  }
+}
+
+async function activateProposal(
+  multisigPda: string,
+  proposalPda: string,
+  transactionIndex: number,
+  member: TransactionSigner
+): Promise<void> {
+  console.log(`\n📤 Activating Proposal #${transactionIndex}...`);
+
+  try {
+    const activateInstruction = getProposalActivateInstruction({
+      multisig: address(multisigPda),
+      member,
+      proposal: address(proposalPda),
+    });
+
+    const signature = await signAndSendTransaction(
+      [activateInstruction],
+      member
+    );
+
+    console.log(`✅ Proposal #${transactionIndex} activated, voting is now open!`);
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+  } catch (error) {
+    console.error(`❌ Error activating proposal #${transactionIndex}:`, error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    console.log('📝 Draft Proposal Activation');
+    console.log('============================\n');
+
+    // Load all signers from config
+    console.log('✅ Loading signers from config...');
+    await loadAllSignersFromConfig();
+
+    // Load multisig address from config
+    console.log('✅ Loading multisig address...');
+    const multisigAddress = await loadMultisigAddressFromConfig();
+    console.log(`🏛️  Multisig Address: ${multisigAddress}`);
+
+    console.log('🔍 Fetching draft proposals...');
+    const draftProposals = await getDraftProposals(multisigAddress);
+
+    if (draftProposals.length === 0) {
+      console.log('💡 No draft proposals found.');
+      console.log('   Create one with the payment proposal command and choose draft mode.');
+      return;
+    }
+
+    const selectedProposal = await selectProposal(draftProposals);
+
+    // Select member to sign
+    const selectedMember = await promptWalletChoice('\n👥 Select member to sign the activation', 'proposer');
+    const member = await loadSignerFromConfig(selectedMember);
+    const memberAddress = member.address;
+    console.log(`👤 Member Address: ${memberAddress}`);
+
+    // Check permissions before sending, the program would reject with Unauthorized
+    const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
+    assertCanInitiate(multisigAccount.data, memberAddress);
+
+    await activateProposal(multisigAddress, selectedProposal.pda, selectedProposal.index, member);
+
+    console.log('\n🎉 Proposal activation completed!');
+    console.log('💡 Members can now approve or reject the proposal.');
+  } catch (error) {
+    console.error('❌ Error activating proposal:', error);
+    throw error; // Let the CLI handle the error gracefully
+  }
+}
+
+export { main };
+
+// Run the script
+if (import.meta.main) {
+  main();
+}
@@ -5,42 +5,24 @@ import {
 } from './utils/squads/index';
 import { 
   address, 
-  createSignerFromKeyPair,
-  getAddressFromPublicKey
+  type TransactionSigner,
 } from '@solana/kit';
-import { loadMultisigAddressFromConfig, loadAllSignersFromConfig, loadWalletFromConfig } from './utils/config';
+import { loadMultisigAddressFromConfig, loadAllSignersFromConfig } from './utils/config';
 import { prompt } from './utils/prompt';
 import { rpc } from './utils/rpc';
-import { signAndSendTransaction } from './utils/sign';
-
-async function selectMember(): Promise<'voter1' | 'voter2' | 'manager'> {
-  const members = ['voter1', 'voter2', 'manager'];
-  
-  console.log('\n👥 Available Members:');
-  members.forEach((member, index) => {
-    console.log(`   ${index + 1}. ${member}`);
-  });
-  
-  const choice = await prompt('\nSelect member to sign the approval (1-3): ');
-  const memberIndex = parseInt(choice || '0') - 1;
-  
-  if (memberIndex < 0 || memberIndex >= members.length) {
-    throw new Error('Invalid member selection');
-  }
-  
-  return members[memberIndex] as 'voter1' | 'voter2' | 'manager';
-}
+import { signAndSendOrExport } from './utils/sign';
+import { displayTransactionInstructions, tryDescribeTransaction } from './utils/instructionDecoder';
+import { confirmWithSimulation } from './utils/simulate';
+import { promptSigner } from './utils/offline';
 
 async function approvePaymentTransaction(
   multisigPda: string,
   transactionIndex: bigint,
-  voter: CryptoKeyPair
-): Promise<void> {
+  voter: TransactionSigner
+): Promise<boolean> {
   console.log('\n✅ Approving payment transaction...');
   
   try {
-    const voterAddress = await getAddressFromPublicKey(voter.publicKey);
-    
     // Get the proposal PDA
     const [proposalPda] = await getProposalPda(multisigPda, transactionIndex);
     console.log(`📋 Multisig Address: ${multisigPda}`);
@@ -51,7 +33,7 @@ async function approvePaymentTransaction(
     const approveInstruction = getProposalApproveInstruction({
       multisig: address(multisigPda),
       proposal: address(proposalPda),
-      member: await createSignerFromKeyPair(voter),
+      member: voter,
       args: {
         memo: `Approved by voter`,
       },
@@ -59,15 +41,22 @@ async function approvePaymentTransaction(
     
     console.log('📤 Sending approval transaction...');
     
-    // Send and confirm transaction using voter
-    const signature = await signAndSendTransaction(
+    // Send and confirm transaction using voter, or export it when the voter signs offline
+    const signature = await signAndSendOrExport(
       [approveInstruction],
-      [voter],
-      voterAddress
+      voter,
+      async () => [
+        `Approve transaction #${transactionIndex} of multisig ${multisigPda} as ${voter.address}`,
+        ...(await tryDescribeTransaction(multisigPda, transactionIndex)).split('\n'),
+      ]
     );
+    if (!signature) {
+      return false;
+    }
     
     console.log(`✅ Approval successful!`);
     console.log(`🔗 View on Solana Explorer: https://explorer.solana.com/tx/${signature}`);
+    return true;
     
   } catch (error) {
     throw error;
@@ -100,19 +89,22 @@ async function main() {
       ? BigInt(transactionIndexInput) 
       : multisigAccount.data.transactionIndex;
     
-    console.log('Note: Manager and Voters can vote on proposals');
+    // Show what the vote is for before anyone signs
+    await displayTransactionInstructions(multisigAddress, transactionIndex);
     
-    // Select member for approval
-    const selectedMember = await selectMember();
-    console.log(`\n✅ Selected member: ${selectedMember}`);
+    // Select member for approval, with --offline it signs on another machine
+    const voter = await promptSigner('\n👥 Select member to sign the approval', 'voter');
+    console.log(`👤 Voter Address: ${voter.address}`);
     
-    // Load the selected member's wallet
-    const voter = await loadWalletFromConfig(selectedMember);
-    const voterAddress = await getAddressFromPublicKey(voter.publicKey);
-    console.log(`👤 Voter Address: ${voterAddress}`);
+    if (!await confirmWithSimulation(multisigAddress, transactionIndex, voter.address, 'approve')) {
+      console.log('❌ Approval cancelled');
+      return;
+    }
     
     // Approve the transaction
-    await approvePaymentTransaction(multisigAddress, transactionIndex, voter);
+    if (!await approvePaymentTransaction(multisigAddress, transactionIndex, voter)) {
+      return;
+    }
     
     console.log('\n🎉 Approval completed successfully!');
     console.log('💡 You can now run the execute script to execute the approved transaction.');
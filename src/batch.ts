@@ -0,0 +1,443 @@
+import { sleep } from 'bun';
+import {
+  address,
+  createNoopSigner,
+  fetchEncodedAccount,
+  type Instruction,
+  type TransactionSigner,
+} from '@solana/kit';
+import { SYSTEM_PROGRAM_ADDRESS, getTransferSolInstruction } from '@solana-program/system';
+import {
+  findAssociatedTokenPda,
+  getCreateAssociatedTokenIdempotentInstruction,
+  getTransferInstruction,
+  TOKEN_PROGRAM_ADDRESS,
+} from '@solana-program/token';
+import {
+  getBatchCreateInstruction,
+  getBatchAddTransactionInstruction,
+  getProposalCreateInstruction,
+  getProposalActivateInstruction,
+  getTransactionPda,
+  getProposalPda,
+  getBatchTransactionPda,
+  getVaultPda,
+  fetchMultisig,
+  fetchBatch,
+  fetchProposal,
+} from './utils/squads/index';
+import { loadSignerFromConfig, loadAllSignersFromConfig, loadMultisigAddressFromConfig } from './utils/config';
+import { signAndSendTransaction } from './utils/sign';
+import { prompt, promptWalletChoice } from './utils/prompt';
+import { USDC_MINT_DEVNET as USDC_MINT, LAMPORTS_PER_SOL } from './utils/constants';
+import { rpc } from './utils/rpc';
+import { compileVaultTransactionMessageBytes } from './utils/transactionMessage';
+import { buildBatchExecuteTransaction } from './utils/executeAccounts';
+import { DEFAULT_VAULT_INDEX, promptVaultIndex } from './utils/vault';
+import { getBatchCloseSteps, getRentCollector } from './utils/rentCleanup';
+import { ensureExecutable } from './utils/timeLock';
+
+// Keep every inner transaction small enough to execute in a single Solana transaction
+const INSTRUCTIONS_PER_BATCH_TRANSACTION = 5;
+
+interface BatchPayment {
+  recipient: string;
+  amount: number;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Builds the inner transactions of a payment batch: first the missing recipient ATAs
+ * are created (USDC only), then the transfers are split across as many transactions as needed
+ */
+async function buildPaymentTransactions(
+  vaultPda: string,
+  payments: BatchPayment[],
+  paymentType: 'SOL' | 'USDC'
+): Promise<Instruction[][]> {
+  // The program signs for the vault at execution, a noop signer stands in for it here
+  const vault = createNoopSigner(address(vaultPda));
+
+  if (paymentType === 'SOL') {
+    const transfers = payments.map(payment => getTransferSolInstruction({
+      source: vault,
+      destination: address(payment.recipient),
+      amount: BigInt(Math.round(payment.amount * LAMPORTS_PER_SOL)),
+    }));
+    return chunk(transfers, INSTRUCTIONS_PER_BATCH_TRANSACTION);
+  }
+
+  const mint = address(USDC_MINT);
+  const [vaultTokenAccount] = await findAssociatedTokenPda({
+    mint,
+    owner: vault.address,
+    tokenProgram: TOKEN_PROGRAM_ADDRESS,
+  });
+
+  const createAtaInstructions: Instruction[] = [];
+  const transferInstructions: Instruction[] = [];
+
+  for (const payment of payments) {
+    const recipient = address(payment.recipient);
+    const [recipientTokenAccount] = await findAssociatedTokenPda({
+      mint,
+      owner: recipient,
+      tokenProgram: TOKEN_PROGRAM_ADDRESS,
+    });
+
+    const recipientAccount = await fetchEncodedAccount(rpc, recipientTokenAccount);
+    if (!recipientAccount.exists) {
+      // The vault pays for the recipient token account
+      createAtaInstructions.push(getCreateAssociatedTokenIdempotentInstruction({
+        payer: vault,
+        ata: recipientTokenAccount,
+        owner: recipient,
+        mint,
+        tokenProgram: TOKEN_PROGRAM_ADDRESS,
+      }));
+    }
+
+    transferInstructions.push(getTransferInstruction({
+      source: vaultTokenAccount,
+      destination: recipientTokenAccount,
+      authority: vault,
+      amount: BigInt(Math.round(payment.amount * Math.pow(10, 6))),
+    }));
+  }
+
+  return [
+    ...chunk(createAtaInstructions, INSTRUCTIONS_PER_BATCH_TRANSACTION),
+    ...chunk(transferInstructions, INSTRUCTIONS_PER_BATCH_TRANSACTION),
+  ];
+}
+
+async function createBatchProposal(
+  multisigPda: string,
+  transactions: Instruction[][],
+  proposer: TransactionSigner,
+  memo: string,
+  vaultIndex: number = DEFAULT_VAULT_INDEX
+): Promise<bigint> {
+  console.log('\n📦 Creating batch proposal...');
+
+  try {
+    const multisigAccount = await fetchMultisig(rpc, address(multisigPda));
+    const batchIndex = multisigAccount.data.transactionIndex + 1n;
+
+    const [batchPda] = await getTransactionPda(multisigPda, batchIndex);
+    const [proposalPda] = await getProposalPda(multisigPda, batchIndex);
+    const [vaultPda] = await getVaultPda(multisigPda, vaultIndex);
+
+    console.log(`📊 Batch Index: ${batchIndex}`);
+    console.log(`📋 Batch: ${batchPda}`);
+    console.log(`📋 Proposal: ${proposalPda}`);
+
+    // Transactions can only be added while the proposal is a draft
+    const createBatchIx = getBatchCreateInstruction({
+      multisig: address(multisigPda),
+      batch: address(batchPda),
+      creator: proposer,
+      rentPayer: proposer,
+      systemProgram: SYSTEM_PROGRAM_ADDRESS,
+      vaultIndex,
+      memo,
+    });
+
+    const createProposalIx = getProposalCreateInstruction({
+      multisig: address(multisigPda),
+      proposal: address(proposalPda),
+      creator: proposer,
+      rentPayer: proposer,
+      systemProgram: SYSTEM_PROGRAM_ADDRESS,
+      transactionIndex: batchIndex,
+      draft: true,
+    });
+
+    console.log('📤 Creating batch and draft proposal...');
+    const createSignature = await signAndSendTransaction(
+      [createBatchIx, createProposalIx],
+      proposer
+    );
+    console.log(`✅ Batch created: ${createSignature}`);
+
+    for (const [i, instructions] of transactions.entries()) {
+      const transactionIndex = i + 1;
+      const [batchTransactionPda] = await getBatchTransactionPda(multisigPda, batchIndex, transactionIndex);
+
+      const addTransactionIx = getBatchAddTransactionInstruction({
+        multisig: address(multisigPda),
+        proposal: address(proposalPda),
+        batch: address(batchPda),
+        transaction: address(batchTransactionPda),
+        member: proposer,
+        rentPayer: proposer,
+        systemProgram: SYSTEM_PROGRAM_ADDRESS,
+        ephemeralSigners: 0,
+        transactionMessage: compileVaultTransactionMessageBytes(instructions, address(vaultPda)),
+      });
+
+      console.log(`📤 Adding transaction ${transactionIndex}/${transactions.length} (${instructions.length} instructions)...`);
+      await signAndSendTransaction(
+        [addTransactionIx],
+        proposer
+      );
+      console.log(`✅ Added ${batchTransactionPda}`);
+    }
+
+    const activateIx = getProposalActivateInstruction({
+      multisig: address(multisigPda),
+      member: proposer,
+      proposal: address(proposalPda),
+    });
+
+    console.log('📤 Activating proposal for voting...');
+    const activateSignature = await signAndSendTransaction(
+      [activateIx],
+      proposer
+    );
+
+    console.log(`✅ Proposal activated: ${activateSignature}`);
+    console.log(`🔗 View on Solana Explorer: https://explorer.solana.com/tx/${activateSignature}?cluster=devnet`);
+
+    return batchIndex;
+  } catch (error) {
+    console.error('❌ Error creating batch proposal:', error);
+    if (error && typeof error === 'object' && 'logs' in error) {
+      console.error('Transaction logs:', (error as any).logs);
+    }
+    throw error;
+  }
+}
+
+async function executeBatch(
+  multisigPda: string,
+  batchIndex: bigint,
+  executor: TransactionSigner,
+  wait: boolean
+): Promise<void> {
+  console.log('\n🚀 Executing batch...');
+
+  try {
+    const [batchPda] = await getTransactionPda(multisigPda, batchIndex);
+    const [proposalPda] = await getProposalPda(multisigPda, batchIndex);
+
+    const proposal = await fetchProposal(rpc, address(proposalPda));
+    // An Executing batch already passed its time lock when its first transaction ran
+    if (proposal.data.status.__kind !== 'Executing') {
+      const multisigAccount = await fetchMultisig(rpc, address(multisigPda));
+      await ensureExecutable(multisigPda, batchIndex, multisigAccount.data.timeLock, wait);
+    }
+
+    const batch = await fetchBatch(rpc, address(batchPda));
+    const { size, executedTransactionIndex } = batch.data;
+    console.log(`📊 Progress: ${executedTransactionIndex}/${size} transactions executed`);
+
+    // Inner transactions must run in order, resume after the last executed one
+    for (let transactionIndex = executedTransactionIndex + 1; transactionIndex <= size; transactionIndex++) {
+      const { instruction, lookupTables } = await buildBatchExecuteTransaction(
+        multisigPda,
+        batchIndex,
+        transactionIndex,
+        executor
+      );
+
+      console.log(`📤 Executing transaction ${transactionIndex}/${size}...`);
+      const signature = await signAndSendTransaction(
+        [instruction],
+        executor,
+        'confirmed',
+        lookupTables
+      );
+      console.log(`✅ Transaction ${transactionIndex}/${size} executed: ${signature}`);
+
+      await sleep(1000);
+    }
+
+    console.log(`\n🎉 Batch #${batchIndex} fully executed!`);
+  } catch (error) {
+    console.error('❌ Batch execution failed:', error);
+    if (error && typeof error === 'object' && 'logs' in error) {
+      console.error('Transaction logs:', (error as any).logs);
+    }
+    throw error;
+  }
+}
+
+async function closeBatch(
+  multisigPda: string,
+  batchIndex: bigint,
+  closer: TransactionSigner
+): Promise<void> {
+  console.log('\n🧹 Closing batch accounts...');
+
+  try {
+    const multisigAccount = await fetchMultisig(rpc, address(multisigPda));
+    const rentCollector = getRentCollector(multisigAccount.data);
+    if (!rentCollector) {
+      throw new Error('Rent reclamation is disabled for this multisig (no rent collector set)');
+    }
+
+    const steps = await getBatchCloseSteps(multisigPda, batchIndex, rentCollector);
+    let signature = '';
+    for (const step of steps) {
+      console.log(`📤 Closing ${step.description}...`);
+      signature = await signAndSendTransaction([step.instruction], closer);
+    }
+
+    console.log(`✅ Batch #${batchIndex} closed, rent sent to ${rentCollector}`);
+    console.log(`🔗 View on Solana Explorer: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+  } catch (error) {
+    console.error('❌ Error closing batch:', error);
+    if (error && typeof error === 'object' && 'logs' in error) {
+      console.error('Transaction logs:', (error as any).logs);
+    }
+    throw error;
+  }
+}
+
+async function promptPayments(paymentType: 'SOL' | 'USDC'): Promise<BatchPayment[]> {
+  console.log(`\n💸 Enter payments as "recipient,amount" in ${paymentType} (empty line to finish):`);
+  const payments: BatchPayment[] = [];
+
+  while (true) {
+    const line = await prompt(`Payment ${payments.length + 1}: `);
+    if (!line) {
+      break;
+    }
+
+    const [recipient, amountInput] = line.split(',').map(part => part.trim());
+    const amount = parseFloat(amountInput || '');
+    if (!recipient || isNaN(amount) || amount <= 0) {
+      console.log('❌ Invalid payment. Use the format "recipient,amount".');
+      continue;
+    }
+
+    try {
+      address(recipient);
+    } catch {
+      console.log('❌ Invalid recipient address.');
+      continue;
+    }
+
+    payments.push({ recipient, amount });
+  }
+
+  return payments;
+}
+
+async function promptBatchIndex(multisigPda: string): Promise<bigint> {
+  const multisigAccount = await fetchMultisig(rpc, address(multisigPda));
+  const input = (await prompt('Enter batch index (or press Enter for latest): ')).trim();
+  if (!input) {
+    return multisigAccount.data.transactionIndex;
+  }
+  if (!/^\d+$/.test(input)) {
+    throw new Error(`Invalid batch index "${input}": must be a whole number`);
+  }
+  return BigInt(input);
+}
+
+async function main() {
+  try {
+    console.log('📦 Squads Batch Transaction Tool');
+    console.log('================================\n');
+
+    // Load all signers from config
+    console.log('✅ Loading signers from config...');
+    await loadAllSignersFromConfig();
+
+    // Load multisig address from config
+    console.log('✅ Loading multisig address...');
+    const multisigAddress = await loadMultisigAddressFromConfig();
+    console.log(`🏛️  Multisig Address: ${multisigAddress}`);
+
+    // The same member proposes, executes and closes batches
+    const memberName = await promptWalletChoice('\n👥 Select member to sign the batch actions', 'proposer');
+    const member = await loadSignerFromConfig(memberName);
+    const memberAddress = member.address;
+    console.log(`👤 Member Address: ${memberAddress}`);
+
+    console.log('\n📦 Batch Actions:');
+    console.log('1. Create - Propose a batch of payments');
+    console.log('2. Execute - Execute every transaction of an approved batch');
+    console.log('3. Close - Reclaim rent from a finished batch');
+
+    const choice = await prompt('\nSelect an action (1-3): ');
+
+    switch (choice) {
+      case '1': {
+        const paymentTypeInput = await prompt('Payment type (1 for SOL, 2 for USDC): ');
+        if (paymentTypeInput !== '1' && paymentTypeInput !== '2') {
+          throw new Error('Invalid payment type choice');
+        }
+        const paymentType = paymentTypeInput === '1' ? 'SOL' : 'USDC';
+
+        const payments = await promptPayments(paymentType);
+        if (payments.length === 0) {
+          console.log('❌ No payments entered.');
+          return;
+        }
+
+        const vaultIndex = await promptVaultIndex('pay from');
+        const [vaultPda] = await getVaultPda(multisigAddress, vaultIndex);
+        const transactions = await buildPaymentTransactions(vaultPda, payments, paymentType);
+        const total = payments.reduce((sum, payment) => sum + payment.amount, 0);
+
+        console.log('\n📋 Batch Summary:');
+        console.log(`🏦 Vault Index: ${vaultIndex}`);
+        console.log(`💸 Payments: ${payments.length} (${total} ${paymentType} total)`);
+        console.log(`📦 Inner transactions: ${transactions.length}`);
+        transactions.forEach((instructions, index) => {
+          console.log(`   ${index + 1}. ${instructions.length} instruction(s)`);
+        });
+
+        const batchIndex = await createBatchProposal(
+          multisigAddress,
+          transactions,
+          member,
+          `Batch payment of ${total} ${paymentType} to ${payments.length} recipients`,
+          vaultIndex
+        );
+
+        console.log(`\n🎉 Batch #${batchIndex} is ready for voting!`);
+        console.log('📋 Next steps:');
+        console.log(`   1. Members approve proposal #${batchIndex} with the approve command`);
+        console.log('   2. Run this tool again and choose Execute');
+        break;
+      }
+
+      case '2': {
+        const batchIndex = await promptBatchIndex(multisigAddress);
+        // Refuse to send before the time lock has passed, --wait sleeps until it does
+        await executeBatch(multisigAddress, batchIndex, member, process.argv.includes('--wait'));
+        break;
+      }
+
+      case '3': {
+        const batchIndex = await promptBatchIndex(multisigAddress);
+        await closeBatch(multisigAddress, batchIndex, member);
+        break;
+      }
+
+      default:
+        throw new Error('Invalid choice. Please select 1-3.');
+    }
+  } catch (error) {
+    console.error('❌ Error:', error);
+    throw error; // Let the CLI handle the error gracefully
+  }
+}
+
+export { main };
+
+// Run the script
+if (import.meta.main) {
+  main();
+}
@@ -1,19 +1,207 @@
 import { 
   getProposalCancelInstruction,
+  getProposalCancelV2Instruction,
   getProposalPda,
   fetchMultisig,
+  fetchMaybeProposal,
 } from './utils/squads/index';
 import { 
   address,
-  createSignerFromKeyPair,
-  getAddressFromPublicKey,
-  type Address
 } from '@solana/kit';
-import { loadWalletFromConfig, loadAllSignersFromConfig } from './utils/config';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import { loadSignerFromConfig, loadAllSignersFromConfig } from './utils/config';
 import { loadMultisigAddressFromConfig } from './utils/config';
 import { signAndSendTransaction } from './utils/sign';
 import { sleep } from 'bun';
 import { rpc } from './utils/rpc';
+import { prompt, promptWalletChoice } from './utils/prompt';
+import { hasPermission, Permission } from './utils/validation';
+
+async function getApprovedProposals(multisigAddress: string) {
+  const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
+  const approvedProposals = [];
+
+  for (let i = 1; i <= Number(multisigAccount.data.transactionIndex); i++) {
+    try {
+      const [proposalPda] = await getProposalPda(multisigAddress, BigInt(i));
+      const proposalResult = await fetchMaybeProposal(rpc, address(proposalPda));
+      
+      if (proposalResult && proposalResult.exists && proposalResult.data.status.__kind === 'Approved') {
+        approvedProposals.push({
+          index: i,
+          pda: proposalPda,
+          cancelled: proposalResult.data.cancelled,
+        });
+      }
+    } catch (error) {
+      continue;
+    }
+  }
+
+  return approvedProposals;
+}
+
+async function cancelApprovedProposal(multisigAddress: string): Promise<void> {
+  const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
+  const threshold = multisigAccount.data.threshold;
+
+  console.log('🔍 Fetching approved proposals...');
+  const approvedProposals = await getApprovedProposals(multisigAddress);
+
+  if (approvedProposals.length === 0) {
+    console.log('💡 No approved proposals found that can be cancelled.');
+    return;
+  }
+
+  // An approved proposal becomes Cancelled once cancel votes reach the threshold
+  console.log('\n✅ Approved Proposals:');
+  approvedProposals.forEach((proposal, index) => {
+    console.log(`   ${index + 1}. Proposal #${proposal.index} - ${proposal.cancelled.length}/${threshold} cancel votes`);
+    if (proposal.cancelled.length > 0) {
+      console.log(`      Cancelled by: ${proposal.cancelled.map(v => v.slice(0, 8) + '...').join(', ')}`);
+    }
+  });
+
+  const choice = await prompt(`\nSelect proposal to cancel (1-${approvedProposals.length}): `);
+  const selectedProposal = approvedProposals[parseInt(choice) - 1];
+  if (!selectedProposal) {
+    throw new Error('Invalid proposal selection');
+  }
+
+  const selectedMember = await promptWalletChoice('\n👥 Select member to sign the cancel vote', 'voter');
+  const canceller = await loadSignerFromConfig(selectedMember);
+  const cancellerAddress = canceller.address;
+  console.log(`👤 Canceller Address: ${cancellerAddress}`);
+
+  const member = multisigAccount.data.members.find(m => m.key === cancellerAddress);
+  if (!member || !hasPermission(member, Permission.Vote)) {
+    throw new Error(`${selectedMember} is not a member with the Vote permission`);
+  }
+  if (selectedProposal.cancelled.includes(cancellerAddress)) {
+    throw new Error(`${selectedMember} has already voted to cancel Proposal #${selectedProposal.index}`);
+  }
+
+  const confirm = await prompt(`\n🚫 Vote to cancel Proposal #${selectedProposal.index}? (y/N): `);
+  if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+    console.log('❌ Cancel vote aborted');
+    return;
+  }
+
+  const cancelInstruction = getProposalCancelV2Instruction({
+    multisig: address(multisigAddress),
+    member: canceller,
+    proposal: address(selectedProposal.pda),
+    systemProgram: SYSTEM_PROGRAM_ADDRESS,
+    args: {
+      memo: `Cancelled by ${selectedMember}`,
+    },
+  });
+
+  console.log('📤 Sending cancel vote...');
+  const signature = await signAndSendTransaction(
+    [cancelInstruction],
+    canceller
+  );
+
+  const votes = selectedProposal.cancelled.length + 1;
+  console.log(`✅ Cancel vote recorded (${votes}/${threshold})`);
+  console.log(`🔗 View on Solana Explorer: https://explorer.solana.com/tx/${signature}`);
+  if (votes >= threshold) {
+    console.log(`🚫 Proposal #${selectedProposal.index} is now cancelled and can no longer be executed.`);
+  } else {
+    console.log(`💡 ${threshold - votes} more cancel vote(s) needed.`);
+  }
+}
+
+async function cancelStaleProposals(multisigAddress: string): Promise<void> {
+  const cancellerName = await promptWalletChoice('\n👥 Select member to sign the cancellations', 'voter');
+  const canceller = await loadSignerFromConfig(cancellerName);
+  const cancellerAddress = canceller.address;
+  console.log(`👤 Canceller Address: ${cancellerAddress}`);
+
+  // Get multisig account info
+  const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
+
+  console.log('Current transaction index:', multisigAccount.data.transactionIndex);
+  console.log('Stale transaction index:', multisigAccount.data.staleTransactionIndex || 0);
+
+  // Get all transactions up to current index
+  const proposalsToCancel = [];
+
+  for (let i = 1; i <= Number(multisigAccount.data.transactionIndex); i++) {
+    try {
+      // Get proposal status
+      const [proposalPda] = await getProposalPda(multisigAddress, BigInt(i));
+
+      // Check if proposal exists and get its status
+      const isStale = i <= Number(multisigAccount.data.staleTransactionIndex || 0);
+      
+      // For stale proposals, we can cancel them
+      if (isStale) {
+        proposalsToCancel.push({
+          index: i,
+          pda: proposalPda,
+          status: 'Stale',
+        });
+      }
+    } catch (error) {
+      // Proposal account might not exist, skip it
+      continue;
+    }
+  }
+
+  console.log(`\nFound ${proposalsToCancel.length} stale proposals that can be cancelled\n`);
+
+  if (proposalsToCancel.length === 0) {
+    console.log('💡 No stale proposals found that can be cancelled.');
+    console.log('   All proposals are either current or already processed.');
+    return;
+  }
+
+  // Cancel stale proposals
+  console.log('🚫 Cancelling stale proposals...');
+  console.log('================================\n');
+
+  for (const proposal of proposalsToCancel) {
+    console.log(
+      `Attempting to cancel proposal ${proposal.index} (status: ${proposal.status})`
+    );
+
+    try {
+      const cancelInstruction = getProposalCancelInstruction({
+        multisig: address(multisigAddress),
+        proposal: address(proposal.pda),
+        member: canceller,
+        args: {
+          memo: `Cancelled by canceller`,
+        },
+      });
+
+      console.log('📤 Sending cancellation transaction...');
+      
+      // Send and confirm transaction using canceller
+      const signature = await signAndSendTransaction(
+        [cancelInstruction],
+        canceller
+      );
+      
+      console.log(`✅ Proposal ${proposal.index} cancelled`);
+      console.log(`🔗 View on Solana Explorer: https://explorer.solana.com/tx/${signature}`);
+      
+    } catch (error) {
+      console.error(
+        `Error cancelling proposal ${proposal.index}:`,
+        error
+      );
+      continue;
+    }
+
+    await sleep(1000);
+  }
+
+  console.log('\n🎉 Finished cancelling proposals');
+  console.log('💡 All eligible stale proposals have been cancelled.');
+}
 
 async function main() {
   try {
@@ -29,95 +217,18 @@ async function main() {
     const multisigAddress = await loadMultisigAddressFromConfig();
     console.log(`🏛️  Multisig Address: ${multisigAddress}`);
 
-    // Load the manager's wallet (default for cancellation)
-    console.log('✅ Loading manager wallet for signing...');
-    const canceller = await loadWalletFromConfig('manager');
-    const cancellerAddress = await getAddressFromPublicKey(canceller.publicKey);
-    console.log(`👤 Canceller Address: ${cancellerAddress}`);
-
-    // Get multisig account info
-    const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
-
-    console.log('Current transaction index:', multisigAccount.data.transactionIndex);
-    console.log('Stale transaction index:', multisigAccount.data.staleTransactionIndex || 0);
-
-    // Get all transactions up to current index
-    const proposalsToCancel = [];
-
-    for (let i = 1; i <= Number(multisigAccount.data.transactionIndex); i++) {
-      try {
-        // Get proposal status
-        const [proposalPda] = await getProposalPda(multisigAddress, BigInt(i));
-
-        // Check if proposal exists and get its status
-        const isStale = i < Number(multisigAccount.data.staleTransactionIndex || 0);
-        
-        // For stale proposals, we can cancel them
-        if (isStale) {
-          proposalsToCancel.push({
-            index: i,
-            pda: proposalPda,
-            status: 'Stale',
-          });
-        }
-      } catch (error) {
-        // Proposal account might not exist, skip it
-        continue;
-      }
+    console.log('\n🔧 Cancellation Mode:');
+    console.log('1. Vote to cancel an approved proposal');
+    console.log('2. Cancel stale proposals');
+    const mode = await prompt('Select a mode (1-2): ');
+
+    if (mode === '1') {
+      await cancelApprovedProposal(multisigAddress);
+    } else if (mode === '2') {
+      await cancelStaleProposals(multisigAddress);
+    } else {
+      throw new Error('Invalid mode selection');
     }
-
-    console.log(`\nFound ${proposalsToCancel.length} stale proposals that can be cancelled\n`);
-
-    if (proposalsToCancel.length === 0) {
-      console.log('💡 No stale proposals found that can be cancelled.');
-      console.log('   All proposals are either current or already processed.');
-      return;
-    }
-
-    // Cancel stale proposals
-    console.log('🚫 Cancelling stale proposals...');
-    console.log('================================\n');
-
-    for (const proposal of proposalsToCancel) {
-      console.log(
-        `Attempting to cancel proposal ${proposal.index} (status: ${proposal.status})`
-      );
-
-      try {
-        const cancelInstruction = getProposalCancelInstruction({
-          multisig: address(multisigAddress),
-          proposal: address(proposal.pda),
-          member: await createSignerFromKeyPair(canceller),
-          args: {
-            memo: `Cancelled by canceller`,
-          },
-        });
-
-        console.log('📤 Sending cancellation transaction...');
-        
-        // Send and confirm transaction using canceller
-        const signature = await signAndSendTransaction(
-          [cancelInstruction],
-          [canceller],
-          cancellerAddress
-        );
-        
-        console.log(`✅ Proposal ${proposal.index} cancelled`);
-        console.log(`🔗 View on Solana Explorer: https://explorer.solana.com/tx/${signature}`);
-        
-      } catch (error) {
-        console.error(
-          `Error cancelling proposal ${proposal.index}:`,
-          error
-        );
-        continue;
-      }
-
-      await sleep(1000);
-    }
-
-    console.log('\n🎉 Finished cancelling proposals');
-    console.log('💡 All eligible stale proposals have been cancelled.');
   } catch (error) {
     console.error('❌ Error cancelling proposals:', error);
     throw error; // Let the CLI handle the error gracefully
@@ -130,4 +241,3 @@ export { main };
 if (import.meta.main) {
   main();
 }
-
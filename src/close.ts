@@ -1,69 +1,81 @@
 import { 
-  getVaultTransactionAccountsCloseInstruction,
-  getVaultTransactionPda,
+  getTransactionPda,
   getProposalPda,
   fetchMultisig,
   fetchMaybeProposal,
-  fetchMaybeVaultTransaction,
 } from './utils/squads/index';
-import { address, createSignerFromKeyPair, getAddressFromPublicKey } from '@solana/kit';
-import { loadWalletFromConfig, loadAllSignersFromConfig } from './utils/config';
+import { address, type Address, type TransactionSigner } from '@solana/kit';
+import { loadSignerFromConfig, loadAllSignersFromConfig, findWalletSigner } from './utils/config';
 import { loadMultisigAddressFromConfig } from './utils/config';
 import { sleep } from 'bun';
 import { rpc } from './utils/rpc';
-import { prompt } from './utils/prompt';
+import { prompt, promptWalletChoice } from './utils/prompt';
 import { signAndSendTransaction } from './utils/sign';
+import { closeTransactionBuffer } from './utils/transactionBuffer';
+import {
+  canCloseTransaction,
+  detectTransactionAccountKind,
+  fetchTransactionBuffers,
+  getBatchCloseSteps,
+  getRentCollector,
+  getTransactionCloseInstruction,
+  type TransactionAccountKind,
+} from './utils/rentCleanup';
 
-async function getClosableTransactions(multisigAddress: string) {
-  const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
-  const closableTransactions = [];
+type ClosableKind = TransactionAccountKind | 'buffer';
 
-  for (let i = 1; i <= Number(multisigAccount.data.transactionIndex); i++) {
-    try {
-      const [transactionPda] = await getVaultTransactionPda(multisigAddress, BigInt(i));
-      const [proposalPda] = await getProposalPda(multisigAddress, BigInt(i));
+interface ClosableAccount {
+  kind: ClosableKind;
+  // Transaction index, or buffer index for transaction buffers
+  index: number;
+  pda: string;
+  status: string;
+  isStale: boolean;
+  isCancelled: boolean;
+  isExecuted: boolean;
+  isRejected: boolean;
+  // Transaction buffer whose upload has not finished, its creator may still be writing to it
+  isIncomplete: boolean;
+  // Creator of a transaction buffer, who signs its close and gets its rent back
+  creator?: TransactionSigner;
+}
 
-      // Fetch both vault transaction and proposal data
-      const [vaultTransactionResult, proposalResult] = await Promise.allSettled([
-        fetchMaybeVaultTransaction(rpc, address(transactionPda)),
-        fetchMaybeProposal(rpc, address(proposalPda))
-      ]);
+const KIND_LABELS: Record<ClosableKind, string> = {
+  vault: 'Vault Transaction',
+  config: 'Config Transaction',
+  batch: 'Batch',
+  buffer: 'Transaction Buffer',
+};
 
-      const vaultTransaction = vaultTransactionResult.status === 'fulfilled' ? vaultTransactionResult.value : null;
-      const proposal = proposalResult.status === 'fulfilled' ? proposalResult.value : null;
+async function getClosableTransactions(multisigAddress: string, includeTransactions: boolean): Promise<ClosableAccount[]> {
+  const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
+  const closableTransactions: ClosableAccount[] = [];
 
-      if (!vaultTransaction || !vaultTransaction.exists) {
-        continue; // Skip if vault transaction doesn't exist
+  for (let i = 1; includeTransactions && i <= Number(multisigAccount.data.transactionIndex); i++) {
+    try {
+      const kind = await detectTransactionAccountKind(multisigAddress, BigInt(i));
+      if (!kind) {
+        continue; // Skip if the transaction was already closed
       }
 
+      const [transactionPda] = await getTransactionPda(multisigAddress, BigInt(i));
+      const [proposalPda] = await getProposalPda(multisigAddress, BigInt(i));
+      const proposal = await fetchMaybeProposal(rpc, address(proposalPda));
+
       const isStale = i <= Number(multisigAccount.data.staleTransactionIndex || 0);
-      let status = 'Unknown';
-      let canClose = false;
-
-      if (proposal && proposal.exists) {
-        status = proposal.data.status.__kind;
-        
-        // Can close if: stale, cancelled, executed, or rejected
-        canClose = isStale || 
-                   status === 'Cancelled' || 
-                   status === 'Executed' || 
-                   status === 'Rejected';
-      } else {
-        // If no proposal exists but transaction is stale, we can close it
-        canClose = isStale;
-        status = 'Stale (No Proposal)';
-      }
+      const status = proposal.exists ? proposal.data.status.__kind : null;
 
-      if (canClose) {
+      if (canCloseTransaction(kind, status, isStale)) {
         closableTransactions.push({
+          kind,
           index: i,
           pda: transactionPda,
-          proposalPda: proposalPda,
-          status: status,
+          status: status ?? 'Stale (No Proposal)',
           isStale: isStale,
           isCancelled: status === 'Cancelled',
           isExecuted: status === 'Executed',
           isRejected: status === 'Rejected',
+          isIncomplete: false,
         });
       }
     } catch (error) {
@@ -71,54 +83,64 @@ async function getClosableTransactions(multisigAddress: string) {
     }
   }
 
+  // Buffers are closed by their creator, so only those created by a local wallet are listed
+  const buffers = await fetchTransactionBuffers(multisigAddress);
+  for (const buffer of buffers) {
+    const creator = await findWalletSigner(buffer.data.creator);
+    if (!creator) {
+      console.log(`⚠️  Skipping transaction buffer ${buffer.address}: created by ${buffer.data.creator}, not a local wallet`);
+      continue;
+    }
+
+    // A complete buffer is closed when its vault transaction is created, so one still here is unused
+    const uploaded = buffer.data.buffer.length;
+    const isIncomplete = uploaded < buffer.data.finalBufferSize;
+    closableTransactions.push({
+      kind: 'buffer',
+      index: buffer.data.bufferIndex,
+      pda: buffer.address,
+      status: `${isIncomplete ? 'Incomplete' : 'Unused'} (${uploaded}/${buffer.data.finalBufferSize} bytes uploaded)`,
+      isStale: false,
+      isCancelled: false,
+      isExecuted: false,
+      isRejected: false,
+      isIncomplete,
+      creator: creator.signer,
+    });
+  }
+
   return closableTransactions;
 }
 
-async function selectMember(): Promise<'voter1' | 'voter2' | 'manager'> {
-  const members = ['manager', 'voter1', 'voter2'];
-  
-  console.log('\n👥 Available Members:');
-  members.forEach((member, index) => {
-    const isDefault = member === 'manager' ? ' (default)' : '';
-    console.log(`   ${index + 1}. ${member}${isDefault}`);
-  });
-  
-  const choice = await prompt('\nSelect member to sign the close transaction (1-3, or press Enter for manager): ');
-  
-  // Default to manager if no choice or invalid choice
-  if (!choice || choice.trim() === '') {
-    console.log('✅ Using default: manager');
-    return 'manager';
-  }
-  
-  const memberIndex = parseInt(choice) - 1;
-  
-  if (memberIndex < 0 || memberIndex >= members.length) {
-    console.log('❌ Invalid choice, using default: manager');
-    return 'manager';
+function describeAccount(tx: ClosableAccount): string {
+  return `${KIND_LABELS[tx.kind]} #${tx.index} - ${tx.status}`;
+}
+
+function getStatusDetails(tx: ClosableAccount): string {
+  if (tx.kind === 'buffer') {
+    return `creator ${tx.creator?.address}, rent refunded to the creator`;
   }
-  
-  return members[memberIndex] as 'voter1' | 'voter2' | 'manager';
+
+  const statusDetails = [];
+  if (tx.isStale) statusDetails.push('Stale');
+  if (tx.isCancelled) statusDetails.push('Cancelled');
+  if (tx.isExecuted) statusDetails.push('Executed');
+  if (tx.isRejected) statusDetails.push('Rejected');
+  return statusDetails.join(', ');
 }
 
-async function selectTransactions(transactions: any[]): Promise<any[]> {
+async function selectTransactions(transactions: ClosableAccount[]): Promise<ClosableAccount[]> {
   if (transactions.length === 0) {
     return [];
   }
   
-  console.log('\n📋 Closable Transactions:');
+  console.log('\n📋 Closable Accounts:');
   transactions.forEach((tx, index) => {
-    const statusDetails = [];
-    if (tx.isStale) statusDetails.push('Stale');
-    if (tx.isCancelled) statusDetails.push('Cancelled');
-    if (tx.isExecuted) statusDetails.push('Executed');
-    if (tx.isRejected) statusDetails.push('Rejected');
-    
-    console.log(`   ${index + 1}. Transaction #${tx.index} - ${tx.status}`);
-    console.log(`      Details: ${statusDetails.join(', ')}`);
+    console.log(`   ${index + 1}. ${describeAccount(tx)}`);
+    console.log(`      Details: ${getStatusDetails(tx)}`);
   });
   
-  const choice = await prompt(`\nSelect transactions to close (1-${transactions.length}, or 'all' for all): `);
+  const choice = await prompt(`\nSelect accounts to close (1-${transactions.length}, or 'all' for all): `);
   
   if (choice.toLowerCase() === 'all') {
     return transactions;
@@ -127,7 +149,7 @@ async function selectTransactions(transactions: any[]): Promise<any[]> {
   const indices = choice.split(',').map(s => parseInt(s.trim()) - 1);
   const selectedTransactions = indices
     .filter(i => i >= 0 && i < transactions.length)
-    .map(i => transactions[i]);
+    .map(i => transactions[i] as ClosableAccount);
   
   if (selectedTransactions.length === 0) {
     throw new Error('No valid transactions selected');
@@ -136,6 +158,45 @@ async function selectTransactions(transactions: any[]): Promise<any[]> {
   return selectedTransactions;
 }
 
+async function closeAccount(
+  tx: ClosableAccount,
+  multisigAddress: string,
+  rentCollector: Address | null,
+  cleaner: TransactionSigner
+): Promise<void> {
+  if (tx.kind === 'buffer') {
+    // Only the creator can close its buffer, the rent goes back to it
+    if (!tx.creator) {
+      throw new Error(`Creator of transaction buffer ${tx.pda} is not a local wallet`);
+    }
+    await closeTransactionBuffer(tx.creator, multisigAddress, tx.index);
+    return;
+  }
+
+  if (!rentCollector) {
+    throw new Error('Rent reclamation is disabled for this multisig (no rent collector set)');
+  }
+
+  if (tx.kind === 'batch') {
+    const steps = await getBatchCloseSteps(multisigAddress, BigInt(tx.index), rentCollector);
+    for (const step of steps) {
+      console.log(`📤 Closing ${step.description}...`);
+      await signAndSendTransaction([step.instruction], cleaner);
+    }
+    return;
+  }
+
+  const closeInstruction = await getTransactionCloseInstruction(tx.kind, multisigAddress, BigInt(tx.index), rentCollector);
+
+  console.log('📤 Sending close transaction...');
+  
+  // The cleaner only pays the fee, the rent goes to the rent collector
+  await signAndSendTransaction(
+    [closeInstruction],
+    cleaner
+  );
+}
+
 async function main() {
   try {
     console.log('🧹 Transaction Cleanup Script');
@@ -150,9 +211,19 @@ async function main() {
     const multisigAddress = await loadMultisigAddressFromConfig();
     console.log(`🏛️  Multisig Address: ${multisigAddress}`);
     
+    // Rent of closed transactions can only go to the multisig's rent collector
+    const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
+    const rentCollector = getRentCollector(multisigAccount.data);
+    if (rentCollector) {
+      console.log(`♻️  Rent Collector: ${rentCollector}`);
+    } else {
+      console.log('⚠️  Rent reclamation is disabled for this multisig (no rent collector set)');
+      console.log('💡 Only transaction buffers can be closed. Set a rent collector with the config tool.');
+    }
+    
     // Get closable transactions
     console.log('🔍 Fetching closable transactions...');
-    const closableTransactions = await getClosableTransactions(multisigAddress);
+    const closableTransactions = await getClosableTransactions(multisigAddress, rentCollector !== null);
     
     if (closableTransactions.length === 0) {
       console.log('💡 No transactions found that can be closed.');
@@ -160,7 +231,7 @@ async function main() {
       return;
     }
     
-    console.log(`\nFound ${closableTransactions.length} closable transactions`);
+    console.log(`\nFound ${closableTransactions.length} closable accounts`);
     
     // Select transactions to close
     const selectedTransactions = await selectTransactions(closableTransactions);
@@ -169,56 +240,42 @@ async function main() {
       return;
     }
     
-    // Select member to sign (default to manager)
-    const selectedMember = await selectMember();
+    // Select member to pay the fees
+    const selectedMember = await promptWalletChoice('\n👥 Select member to sign the close transaction');
     console.log(`\n✅ Selected member: ${selectedMember}`);
 
     // Load the selected member's wallet
     console.log('✅ Loading wallet for signing...');
-    const cleaner = await loadWalletFromConfig(selectedMember);
-    const cleanerAddress = await getAddressFromPublicKey(cleaner.publicKey);
+    const cleaner = await loadSignerFromConfig(selectedMember);
+    const cleanerAddress = cleaner.address;
     console.log(`👤 Cleaner Address: ${cleanerAddress}`);
 
+    const incompleteBuffers = selectedTransactions.filter(tx => tx.isIncomplete);
+    if (incompleteBuffers.length > 0) {
+      console.log('\n⚠️  Incomplete transaction buffers may still be uploading from another session of their creator:');
+      incompleteBuffers.forEach(tx => console.log(`   • ${describeAccount(tx)}`));
+      console.log('   Closing one aborts that upload and its proposal has to be uploaded again.');
+    }
+
     // Confirm closing
-    const confirm = await prompt(`\n🧹 Are you sure you want to close ${selectedTransactions.length} transaction(s)? (y/N): `);
+    const confirm = await prompt(`\n🧹 Are you sure you want to close ${selectedTransactions.length} account(s)? (y/N): `);
     if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
       console.log('❌ Transaction closing cancelled');
       return;
     }
     
-    console.log(`\n🧹 Closing ${selectedTransactions.length} transaction(s)...`);
+    console.log(`\n🧹 Closing ${selectedTransactions.length} account(s)...`);
     console.log('==========================================\n');
 
-    // Close each selected transaction
+    // Close each selected account with the instruction matching its type
     for (const tx of selectedTransactions) {
-      const statusDetails = [];
-      if (tx.isStale) statusDetails.push('Stale');
-      if (tx.isCancelled) statusDetails.push('Cancelled');
-      if (tx.isExecuted) statusDetails.push('Executed');
-      if (tx.isRejected) statusDetails.push('Rejected');
-      
-      console.log(`Closing Transaction #${tx.index} - ${tx.status} (${statusDetails.join(', ')})`);
+      console.log(`Closing ${describeAccount(tx)} (${getStatusDetails(tx)})`);
 
       try {
-        const closeInstruction = getVaultTransactionAccountsCloseInstruction({
-          multisig: address(multisigAddress),
-          proposal: address(tx.proposalPda),
-          transaction: address(tx.pda),
-          rentCollector: address(cleanerAddress),
-        });
-
-        console.log('📤 Sending close transaction...');
-        
-        // Send and confirm transaction using cleaner
-        const signature = await signAndSendTransaction(
-          [closeInstruction],
-          [cleaner],
-          cleanerAddress
-        );
-        
-        console.log(`✅ Transaction #${tx.index} closed successfully by ${selectedMember} with signature ${signature}!`);
+        await closeAccount(tx, multisigAddress, rentCollector, cleaner);
+        console.log(`✅ ${KIND_LABELS[tx.kind]} #${tx.index} closed successfully!`);
       } catch (error) {
-        console.error(`❌ Error closing transaction #${tx.index}:`, error);
+        console.error(`❌ Error closing ${KIND_LABELS[tx.kind]} #${tx.index}:`, error);
         continue;
       }
 
@@ -227,7 +284,9 @@ async function main() {
     }
 
     console.log('\n🎉 Transaction cleanup completed!');
-    console.log('💡 All selected transactions have been closed and cleaned up.');
+    if (rentCollector) {
+      console.log(`💡 Rent of closed transactions was sent to the rent collector ${rentCollector}.`);
+    }
   } catch (error) {
     console.error('❌ Error closing transactions:', error);
     throw error; // Let the CLI handle the error gracefully
@@ -239,4 +298,4 @@ export { main };
 // Run the script
 if (import.meta.main) {
   main();
-}
\ No newline at end of file
+}
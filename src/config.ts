@@ -4,25 +4,59 @@ import {
   getMultisigSetRentCollectorInstruction,
   getMultisigAddSpendingLimitInstruction,
   getMultisigRemoveSpendingLimitInstruction,
+  getMultisigChangeThresholdInstruction,
+  getMultisigSetTimeLockInstruction,
+  getMultisigSetConfigAuthorityInstruction,
   fetchMultisig,
+  fetchProposal,
+  getProposalPda,
   getSpendingLimitPda,
+  type ConfigActionArgs,
 } from './utils/squads/index';
 import { 
-  address, 
-  createSignerFromKeyPair,
+  address,
   getAddressFromPublicKey,
   generateKeyPair,
+  type TransactionSigner,
 } from '@solana/kit';
-import { loadWalletFromConfig, loadAllSignersFromConfig } from './utils/config';
+import { findWalletSigner, findWalletByAddress, loadAllSignersFromConfig, saveVaultLabelToConfig } from './utils/config';
 import { loadMultisigAddressFromConfig } from './utils/config';
-import { prompt } from './utils/prompt';
-import { signAndSendTransaction } from './utils/sign';
+import { prompt, promptYesNo } from './utils/prompt';
+import { signAndSendOrExport } from './utils/sign';
+import { createOfflineSigner, isOfflineMode, promptSigner } from './utils/offline';
 import { rpc } from './utils/rpc';
+import {
+  AUTONOMOUS_CONFIG_AUTHORITY,
+  isAutonomousMultisig,
+  createConfigTransaction,
+  approveConfigTransaction,
+  executeConfigTransaction,
+} from './utils/configTransaction';
+import { displaySpendingLimits, selectSpendingLimit } from './utils/spendingLimit';
+import { promptVaultIndex } from './utils/vault';
+import { assertValidThreshold, assertValidTimeLock, countVoters, MAX_TIME_LOCK } from './utils/validation';
 import { type MemberArgs } from './utils/squads/types/member';
-import { type PeriodArgs } from './utils/squads/types/period';
+import { Period, type PeriodArgs } from './utils/squads/types/period';
+
+/**
+ * Summary lines shown with an exported transaction, for the offline signer to review
+ */
+function describeConfigChange(
+  multisigPda: string,
+  configAuthority: TransactionSigner,
+  description: string,
+  memo?: string
+): string[] {
+  return [
+    `Multisig: ${multisigPda}`,
+    `Config authority: ${configAuthority.address}`,
+    description,
+    ...(memo ? [`Memo: ${memo}`] : []),
+  ];
+}
 
 async function addMember(
-  configAuthority: CryptoKeyPair,
+  configAuthority: TransactionSigner,
   multisigPda: string,
   newMemberAddress: string,
   permissions: number,
@@ -31,9 +65,6 @@ async function addMember(
   console.log('\n👥 Adding new member...');
   
   try {
-    const configAuthorityAddress = await getAddressFromPublicKey(configAuthority.publicKey);
-    const signer = await createSignerFromKeyPair(configAuthority);
-    
     const memberArgs: MemberArgs = {
       key: address(newMemberAddress),
       permissions: { mask: permissions }
@@ -41,8 +72,8 @@ async function addMember(
     
     const instruction = getMultisigAddMemberInstruction({
       multisig: address(multisigPda),
-      configAuthority: signer,
-      rentPayer: signer,
+      configAuthority,
+      rentPayer: configAuthority,
       systemProgram: address('11111111111111111111111111111111'),
       newMember: memberArgs,
       memo: memo || null
@@ -51,11 +82,14 @@ async function addMember(
     console.log(`📋 Adding member: ${newMemberAddress}`);
     console.log(`🔑 Permissions: ${permissions} (0b${permissions.toString(2).padStart(3, '0')})`);
     
-    const signature = await signAndSendTransaction(
+    const signature = await signAndSendOrExport(
       [instruction],
-      [configAuthority],
-      configAuthorityAddress
+      configAuthority,
+      describeConfigChange(multisigPda, configAuthority, `Add member ${newMemberAddress} (permissions: ${permissions})`, memo)
     );
+    if (!signature) {
+      return;
+    }
     
     console.log(`✅ Member added successfully!`);
     console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
@@ -67,7 +101,7 @@ async function addMember(
 }
 
 async function removeMember(
-  configAuthority: CryptoKeyPair,
+  configAuthority: TransactionSigner,
   multisigPda: string,
   memberAddress: string,
   memo?: string
@@ -75,13 +109,10 @@ async function removeMember(
   console.log('\n👥 Removing member...');
   
   try {
-    const configAuthorityAddress = await getAddressFromPublicKey(configAuthority.publicKey);
-    const signer = await createSignerFromKeyPair(configAuthority);
-    
     const instruction = getMultisigRemoveMemberInstruction({
       multisig: address(multisigPda),
-      configAuthority: signer,
-      rentPayer: signer,
+      configAuthority,
+      rentPayer: configAuthority,
       systemProgram: address('11111111111111111111111111111111'),
       oldMember: address(memberAddress),
       memo: memo || null
@@ -89,11 +120,14 @@ async function removeMember(
     
     console.log(`📋 Removing member: ${memberAddress}`);
     
-    const signature = await signAndSendTransaction(
+    const signature = await signAndSendOrExport(
       [instruction],
-      [configAuthority],
-      configAuthorityAddress
+      configAuthority,
+      describeConfigChange(multisigPda, configAuthority, `Remove member ${memberAddress}`, memo)
     );
+    if (!signature) {
+      return;
+    }
     
     console.log(`✅ Member removed successfully!`);
     console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
@@ -106,7 +140,7 @@ async function removeMember(
 
 
 async function addSpendingLimit(
-  configAuthority: CryptoKeyPair,
+  configAuthority: TransactionSigner,
   multisigPda: string,
   vaultIndex: number,
   mint: string,
@@ -119,9 +153,6 @@ async function addSpendingLimit(
   console.log('\n💰 Adding spending limit...');
   
   try {
-    const configAuthorityAddress = await getAddressFromPublicKey(configAuthority.publicKey);
-    const signer = await createSignerFromKeyPair(configAuthority);
-    
     // Generate a random key for the spending limit
     const createKey = await generateKeyPair();
     const createKeyAddress = await getAddressFromPublicKey(createKey.publicKey);
@@ -131,9 +162,9 @@ async function addSpendingLimit(
     
     const instruction = getMultisigAddSpendingLimitInstruction({
       multisig: address(multisigPda),
-      configAuthority: signer,
+      configAuthority,
       spendingLimit: address(spendingLimitPda),
-      rentPayer: signer,
+      rentPayer: configAuthority,
       systemProgram: address('11111111111111111111111111111111'),
       createKey: address(createKeyAddress),
       vaultIndex,
@@ -151,11 +182,14 @@ async function addSpendingLimit(
     console.log(`👥 Members: ${members.length}`);
     console.log(`🎯 Destinations: ${destinations.length}`);
     
-    const signature = await signAndSendTransaction(
+    const signature = await signAndSendOrExport(
       [instruction],
-      [configAuthority],
-      configAuthorityAddress
+      configAuthority,
+      describeConfigChange(multisigPda, configAuthority, `Add spending limit of ${amount} (mint ${mint}) on vault ${vaultIndex}`, memo)
     );
+    if (!signature) {
+      return;
+    }
     
     console.log(`✅ Spending limit added successfully!`);
     console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
@@ -167,7 +201,7 @@ async function addSpendingLimit(
 }
 
 async function removeSpendingLimit(
-  configAuthority: CryptoKeyPair,
+  configAuthority: TransactionSigner,
   multisigPda: string,
   spendingLimitAddress: string,
   memo?: string
@@ -175,24 +209,24 @@ async function removeSpendingLimit(
   console.log('\n💰 Removing spending limit...');
   
   try {
-    const configAuthorityAddress = await getAddressFromPublicKey(configAuthority.publicKey);
-    const signer = await createSignerFromKeyPair(configAuthority);
-    
     const instruction = getMultisigRemoveSpendingLimitInstruction({
       multisig: address(multisigPda),
-      configAuthority: signer,
+      configAuthority,
       spendingLimit: address(spendingLimitAddress),
-      rentCollector: address(configAuthorityAddress),
+      rentCollector: configAuthority.address,
       memo: memo || null
     });
     
     console.log(`📋 Removing spending limit: ${spendingLimitAddress}`);
     
-    const signature = await signAndSendTransaction(
+    const signature = await signAndSendOrExport(
       [instruction],
-      [configAuthority],
-      configAuthorityAddress
+      configAuthority,
+      describeConfigChange(multisigPda, configAuthority, `Remove spending limit ${spendingLimitAddress}`, memo)
     );
+    if (!signature) {
+      return;
+    }
     
     console.log(`✅ Spending limit removed successfully!`);
     console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
@@ -204,7 +238,7 @@ async function removeSpendingLimit(
 }
 
 async function setRentCollector(
-  configAuthority: CryptoKeyPair,
+  configAuthority: TransactionSigner,
   multisigPda: string,
   rentCollectorAddress: string,
   memo?: string
@@ -212,13 +246,10 @@ async function setRentCollector(
   console.log('\n🏦 Setting rent collector...');
   
   try {
-    const configAuthorityAddress = await getAddressFromPublicKey(configAuthority.publicKey);
-    const signer = await createSignerFromKeyPair(configAuthority);
-    
     const instruction = getMultisigSetRentCollectorInstruction({
       multisig: address(multisigPda),
-      configAuthority: signer,
-      rentPayer: signer,
+      configAuthority,
+      rentPayer: configAuthority,
       systemProgram: address('11111111111111111111111111111111'),
       rentCollector: address(rentCollectorAddress),
       memo: memo || null
@@ -226,11 +257,14 @@ async function setRentCollector(
     
     console.log(`📋 Setting rent collector: ${rentCollectorAddress}`);
     
-    const signature = await signAndSendTransaction(
+    const signature = await signAndSendOrExport(
       [instruction],
-      [configAuthority],
-      configAuthorityAddress
+      configAuthority,
+      describeConfigChange(multisigPda, configAuthority, `Set rent collector to ${rentCollectorAddress}`, memo)
     );
+    if (!signature) {
+      return;
+    }
     
     console.log(`✅ Rent collector set successfully!`);
     console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
@@ -241,6 +275,139 @@ async function setRentCollector(
   }
 }
 
+async function changeThreshold(
+  configAuthority: TransactionSigner,
+  multisigPda: string,
+  newThreshold: number,
+  memo?: string
+): Promise<void> {
+  console.log('\n🎯 Changing threshold...');
+  
+  try {
+    const instruction = getMultisigChangeThresholdInstruction({
+      multisig: address(multisigPda),
+      configAuthority,
+      rentPayer: configAuthority,
+      systemProgram: address('11111111111111111111111111111111'),
+      newThreshold,
+      memo: memo || null
+    });
+    
+    console.log(`📋 New threshold: ${newThreshold}`);
+    
+    const signature = await signAndSendOrExport(
+      [instruction],
+      configAuthority,
+      describeConfigChange(multisigPda, configAuthority, `Change threshold to ${newThreshold}`, memo)
+    );
+    if (!signature) {
+      return;
+    }
+    
+    console.log(`✅ Threshold changed successfully!`);
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+    
+  } catch (error) {
+    console.error('❌ Error changing threshold:', error);
+    throw error;
+  }
+}
+
+async function setTimeLock(
+  configAuthority: TransactionSigner,
+  multisigPda: string,
+  timeLock: number,
+  memo?: string
+): Promise<void> {
+  console.log('\n⏰ Setting time lock...');
+  
+  try {
+    const instruction = getMultisigSetTimeLockInstruction({
+      multisig: address(multisigPda),
+      configAuthority,
+      rentPayer: configAuthority,
+      systemProgram: address('11111111111111111111111111111111'),
+      timeLock,
+      memo: memo || null
+    });
+    
+    console.log(`📋 New time lock: ${timeLock} seconds`);
+    
+    const signature = await signAndSendOrExport(
+      [instruction],
+      configAuthority,
+      describeConfigChange(multisigPda, configAuthority, `Set time lock to ${timeLock} seconds`, memo)
+    );
+    if (!signature) {
+      return;
+    }
+    
+    console.log(`✅ Time lock set successfully!`);
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+    
+  } catch (error) {
+    console.error('❌ Error setting time lock:', error);
+    throw error;
+  }
+}
+
+async function setConfigAuthority(
+  configAuthority: TransactionSigner,
+  multisigPda: string,
+  newConfigAuthority: string,
+  memo?: string
+): Promise<void> {
+  console.log('\n🔑 Setting config authority...');
+  
+  try {
+    const instruction = getMultisigSetConfigAuthorityInstruction({
+      multisig: address(multisigPda),
+      configAuthority,
+      rentPayer: configAuthority,
+      systemProgram: address('11111111111111111111111111111111'),
+      configAuthorityArg: address(newConfigAuthority),
+      memo: memo || null
+    });
+    
+    console.log(`📋 New config authority: ${newConfigAuthority}`);
+    
+    const signature = await signAndSendOrExport(
+      [instruction],
+      configAuthority,
+      describeConfigChange(multisigPda, configAuthority, `Set config authority to ${newConfigAuthority}`, memo)
+    );
+    if (!signature) {
+      return;
+    }
+    
+    console.log(`✅ Config authority set successfully!`);
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+    
+  } catch (error) {
+    console.error('❌ Error setting config authority:', error);
+    throw error;
+  }
+}
+
+/**
+ * Members, threshold, time lock and config authority changes bump staleTransactionIndex,
+ * which makes every proposal created before the change impossible to execute
+ */
+async function confirmStaleProposals(multisigPda: string): Promise<boolean> {
+  const multisigAccount = await fetchMultisig(rpc, address(multisigPda));
+  const transactionIndex = multisigAccount.data.transactionIndex;
+  const staleTransactionIndex = multisigAccount.data.staleTransactionIndex;
+  
+  if (transactionIndex <= staleTransactionIndex) {
+    return true;
+  }
+  
+  console.log('\n⚠️  WARNING: This change bumps the stale transaction index.');
+  console.log(`   Pending transactions #${staleTransactionIndex + 1n} to #${transactionIndex} will become stale and can no longer be executed.`);
+  
+  return await promptYesNo('Continue anyway?');
+}
+
 async function displayMultisigInfo(multisigPda: string): Promise<void> {
   console.log('\n📊 Current Multisig Information');
   console.log('==============================');
@@ -248,7 +415,10 @@ async function displayMultisigInfo(multisigPda: string): Promise<void> {
   try {
     const multisigAccount = await fetchMultisig(rpc, address(multisigPda));
     
+    const isAutonomous = isAutonomousMultisig(multisigAccount.data.configAuthority);
+    
     console.log(`🏛️  Multisig Address: ${multisigPda}`);
+    console.log(`⚙️  Config Authority: ${multisigAccount.data.configAuthority} (${isAutonomous ? 'Autonomous' : 'Controlled'})`);
     console.log(`🎯 Threshold: ${multisigAccount.data.threshold}`);
     console.log(`⏰ Time Lock: ${multisigAccount.data.timeLock} seconds`);
     console.log(`👥 Members: ${multisigAccount.data.members.length}`);
@@ -265,11 +435,91 @@ async function displayMultisigInfo(multisigPda: string): Promise<void> {
       console.log(`      Permissions: ${canPropose ? 'Propose' : ''} ${canVote ? 'Vote' : ''} ${canExecute ? 'Execute' : ''}`);
     });
     
+    await displaySpendingLimits(multisigPda);
+    
   } catch (error) {
     console.error('❌ Error fetching multisig info:', error);
   }
 }
 
+function parsePeriod(periodType: string): PeriodArgs {
+  switch (periodType) {
+    case '1': return Period.OneTime;
+    case '2': return Period.Day;
+    case '3': return Period.Week;
+    default: return Period.Month;
+  }
+}
+
+async function voteAndExecuteConfigTransaction(
+  multisigPda: string,
+  transactionIndex: bigint
+): Promise<void> {
+  const [proposalPda] = await getProposalPda(multisigPda, transactionIndex);
+  
+  while (true) {
+    const multisigAccount = await fetchMultisig(rpc, address(multisigPda));
+    const proposal = await fetchProposal(rpc, address(proposalPda));
+    const status = proposal.data.status.__kind;
+    
+    console.log(`\n📋 Config Transaction #${transactionIndex}: ${status}`);
+    console.log(`🗳️  Approvals: ${proposal.data.approved.length}/${multisigAccount.data.threshold}`);
+    
+    if (status === 'Approved') {
+      break;
+    }
+    
+    if (status !== 'Active') {
+      console.log(`❌ Config transaction can no longer be voted on (${status})`);
+      return;
+    }
+    
+    const vote = await promptYesNo('Cast another approval with a local wallet?');
+    if (!vote) {
+      console.log(`💡 Members can approve later with the "Vote" action, then execute transaction #${transactionIndex}.`);
+      return;
+    }
+    
+    const member = await promptSigner('\n👥 Select member to approve the config transaction', 'voter');
+    if (!await approveConfigTransaction(member, multisigPda, transactionIndex, `Approved by ${member.address}`)) {
+      // Exported for offline signing, the vote only counts once it is submitted
+      console.log(`💡 After submitting the approval, continue with the "Vote" action for transaction #${transactionIndex}.`);
+      return;
+    }
+  }
+  
+  const execute = await promptYesNo('Threshold reached. Execute the config transaction now?');
+  if (!execute) {
+    console.log(`💡 Use the "Execute" action later to apply config transaction #${transactionIndex}.`);
+    return;
+  }
+  
+  await executeConfigTransactionWithExecutor(multisigPda, transactionIndex);
+}
+
+/**
+ * Executes with a member picked for the Execute permission, the proposer may not have it
+ */
+async function executeConfigTransactionWithExecutor(multisigPda: string, transactionIndex: bigint): Promise<void> {
+  const executor = await promptSigner('\n👥 Select member to execute the config transaction', 'executor');
+  // Refuse to send before the time lock has passed, --wait sleeps until it does
+  await executeConfigTransaction(executor, multisigPda, transactionIndex, process.argv.includes('--wait'));
+}
+
+async function proposeConfigChange(
+  proposer: TransactionSigner,
+  multisigPda: string,
+  actions: ConfigActionArgs[],
+  memo?: string
+): Promise<void> {
+  const transactionIndex = await createConfigTransaction(proposer, multisigPda, actions, memo);
+  if (transactionIndex === null) {
+    // Exported for offline signing, voting continues once the proposal is submitted
+    return;
+  }
+  await voteAndExecuteConfigTransaction(multisigPda, transactionIndex);
+}
+
 async function main() {
   try {
     console.log('⚙️  Squads Config Management Tool');
@@ -284,105 +534,312 @@ async function main() {
     const multisigAddress = await loadMultisigAddressFromConfig();
     console.log(`🏛️  Multisig Address: ${multisigAddress}`);
     
-    // Load the manager wallet for configuration operations
-    const configAuthority = await loadWalletFromConfig('manager');
-    const configAuthorityAddress = await getAddressFromPublicKey(configAuthority.publicKey);
-    console.log(`👤 Config Authority Address: ${configAuthorityAddress}`);
+    // Load the wallet for configuration operations
+    // (config authority for controlled multisigs, proposer for autonomous ones)
+    const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
+    // With --offline the wallets sign on another machine, watch-only ones included
+    let configAuthority: TransactionSigner;
+    if (isAutonomousMultisig(multisigAccount.data.configAuthority)) {
+      configAuthority = await promptSigner('\n👥 Select member to propose config changes', 'proposer');
+    } else if (isOfflineMode()) {
+      const authorityWallet = await findWalletByAddress(multisigAccount.data.configAuthority);
+      if (!authorityWallet) {
+        throw new Error(`Config authority ${multisigAccount.data.configAuthority} is not a wallet in config.json`);
+      }
+      console.log(`✅ Using ${authorityWallet.name} as config authority, signing offline`);
+      configAuthority = createOfflineSigner(authorityWallet.address);
+    } else {
+      const localAuthority = await findWalletSigner(multisigAccount.data.configAuthority);
+      if (!localAuthority) {
+        throw new Error(`Config authority ${multisigAccount.data.configAuthority} is not a signing wallet in config.json`);
+      }
+      console.log(`✅ Using ${localAuthority.name} as config authority`);
+      configAuthority = localAuthority.signer;
+    }
+    
+    if (isAutonomousMultisig(multisigAccount.data.configAuthority)) {
+      console.log(`👤 Proposer Address: ${configAuthority.address}`);
+      console.log('🤖 Autonomous multisig: config changes are proposed as config transactions and require voting');
+    } else {
+      console.log(`👤 Config Authority Address: ${configAuthority.address}`);
+    }
     
     // Display current multisig info
     await displayMultisigInfo(multisigAddress);
     
     while (true) {
-      console.log('\n🔧 Controlled Multisig Instructions:');
-      console.log('1. AddMember - Add a new member to the multisig');
-      console.log('2. RemoveMember - Remove a member from the multisig');
-      console.log('3. SetRentCollector - Set the rent collector');
-      console.log('4. AddSpendingLimit - Add a spending limit');
-      console.log('5. RemoveSpendingLimit - Remove a spending limit');
-      console.log('6. ViewInfo - Display current multisig information');
-      console.log('7. Exit - Exit the config tool');
+      // Re-read the config authority, it changes once the multisig is made autonomous
+      const multisigState = await fetchMultisig(rpc, address(multisigAddress));
+      const isAutonomous = isAutonomousMultisig(multisigState.data.configAuthority);
       
-      const choice = await prompt('\nSelect an action (1-7): ');
+      if (isAutonomous) {
+        console.log('\n🔧 Autonomous Multisig Config Transactions:');
+        console.log('1. AddMember - Propose adding a new member to the multisig');
+        console.log('2. RemoveMember - Propose removing a member from the multisig');
+        console.log('3. SetRentCollector - Propose a new rent collector');
+        console.log('4. AddSpendingLimit - Propose a spending limit');
+        console.log('5. RemoveSpendingLimit - Propose removing a spending limit');
+        console.log('6. ViewInfo - Display current multisig information');
+        console.log('7. ChangeThreshold - Propose a new approval threshold');
+        console.log('8. SetTimeLock - Propose a new time lock');
+      } else {
+        console.log('\n🔧 Controlled Multisig Instructions:');
+        console.log('1. AddMember - Add a new member to the multisig');
+        console.log('2. RemoveMember - Remove a member from the multisig');
+        console.log('3. SetRentCollector - Set the rent collector');
+        console.log('4. AddSpendingLimit - Add a spending limit');
+        console.log('5. RemoveSpendingLimit - Remove a spending limit');
+        console.log('6. ViewInfo - Display current multisig information');
+        console.log('7. ChangeThreshold - Change the approval threshold');
+        console.log('8. SetTimeLock - Set the time lock');
+        console.log('9. SetConfigAuthority - Transfer the config authority to another key');
+        console.log('10. MakeAutonomous - Remove the config authority so changes require voting');
+      }
+      console.log('11. LabelVault - Name a vault index locally (stored in config.json)');
+      if (isAutonomous) {
+        console.log('12. Vote - Approve a pending config transaction');
+        console.log('13. Execute - Execute an approved config transaction');
+      }
+      console.log('0. Exit - Exit the config tool');
+      
+      // Every action keeps its number, the ones that do not apply to this multisig are hidden
+      const hiddenChoices = isAutonomous ? ['9', '10'] : ['12', '13'];
+      const choice = await prompt(`\nSelect an action (0-${isAutonomous ? 13 : 11}): `);
       
-      switch (choice) {
-        case '1': {
-          const memberAddress = await prompt('Enter new member address: ');
-          const permissionsChoice = await prompt('Enter permissions (1=propose, 2=vote, 4=execute, 7=all): ');
-          const permissions = parseInt(permissionsChoice) || 7;
-          const memo = await prompt('Enter memo (optional): ');
+      try {
+        switch (hiddenChoices.includes(choice) ? '' : choice) {
+          case '1': {
+            const memberAddress = await prompt('Enter new member address: ');
+            const permissionsChoice = await prompt('Enter permissions (1=propose, 2=vote, 4=execute, 7=all): ');
+            const permissions = parseInt(permissionsChoice) || 7;
+            const memo = await prompt('Enter memo (optional): ');
+            
+            if (isAutonomous) {
+              await proposeConfigChange(configAuthority, multisigAddress, [{
+                __kind: 'AddMember',
+                newMember: { key: address(memberAddress), permissions: { mask: permissions } },
+              }], memo);
+            } else {
+              await addMember(configAuthority, multisigAddress, memberAddress, permissions, memo);
+            }
+            break;
+          }
           
-          await addMember(configAuthority, multisigAddress, memberAddress, permissions, memo);
-          break;
-        }
-        
-        case '2': {
-          const memberAddress = await prompt('Enter member address to remove: ');
-          const memo = await prompt('Enter memo (optional): ');
+          case '2': {
+            const memberAddress = await prompt('Enter member address to remove: ');
+            const memo = await prompt('Enter memo (optional): ');
+            
+            if (isAutonomous) {
+              await proposeConfigChange(configAuthority, multisigAddress, [{
+                __kind: 'RemoveMember',
+                oldMember: address(memberAddress),
+              }], memo);
+            } else {
+              await removeMember(configAuthority, multisigAddress, memberAddress, memo);
+            }
+            break;
+          }
           
-          await removeMember(configAuthority, multisigAddress, memberAddress, memo);
-          break;
-        }
-        
-        case '3': {
-          const rentCollectorAddress = await prompt('Enter rent collector address: ');
-          const memo = await prompt('Enter memo (optional): ');
+          case '3': {
+            const rentCollectorAddress = await prompt('Enter rent collector address: ');
+            const memo = await prompt('Enter memo (optional): ');
+            
+            if (isAutonomous) {
+              await proposeConfigChange(configAuthority, multisigAddress, [{
+                __kind: 'SetRentCollector',
+                newRentCollector: address(rentCollectorAddress),
+              }], memo);
+            } else {
+              await setRentCollector(configAuthority, multisigAddress, rentCollectorAddress, memo);
+            }
+            break;
+          }
           
-          await setRentCollector(configAuthority, multisigAddress, rentCollectorAddress, memo);
-          break;
-        }
-        
-        case '4': {
-          const vaultIndex = await prompt('Enter vault index (0): ');
-          const mint = await prompt('Enter mint address: ');
-          const amount = await prompt('Enter amount (in smallest units): ');
-          const periodType = await prompt('Enter period type (1=OneTime, 2=Day, 3=Week, 4=Month): ');
-          const membersInput = await prompt('Enter member addresses (comma-separated): ');
-          const destinationsInput = await prompt('Enter destination addresses (comma-separated, empty for any): ');
-          const memo = await prompt('Enter memo (optional): ');
+          case '4': {
+            const vaultIndex = await promptVaultIndex('limit');
+            const mint = await prompt('Enter mint address: ');
+            const amount = await prompt('Enter amount (in smallest units): ');
+            const periodType = await prompt('Enter period type (1=OneTime, 2=Day, 3=Week, 4=Month): ');
+            const membersInput = await prompt('Enter member addresses (comma-separated): ');
+            const destinationsInput = await prompt('Enter destination addresses (comma-separated, empty for any): ');
+            const memo = await prompt('Enter memo (optional): ');
+            
+            const period = parsePeriod(periodType);
+            
+            const members = membersInput.split(',').map(addr => addr.trim()).filter(addr => addr);
+            const destinations = destinationsInput.split(',').map(addr => addr.trim()).filter(addr => addr);
+            
+            if (isAutonomous) {
+              // The create key only seeds the spending limit PDA, so it does not need to sign
+              const createKey = await generateKeyPair();
+              const createKeyAddress = await getAddressFromPublicKey(createKey.publicKey);
+              
+              await proposeConfigChange(configAuthority, multisigAddress, [{
+                __kind: 'AddSpendingLimit',
+                createKey: createKeyAddress,
+                vaultIndex,
+                mint: address(mint),
+                amount: BigInt(amount),
+                period,
+                members: members.map(addr => address(addr)),
+                destinations: destinations.map(addr => address(addr)),
+              }], memo);
+            } else {
+              await addSpendingLimit(
+                configAuthority,
+                multisigAddress, 
+                vaultIndex, 
+                mint, 
+                BigInt(amount), 
+                period, 
+                members, 
+                destinations, 
+                memo
+              );
+            }
+            break;
+          }
           
-          const period: PeriodArgs = {
-            __kind: periodType === '1' ? 'OneTime' : 
-                   periodType === '2' ? 'Day' : 
-                   periodType === '3' ? 'Week' : 'Month'
-          } as unknown as PeriodArgs;
+          case '5': {
+            const { address: spendingLimitAddress } = await selectSpendingLimit(multisigAddress, 'remove');
+            const memo = await prompt('Enter memo (optional): ');
+            
+            if (isAutonomous) {
+              await proposeConfigChange(configAuthority, multisigAddress, [{
+                __kind: 'RemoveSpendingLimit',
+                spendingLimit: address(spendingLimitAddress),
+              }], memo);
+            } else {
+              await removeSpendingLimit(configAuthority, multisigAddress, spendingLimitAddress, memo);
+            }
+            break;
+          }
           
-          const members = membersInput.split(',').map(addr => addr.trim()).filter(addr => addr);
-          const destinations = destinationsInput.split(',').map(addr => addr.trim()).filter(addr => addr);
+          case '6': {
+            await displayMultisigInfo(multisigAddress);
+            break;
+          }
           
-          await addSpendingLimit(
-            configAuthority,
-            multisigAddress, 
-            parseInt(vaultIndex), 
-            mint, 
-            BigInt(amount), 
-            period, 
-            members, 
-            destinations, 
-            memo
-          );
-          break;
-        }
-        
-        case '5': {
-          const spendingLimitAddress = await prompt('Enter spending limit address to remove: ');
-          const memo = await prompt('Enter memo (optional): ');
+          case '7': {
+            const threshold = parseInt(await prompt(`Enter new threshold (current: ${multisigState.data.threshold}, voters: ${countVoters(multisigState.data.members)}): `));
+            assertValidThreshold(threshold, multisigState.data.members);
+            if (threshold === multisigState.data.threshold) {
+              console.log('💡 Threshold is already set to this value.');
+              break;
+            }
+            if (!(await confirmStaleProposals(multisigAddress))) {
+              console.log('❌ Threshold change cancelled');
+              break;
+            }
+            const memo = await prompt('Enter memo (optional): ');
+            
+            if (isAutonomous) {
+              await proposeConfigChange(configAuthority, multisigAddress, [{
+                __kind: 'ChangeThreshold',
+                newThreshold: threshold,
+              }], memo);
+            } else {
+              await changeThreshold(configAuthority, multisigAddress, threshold, memo);
+            }
+            break;
+          }
           
-          await removeSpendingLimit(configAuthority, multisigAddress, spendingLimitAddress, memo);
-          break;
-        }
-        
-        case '6': {
-          await displayMultisigInfo(multisigAddress);
-          break;
-        }
-        
-        case '7': {
-          console.log('\n👋 Exiting config tool...');
-          return;
+          case '8': {
+            const timeLock = parseInt(await prompt(`Enter new time lock in seconds (current: ${multisigState.data.timeLock}, max: ${MAX_TIME_LOCK}): `));
+            assertValidTimeLock(timeLock);
+            if (timeLock === multisigState.data.timeLock) {
+              console.log('💡 Time lock is already set to this value.');
+              break;
+            }
+            if (!(await confirmStaleProposals(multisigAddress))) {
+              console.log('❌ Time lock change cancelled');
+              break;
+            }
+            const memo = await prompt('Enter memo (optional): ');
+            
+            if (isAutonomous) {
+              await proposeConfigChange(configAuthority, multisigAddress, [{
+                __kind: 'SetTimeLock',
+                newTimeLock: timeLock,
+              }], memo);
+            } else {
+              await setTimeLock(configAuthority, multisigAddress, timeLock, memo);
+            }
+            break;
+          }
+          
+          case '9': {
+            const newConfigAuthority = address(await prompt('Enter new config authority address: '));
+            if (newConfigAuthority === multisigState.data.configAuthority) {
+              console.log('💡 This address is already the config authority.');
+              break;
+            }
+            if (newConfigAuthority === AUTONOMOUS_CONFIG_AUTHORITY) {
+              console.log('💡 Use MakeAutonomous to remove the config authority.');
+              break;
+            }
+            console.log('⚠️  The current config authority will lose control over this multisig.');
+            if (!(await confirmStaleProposals(multisigAddress))) {
+              console.log('❌ Config authority change cancelled');
+              break;
+            }
+            const memo = await prompt('Enter memo (optional): ');
+            
+            await setConfigAuthority(configAuthority, multisigAddress, newConfigAuthority, memo);
+            break;
+          }
+          
+          case '10': {
+            console.log('\n⚠️  Making the multisig autonomous is irreversible:');
+            console.log('   • The config authority is set to the default pubkey');
+            console.log('   • Every future config change must be proposed and approved by members');
+            console.log('   • The manager can no longer change the config unilaterally');
+            if (!(await confirmStaleProposals(multisigAddress))) {
+              console.log('❌ Make autonomous cancelled');
+              break;
+            }
+            const confirm = await prompt('Type "autonomous" to confirm: ');
+            if (confirm !== 'autonomous') {
+              console.log('❌ Make autonomous cancelled');
+              break;
+            }
+            const memo = await prompt('Enter memo (optional): ');
+            
+            await setConfigAuthority(configAuthority, multisigAddress, AUTONOMOUS_CONFIG_AUTHORITY, memo);
+            console.log('🤖 The multisig is now autonomous.');
+            break;
+          }
+          
+          case '11': {
+            const vaultIndex = await promptVaultIndex('label');
+            const label = await prompt('Enter label (empty to remove): ');
+            await saveVaultLabelToConfig(vaultIndex, label.trim());
+            break;
+          }
+          
+          case '12': {
+            const transactionIndex = await prompt('Enter config transaction index to approve: ');
+            await voteAndExecuteConfigTransaction(multisigAddress, BigInt(transactionIndex));
+            break;
+          }
+          
+          case '13': {
+            const transactionIndex = await prompt('Enter config transaction index to execute: ');
+            await executeConfigTransactionWithExecutor(multisigAddress, BigInt(transactionIndex));
+            break;
+          }
+          
+          case '0': {
+            console.log('\n👋 Exiting config tool...');
+            return;
+          }
+          
+          default:
+            console.log(`❌ Invalid choice. Please select 0-${isAutonomous ? 13 : 11}.`);
         }
-        
-        default:
-          console.log('❌ Invalid choice. Please select 1-7.');
+      } catch (error) {
+        // Keep the config tool open when an action is rejected or fails
+        console.error(`❌ ${error instanceof Error ? error.message : error}`);
       }
     }
     
@@ -400,4 +857,4 @@ export { main };
 // Run the script
 if (import.meta.main) {
   main();
-}
\ No newline at end of file
+}
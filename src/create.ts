@@ -0,0 +1,308 @@
+import { address, type Address } from '@solana/kit';
+import type { MemberArgs } from './utils/squads/index';
+import {
+  formatWalletEntry,
+  listSigners,
+  listWallets,
+  loadAllSignersFromConfig,
+  loadConfig,
+  loadSignerFromConfig,
+  saveMultisigAddressToConfig,
+} from './utils/config';
+import { prompt, promptChoice, promptWalletChoice, promptYesNo } from './utils/prompt';
+import { rpc } from './utils/rpc';
+import { fetchProgramConfigEntry, displayProgramConfig, formatLamportsAsSol } from './utils/programConfig';
+import {
+  assertValidMultisigSettings,
+  createMultisig,
+  displayMultisigCreationCost,
+  displayMultisigSettings,
+  getMultisigCreationCost,
+  type MultisigSettings,
+} from './utils/multisigCreate';
+import {
+  ALL_PERMISSIONS,
+  MAX_TIME_LOCK,
+  Permission,
+  assertValidMembers,
+  countVoters,
+  describePermissions,
+  parsePermissions,
+} from './utils/validation';
+import type { WalletName, WalletRole } from './utils/types';
+
+const ROLE_PERMISSIONS: Record<WalletRole, number> = {
+  proposer: Permission.Initiate,
+  voter: Permission.Vote,
+  executor: Permission.Execute,
+};
+
+interface CreateOptions {
+  creator: WalletName;
+  settings: MultisigSettings;
+}
+
+async function parseWalletName(input: string): Promise<WalletName> {
+  const signers = await listSigners();
+  if (!signers.some(signer => signer.name === input)) {
+    throw new Error(`Unknown wallet "${input}": use ${signers.map(signer => signer.name).join(', ')}`);
+  }
+  return input;
+}
+
+/**
+ * Default permissions of a local wallet, derived from its roles (all permissions without roles)
+ */
+function getRolePermissions(roles: WalletRole[]): number {
+  if (roles.length === 0) {
+    return ALL_PERMISSIONS;
+  }
+  return roles.reduce((mask, role) => mask | ROLE_PERMISSIONS[role], 0);
+}
+
+function parseWholeNumber(input: string, name: string): number {
+  if (!/^\d+$/.test(input.trim())) {
+    throw new Error(`Invalid ${name} "${input}": must be a whole number`);
+  }
+  return Number(input);
+}
+
+/**
+ * Parses the non-interactive form:
+ *   --member <address>[:<permissions>] (repeatable, permissions default to all)
+ *   --threshold <n> --time-lock <seconds> --creator <wallet> (default: first signer) --memo <text>
+ *   --rent-collector <address|none> (default: creator)
+ *   --config-authority <address|autonomous> (default: autonomous)
+ */
+async function parseCreateArgs(args: string[]): Promise<CreateOptions> {
+  const members: MemberArgs[] = [];
+  let creator: WalletName | undefined;
+  let threshold: number | undefined;
+  let timeLock = 0;
+  let rentCollector: string | undefined;
+  let configAuthority: Address | null = null;
+  let memo: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const value = args[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    i++;
+
+    switch (flag) {
+      case '--member': {
+        const [key, permissions] = value.split(':');
+        members.push({
+          key: address(key ?? ''),
+          permissions: { mask: permissions ? parsePermissions(permissions) : ALL_PERMISSIONS },
+        });
+        break;
+      }
+      case '--threshold':
+        threshold = parseWholeNumber(value, 'threshold');
+        break;
+      case '--time-lock':
+        timeLock = parseWholeNumber(value, 'time lock');
+        break;
+      case '--creator':
+        creator = await parseWalletName(value);
+        break;
+      case '--rent-collector':
+        rentCollector = value;
+        break;
+      case '--config-authority':
+        configAuthority = value === 'autonomous' ? null : address(value);
+        break;
+      case '--memo':
+        memo = value;
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+  }
+
+  if (threshold === undefined) {
+    throw new Error('Missing --threshold');
+  }
+
+  if (creator === undefined) {
+    const [firstSigner] = await listSigners();
+    if (!firstSigner) {
+      throw new Error('No wallet with a secret key in config.json');
+    }
+    creator = firstSigner.name;
+  }
+
+  const creatorAddress = (await loadSignerFromConfig(creator)).address;
+
+  return {
+    creator,
+    settings: {
+      members,
+      threshold,
+      timeLock,
+      rentCollector: rentCollector === 'none' ? null : rentCollector ? address(rentCollector) : creatorAddress,
+      configAuthority,
+      memo,
+    },
+  };
+}
+
+async function promptMembers(): Promise<MemberArgs[]> {
+  const members: MemberArgs[] = [];
+
+  console.log('\n👥 Members');
+  console.log('Permissions: 1=initiate, 2=vote, 4=execute, 7=all, or names like "vote+execute"');
+
+  const wallets = await listWallets();
+  if (wallets.length > 0 && await promptYesNo('Add the wallets from config.json as members?')) {
+    for (const wallet of wallets) {
+      const defaultMask = getRolePermissions(wallet.roles);
+      const input = await prompt(`Permissions for ${formatWalletEntry(wallet)} (default: ${describePermissions(defaultMask)}, 0 to skip): `);
+      const mask = input === '' ? defaultMask : parsePermissions(input);
+      if (mask !== 0) {
+        members.push({ key: wallet.address, permissions: { mask } });
+      }
+    }
+  }
+
+  while (true) {
+    const input = await prompt('Enter member address (empty to finish): ');
+    if (input === '') {
+      break;
+    }
+
+    try {
+      const key = address(input);
+      const permissionsInput = await prompt('Enter permissions (default: all): ');
+      const mask = permissionsInput === '' ? ALL_PERMISSIONS : parsePermissions(permissionsInput);
+      members.push({ key, permissions: { mask } });
+      console.log(`✅ Added ${key} - ${describePermissions(mask)}`);
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  assertValidMembers(members);
+  return members;
+}
+
+async function promptThreshold(members: MemberArgs[]): Promise<number> {
+  const voters = countVoters(members);
+  const defaultThreshold = Math.floor(voters / 2) + 1;
+  const input = await prompt(`\n🎯 Enter threshold (1-${voters}, default: ${defaultThreshold}): `);
+  return input === '' ? defaultThreshold : parseWholeNumber(input, 'threshold');
+}
+
+async function promptTimeLock(): Promise<number> {
+  const input = await prompt(`⏳ Enter time lock in seconds (0-${MAX_TIME_LOCK}, default: 0): `);
+  return input === '' ? 0 : parseWholeNumber(input, 'time lock');
+}
+
+async function promptRentCollector(creatorAddress: Address): Promise<Address | null> {
+  const input = await prompt(`♻️  Enter rent collector address, or "none" to disable rent reclamation (default: ${creatorAddress}): `);
+  if (input === '') {
+    return creatorAddress;
+  }
+  return input.toLowerCase() === 'none' ? null : address(input);
+}
+
+async function promptConfigAuthority(creatorAddress: Address): Promise<Address | null> {
+  const choice = await promptChoice('\n🔐 Config authority:', [
+    'Autonomous - config changes are voted on by the members',
+    'Controlled - a config authority changes the config directly',
+  ]);
+  if (choice.startsWith('Autonomous')) {
+    return null;
+  }
+
+  const input = await prompt(`Enter config authority address (default: ${creatorAddress}): `);
+  return input === '' ? creatorAddress : address(input);
+}
+
+async function runWizard(): Promise<CreateOptions> {
+  const creator = await promptWalletChoice('\n👤 Select the creator, who pays the fee and rent');
+  const creatorAddress = (await loadSignerFromConfig(creator)).address;
+
+  const members = await promptMembers();
+  const threshold = await promptThreshold(members);
+  const timeLock = await promptTimeLock();
+  const rentCollector = await promptRentCollector(creatorAddress);
+  const configAuthority = await promptConfigAuthority(creatorAddress);
+  const memo = await prompt('Enter memo (optional): ');
+
+  return {
+    creator,
+    settings: { members, threshold, timeLock, rentCollector, configAuthority, memo: memo || undefined },
+  };
+}
+
+async function main() {
+  try {
+    console.log('🏗️  Squads Multisig Creation Wizard');
+    console.log('==================================\n');
+
+    console.log('✅ Loading signers from config...');
+    await loadAllSignersFromConfig();
+
+    // The creation fee must be known before asking anyone to pay it
+    const programConfig = await fetchProgramConfigEntry();
+    displayProgramConfig(programConfig);
+    if (!programConfig.data) {
+      console.log('💡 Run the "Program Config Admin" command to initialize it first.');
+      return;
+    }
+
+    const args = process.argv.slice(2);
+    const interactive = !args.includes('--member');
+    const { creator, settings } = interactive ? await runWizard() : await parseCreateArgs(args);
+
+    assertValidMultisigSettings(settings);
+
+    const cost = await getMultisigCreationCost(programConfig, settings.members.length);
+    const creatorWallet = await loadSignerFromConfig(creator);
+    const creatorAddress = creatorWallet.address;
+
+    console.log('\n📋 New Multisig:');
+    console.log(`👤 Creator: ${creator} (${creatorAddress})`);
+    displayMultisigSettings(settings);
+    displayMultisigCreationCost(cost);
+
+    const { value: balance } = await rpc.getBalance(creatorAddress).send();
+    if (balance < cost.total) {
+      throw new Error(`Creator balance of ${formatLamportsAsSol(balance)} does not cover the creation cost`);
+    }
+
+    const existingMultisig = (await loadConfig()).multisigAddress;
+    if (interactive) {
+      if (existingMultisig) {
+        console.log(`\n⚠️  config.json currently points to multisig ${existingMultisig}, it will be replaced`);
+      }
+      if (!await promptYesNo('\n🏗️  Create this multisig?')) {
+        console.log('❌ Multisig creation cancelled');
+        return;
+      }
+    }
+
+    const multisigAddress = await createMultisig(creatorWallet, settings);
+
+    await saveMultisigAddressToConfig(multisigAddress);
+    if (existingMultisig) {
+      console.log(`💡 Previous multisig ${existingMultisig} is no longer the active one in config.json`);
+    }
+
+    console.log('\n🎉 Multisig created and saved to config.json!');
+  } catch (error) {
+    console.error('❌ Error:', error);
+    throw error; // Let the CLI handle the error gracefully
+  }
+}
+
+export { main };
+
+// Run the script
+if (import.meta.main) {
+  main();
+}
@@ -1,31 +1,29 @@
 import { 
-  getVaultTransactionExecuteInstruction,
   fetchMultisig,
   getProposalPda,
   getTransactionPda,
 } from './utils/squads/index';
 import { 
   address, 
-  createSignerFromKeyPair,
-  getAddressFromPublicKey,
-  signTransaction,
-  getBase64EncodedWireTransaction,
-  type Instruction
+  type TransactionSigner,
 } from '@solana/kit';
-import { loadWalletFromConfig, loadAllSignersFromConfig } from './utils/config';
+import { loadAllSignersFromConfig } from './utils/config';
 import { loadMultisigAddressFromConfig } from './utils/config';
 import { prompt } from './utils/prompt';
-import { rpc, solanaConnection } from './utils/rpc';
-import { PublicKey } from '@solana/web3.js';
-import * as multisig from '@sqds/multisig';
-import { fromLegacyTransactionInstruction } from '@solana/compat';
-import { signAndSendTransaction } from './utils/sign';
+import { rpc } from './utils/rpc';
+import { signAndSendOrExport } from './utils/sign';
+import { displayEphemeralSigners } from './utils/ephemeralSigner';
+import { buildVaultTransactionExecute } from './utils/executeAccounts';
+import { displayTransactionInstructions, tryDescribeTransaction } from './utils/instructionDecoder';
+import { promptSigner } from './utils/offline';
+import { confirmWithSimulation } from './utils/simulate';
+import { ensureExecutable } from './utils/timeLock';
 
 async function executePaymentTransaction(
   multisigPda: string,
   transactionIndex: bigint,
-  executor: CryptoKeyPair
-): Promise<void> {
+  executor: TransactionSigner
+): Promise<boolean> {
   console.log('\n🚀 Executing payment transaction...');
   
   try {
@@ -38,29 +36,41 @@ async function executePaymentTransaction(
     console.log(`📋 Transaction Address: ${transactionPda}`);
     console.log(`📋 Transaction Index: ${transactionIndex}`);
     
-    const executorAddress = await getAddressFromPublicKey(executor.publicKey);
+    // Resolve the inner message's accounts, lookup tables and ephemeral signers
+    const { instruction, lookupTables, ephemeralSignerPdas, accountKeys } = await buildVaultTransactionExecute(
+      multisigPda,
+      transactionIndex,
+      executor
+    );
+    
+    // Ephemeral signers are passed as non-signer accounts, the program signs for them with their bumps
+    displayEphemeralSigners(ephemeralSignerPdas);
+    const lookupTableCount = Object.keys(lookupTables).length;
+    if (lookupTableCount > 0) {
+      console.log(`🔎 Lookup Tables: ${lookupTableCount} (${accountKeys.length} accounts)`);
+    }
     
-    // Create execution instruction using Squads utils
-    const executeInstructionResult = await multisig.instructions.vaultTransactionExecute({
-      connection: solanaConnection,
-      multisigPda: new PublicKey(multisigPda),
-      transactionIndex: transactionIndex,
-      member: new PublicKey(executorAddress),
-    });
-
-    const vaultInstruction = fromLegacyTransactionInstruction(executeInstructionResult.instruction);
-
     console.log('📤 Preparing execution transaction...');
     
-    // Send and confirm transaction using executor
-    const signature = await signAndSendTransaction(
-      [vaultInstruction as Instruction<string>],
-      [executor],
-      executorAddress
+    // Send and confirm transaction using executor, or export it when the executor signs offline
+    // The execute instruction lists every looked-up account, compress them with the same tables
+    const signature = await signAndSendOrExport(
+      [instruction],
+      executor,
+      async () => [
+        `Execute transaction #${transactionIndex} of multisig ${multisigPda} as ${executor.address}`,
+        ...(await tryDescribeTransaction(multisigPda, transactionIndex)).split('\n'),
+      ],
+      'confirmed',
+      lookupTables
     );
+    if (!signature) {
+      return false;
+    }
     
     console.log(`✅ Execution successful!`);
     console.log(`🔗 View on Solana Explorer: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+    return true;
     
   } catch (error) {
     console.error('❌ Execution failed:', error);
@@ -97,18 +107,28 @@ async function main() {
       ? BigInt(transactionIndexInput) 
       : multisigAccount.data.transactionIndex;
     
-    console.log('Note: Only Manager can execute transactions');
+    // Load the executor's wallet, any member with the execute permission, with --offline it signs on another machine
+    const executor = await promptSigner('\n👥 Select member to execute the transaction', 'executor');
+    console.log(`👤 Executor Address: ${executor.address}`);
+    
+    // Refuse to send before the time lock has passed, --wait sleeps until it does
+    const wait = process.argv.includes('--wait');
+    await ensureExecutable(multisigAddress, transactionIndex, multisigAccount.data.timeLock, wait);
     
-    // Load the manager wallet for execution
-    const executor = await loadWalletFromConfig('manager');
-    const executorAddress = await getAddressFromPublicKey(executor.publicKey);
-    console.log(`👤 Executor Address: ${executorAddress}`);
+    await displayTransactionInstructions(multisigAddress, transactionIndex);
+    
+    if (!await confirmWithSimulation(multisigAddress, transactionIndex, executor.address, 'execute')) {
+      console.log('❌ Execution cancelled');
+      return;
+    }
     
     // Display execution confirmation
     console.log('🚀 Proceeding with transaction execution...');
     
     // Execute the transaction
-    await executePaymentTransaction(multisigAddress, transactionIndex, executor);
+    if (!await executePaymentTransaction(multisigAddress, transactionIndex, executor)) {
+      return;
+    }
     
     console.log('\n🎉 Transaction executed successfully!');
     console.log('💰 The payment has been processed and sent to the recipient.');
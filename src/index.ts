@@ -6,6 +6,7 @@
 
 import { prompt } from './utils/prompt';
 import { checkConfigExists } from './utils/config';
+import { TransactionFailedError, formatTransactionFailure } from './utils/programErrors';
 
 // Import all script main functions
 import { main as startMain } from './start';
@@ -18,6 +19,15 @@ import { main as rejectMain } from './reject';
 import { main as cancelMain } from './cancel';
 import { main as infoMain } from './info';
 import { main as configMain } from './config';
+import { main as batchMain } from './batch';
+import { main as spendMain } from './spend';
+import { main as activateMain } from './activate';
+import { main as programConfigMain } from './programConfig';
+import { main as createMain } from './create';
+import { main as simulateMain } from './simulate';
+import { main as walletsMain } from './wallets';
+import { main as signOfflineMain } from './signOffline';
+import { main as submitMain } from './submit';
 
 interface ScriptOption {
   id: string;
@@ -45,10 +55,38 @@ const scripts: ScriptOption[] = [
   {
     id: 'propose',
     name: '💸 Create Payment Proposal',
-    description: 'Propose a SOL or USDC payment transaction for multisig approval',
+    description: 'Propose a SOL or USDC payment, or a new SPL token mint, for multisig approval',
     requiresConfig: true,
     function: proposeMain
   },
+  {
+    id: 'batch',
+    name: '📦 Batch Payments',
+    description: 'Propose, execute and close multi-step batch transactions',
+    requiresConfig: true,
+    function: batchMain
+  },
+  {
+    id: 'spend',
+    name: '💳 Spend from Limit',
+    description: 'Pay directly from the vault within a spending limit, no vote needed',
+    requiresConfig: true,
+    function: spendMain
+  },
+  {
+    id: 'activate',
+    name: '📝 Activate Draft',
+    description: 'Open a draft proposal for voting',
+    requiresConfig: true,
+    function: activateMain
+  },
+  {
+    id: 'simulate',
+    name: '🧪 Simulate Execution',
+    description: 'Dry-run a proposal and preview its logs, compute and balance changes',
+    requiresConfig: true,
+    function: simulateMain
+  },
   {
     id: 'approve',
     name: '✅ Approve Transaction',
@@ -90,6 +128,41 @@ const scripts: ScriptOption[] = [
     description: 'Transfer SOL or USDC to the multisig vault',
     requiresConfig: true,
     function: transferMain
+  },
+  {
+    id: 'create',
+    name: '🏗️  Create Multisig',
+    description: 'Create a new multisig with custom members, threshold, time lock and authorities',
+    requiresConfig: true,
+    function: createMain
+  },
+  {
+    id: 'wallets',
+    name: '👛 Manage Wallets',
+    description: 'List, generate, import, export, encrypt and assign roles to the named wallets in config.json',
+    requiresConfig: false,
+    function: walletsMain
+  },
+  {
+    id: 'program-config',
+    name: '🛠️  Program Config Admin',
+    description: 'View and manage the Squads program config on self-hosted deployments',
+    requiresConfig: true,
+    function: programConfigMain
+  },
+  {
+    id: 'sign-offline',
+    name: '📴 Sign Offline',
+    description: 'Sign an exported transaction on an air-gapped machine, without any RPC access',
+    requiresConfig: true,
+    function: signOfflineMain
+  },
+  {
+    id: 'submit',
+    name: '📤 Submit Signed Transaction',
+    description: 'Merge offline signatures and broadcast, or create a durable nonce account for offline signing',
+    requiresConfig: true,
+    function: submitMain
   }
 ];
 
@@ -140,8 +213,11 @@ async function runScript(script: ScriptOption) {
     await script.function();
     
   } catch (error) {
-    // Check if this is a simulation error
-    if (error && typeof error === 'object' && 'isSimulationError' in error && (error as any).isSimulationError) {
+    // Failed transactions carry the decoded program error and a hint
+    if (error instanceof TransactionFailedError) {
+      console.error(`\n❌ Error: ${formatTransactionFailure(error)}`);
+      console.log('⚠️  Continuing with CLI...');
+    } else if (error && typeof error === 'object' && 'isSimulationError' in error && (error as any).isSimulationError) {
       console.error(`\n❌ Error: ${error.message}`);
       console.log('⚠️  Continuing with CLI...');
     } else {
@@ -203,7 +279,7 @@ async function main() {
     while (true) {
       displayMenu();
       
-      const choice = await prompt('Select a command (0-8): ');
+      const choice = await prompt(`Select a command (0-${scripts.length}): `);
       const choiceNum = parseInt(choice);
       
       if (choiceNum === 0) {
@@ -10,11 +10,16 @@ import {
 } from './utils/squads/index';
 import { 
   address, 
-  getAddressFromPublicKey
+  getAddressFromPublicKey,
+  type Address
 } from '@solana/kit';
-import { loadMultisigAddressFromConfig } from './utils/config';
+import { loadMultisigAddressFromConfig, loadVaultLabelsFromConfig } from './utils/config';
 import { rpc } from './utils/rpc';
 import { checkSolBalance, checkUSDCBalance, formatSolBalance, formatUSDCBalance } from './utils/balance';
+import { formatVaultName, getVaultIndicesInUse } from './utils/vault';
+import { fetchMessageAccountKeys } from './utils/lookupTable';
+import { getExecutableAt, getClusterTime, describeExecutableAt } from './utils/timeLock';
+import { createDecodeContext, decodeInstructions, formatDecodedInstructions, getMessageLabels } from './utils/instructionDecoder';
 
 interface TransactionInfo {
   index: number;
@@ -32,7 +37,18 @@ interface TransactionInfo {
   rejectedVoters: string[];
   cancelledVoters: string[];
   isStale: boolean;
-  instructions?: any[];
+  // Human-readable summary of the message instructions
+  instructionSummary?: string;
+  // Message accounts with lookup table entries resolved, indexed like the instructions
+  accountKeys?: string[];
+  lookupTableCount?: number;
+}
+
+interface VaultHoldings {
+  vaultIndex: number;
+  vaultAddress: string;
+  solBalance: number;
+  usdcBalance: number;
 }
 
 interface MemberInfo {
@@ -64,18 +80,6 @@ function getStatusEmoji(status: string): string {
   }
 }
 
-function formatInstructions(instructions: any[]): string {
-  if (!instructions || instructions.length === 0) {
-    return 'No instructions';
-  }
-  
-  return instructions.map((ix, i) => {
-    const programId = ix.programId || 'Unknown';
-    const accounts = ix.accounts?.length || 0;
-    return `  ${i + 1}. Program: ${programId.slice(0, 8)}... (${accounts} accounts)`;
-  }).join('\n');
-}
-
 function getMemberRole(permissions: { mask: number }): MemberInfo {
   const mask = permissions.mask;
   const canPropose = (mask & 1) !== 0; // Bit 0: Propose permission
@@ -105,23 +109,24 @@ function getMemberRole(permissions: { mask: number }): MemberInfo {
   };
 }
 
-async function getVaultHoldings(multisigAddress: string): Promise<{ solBalance: number; usdcBalance: number; vaultAddress: string }> {
+async function getVaultHoldings(multisigAddress: string, vaultIndex: number): Promise<VaultHoldings> {
   try {
-    // Get the vault PDA (index 0)
-    const [vaultPda] = await getVaultPda(multisigAddress, 0);
+    const [vaultPda] = await getVaultPda(multisigAddress, vaultIndex);
     
     // Check SOL and USDC balances
     const solBalance = await checkSolBalance(address(vaultPda));
     const usdcBalance = await checkUSDCBalance(address(vaultPda));
     
     return {
+      vaultIndex,
       solBalance,
       usdcBalance,
       vaultAddress: vaultPda
     };
   } catch (error) {
-    console.error('Error fetching vault holdings:', error);
+    console.error(`Error fetching holdings of vault ${vaultIndex}:`, error);
     return {
+      vaultIndex,
       solBalance: 0,
       usdcBalance: 0,
       vaultAddress: 'Unknown'
@@ -171,6 +176,28 @@ async function fetchTransactionInfo(
       cancelledCount = cancelledVoters.length;
     }
     
+    // Accounts loaded from lookup tables are only known after fetching the tables
+    let accountKeys: string[] | undefined;
+    let instructionSummary: string | undefined;
+    if (vaultTransaction?.exists) {
+      const { message, vaultIndex, ephemeralSignerBumps } = vaultTransaction.data;
+      let resolvedKeys: Address[];
+      try {
+        resolvedKeys = await fetchMessageAccountKeys(message);
+      } catch (error) {
+        resolvedKeys = [...message.accountKeys];
+      }
+      accountKeys = resolvedKeys;
+
+      try {
+        const labels = await getMessageLabels(multisigAddress, vaultIndex, vaultTransactionPda, ephemeralSignerBumps.length);
+        const decoded = await decodeInstructions(message, resolvedKeys, createDecodeContext(labels));
+        instructionSummary = formatDecodedInstructions(decoded);
+      } catch (error) {
+        instructionSummary = `  ⚠️  Could not decode instructions: ${error instanceof Error ? error.message : error}`;
+      }
+    }
+    
     return {
       index: transactionIndex,
       vaultTransactionPda,
@@ -187,7 +214,9 @@ async function fetchTransactionInfo(
       rejectedVoters,
       cancelledVoters,
       isStale: false, // Will be set based on multisig data
-      instructions: vaultTransaction?.exists ? vaultTransaction.data.message?.instructions : undefined
+      instructionSummary,
+      accountKeys,
+      lookupTableCount: vaultTransaction?.exists ? vaultTransaction.data.message.addressTableLookups.length : undefined
     };
   } catch (error) {
     console.error(`Error fetching transaction ${transactionIndex}:`, error);
@@ -208,9 +237,15 @@ async function main() {
     // Show vault holdings prominently
     console.log('\n💰 VAULT HOLDINGS (Quick View)');
     console.log('===============================');
-    const vaultHoldings = await getVaultHoldings(multisigAddress);
-    console.log(`🏦 Vault: ${vaultHoldings.vaultAddress}`);
-    console.log(`💎 SOL: ${formatSolBalance(vaultHoldings.solBalance)} | 💵 USDC: ${formatUSDCBalance(vaultHoldings.usdcBalance)}`);
+    const vaultLabels = await loadVaultLabelsFromConfig();
+    const vaultIndices = await getVaultIndicesInUse(multisigAddress);
+    const vaultHoldings = await Promise.all(
+      vaultIndices.map(vaultIndex => getVaultHoldings(multisigAddress, vaultIndex))
+    );
+    vaultHoldings.forEach(vault => {
+      console.log(`🏦 ${formatVaultName(vault.vaultIndex, vaultLabels)}: ${vault.vaultAddress}`);
+      console.log(`   💎 SOL: ${formatSolBalance(vault.solBalance)} | 💵 USDC: ${formatUSDCBalance(vault.usdcBalance)}`);
+    });
     console.log('');
     
     // Fetch multisig account data
@@ -238,24 +273,28 @@ async function main() {
     // Display vault holdings
     console.log('\n💰 VAULT HOLDINGS');
     console.log('=================');
-    console.log(`🏦 Vault Address: ${vaultHoldings.vaultAddress}`);
-    console.log(`💎 SOL Balance: ${formatSolBalance(vaultHoldings.solBalance)}`);
-    console.log(`💵 USDC Balance: ${formatUSDCBalance(vaultHoldings.usdcBalance)}`);
-    
-    if (vaultHoldings.solBalance === 0 && vaultHoldings.usdcBalance === 0) {
-      console.log('⚠️  Vault is empty - no funds available for transactions');
-    } else {
-      console.log('✅ Vault has funds available for transactions');
+    
+    for (const vault of vaultHoldings) {
+      console.log(`\n🏦 ${formatVaultName(vault.vaultIndex, vaultLabels)}`);
+      console.log(`📍 Vault Address: ${vault.vaultAddress}`);
+      console.log(`💎 SOL Balance: ${formatSolBalance(vault.solBalance)}`);
+      console.log(`💵 USDC Balance: ${formatUSDCBalance(vault.usdcBalance)}`);
       
-      // Show what types of transactions are possible
-      if (vaultHoldings.solBalance >= 0.001) {
-        console.log(`   💎 SOL transfers possible (${formatSolBalance(vaultHoldings.solBalance)} available)`);
-      }
-      if (vaultHoldings.usdcBalance >= 0.01) {
-        console.log(`   💵 USDC transfers possible (${formatUSDCBalance(vaultHoldings.usdcBalance)} available)`);
-      }
-      if (vaultHoldings.solBalance < 0.001 && vaultHoldings.usdcBalance < 0.01) {
-        console.log('   ⚠️  Low balance - may not be sufficient for meaningful transfers');
+      if (vault.solBalance === 0 && vault.usdcBalance === 0) {
+        console.log('⚠️  Vault is empty - no funds available for transactions');
+      } else {
+        console.log('✅ Vault has funds available for transactions');
+        
+        // Show what types of transactions are possible
+        if (vault.solBalance >= 0.001) {
+          console.log(`   💎 SOL transfers possible (${formatSolBalance(vault.solBalance)} available)`);
+        }
+        if (vault.usdcBalance >= 0.01) {
+          console.log(`   💵 USDC transfers possible (${formatUSDCBalance(vault.usdcBalance)} available)`);
+        }
+        if (vault.solBalance < 0.001 && vault.usdcBalance < 0.01) {
+          console.log('   ⚠️  Low balance - may not be sufficient for meaningful transfers');
+        }
       }
     }
     
@@ -314,12 +353,17 @@ async function main() {
     
     console.log(`\n📋 Found ${transactions.length} transactions:\n`);
     
+    // Approved transactions only become executable once the time lock has passed
+    const clusterTime = await getClusterTime();
+    const timeLock = multisigAccount.data.timeLock;
+    
     // Display transactions
     transactions.forEach((tx, index) => {
       const staleIndicator = tx.isStale ? ' (STALE)' : '';
+      const draftIndicator = tx.status === 'Draft' && !tx.isStale ? ' (awaiting activation, voting closed)' : '';
       const statusEmoji = getStatusEmoji(tx.status);
       
-      console.log(`${index + 1}. Transaction #${tx.index} ${statusEmoji} ${tx.status}${staleIndicator}`);
+      console.log(`${index + 1}. Transaction #${tx.index} ${statusEmoji} ${tx.status}${draftIndicator}${staleIndicator}`);
       console.log(`   📍 Vault Transaction: ${tx.vaultTransactionPda}`);
       console.log(`   📍 Proposal: ${tx.proposalPda}`);
       
@@ -328,7 +372,7 @@ async function main() {
       }
       
       if (tx.vaultIndex !== undefined) {
-        console.log(`   🏦 Vault Index: ${tx.vaultIndex}`);
+        console.log(`   🏦 Vault: ${formatVaultName(tx.vaultIndex, vaultLabels)}`);
       }
       
       // Voting information
@@ -346,10 +390,14 @@ async function main() {
         console.log(`   🚫 Cancelled by: ${tx.cancelledVoters.map(v => v.slice(0, 8) + '...').join(', ')}`);
       }
       
+      if (tx.lookupTableCount && tx.accountKeys) {
+        console.log(`   🔎 Lookup Tables: ${tx.lookupTableCount} (${tx.accountKeys.length} accounts)`);
+      }
+      
       // Instructions
-      if (tx.instructions && tx.instructions.length > 0) {
+      if (tx.instructionSummary) {
         console.log(`   📝 Instructions:`);
-        console.log(formatInstructions(tx.instructions));
+        console.log(tx.instructionSummary);
       }
       
       // Timestamp if available
@@ -358,12 +406,24 @@ async function main() {
         console.log(`   ⏰ ${tx.status} at: ${timestamp}`);
       }
       
+      if (tx.proposal) {
+        const executableAt = getExecutableAt(tx.proposal, timeLock);
+        if (executableAt !== null) {
+          console.log(`   ⏳ ${describeExecutableAt(executableAt, clusterTime)}`);
+        }
+      }
+      
       console.log(''); // Empty line for readability
     });
     
     // Summary
+    const draftTransactions = transactions.filter(tx => tx.status === 'Draft' && !tx.isStale);
     const activeTransactions = transactions.filter(tx => tx.status === 'Active' && !tx.isStale);
     const approvedTransactions = transactions.filter(tx => tx.status === 'Approved' && !tx.isStale);
+    const timeLockedTransactions = approvedTransactions.filter(tx => {
+      const executableAt = tx.proposal ? getExecutableAt(tx.proposal, timeLock) : null;
+      return executableAt !== null && clusterTime < executableAt;
+    });
     const executedTransactions = transactions.filter(tx => tx.status === 'Executed');
     const rejectedTransactions = transactions.filter(tx => tx.status === 'Rejected');
     const cancelledTransactions = transactions.filter(tx => tx.status === 'Cancelled');
@@ -371,13 +431,18 @@ async function main() {
     
     console.log('📊 TRANSACTION SUMMARY');
     console.log('======================');
+    console.log(`   📝 Draft: ${draftTransactions.length}`);
     console.log(`   🟢 Active: ${activeTransactions.length}`);
-    console.log(`   ✅ Approved: ${approvedTransactions.length}`);
+    console.log(`   ✅ Approved: ${approvedTransactions.length}${timeLockedTransactions.length > 0 ? ` (${timeLockedTransactions.length} time locked)` : ''}`);
     console.log(`   🚀 Executed: ${executedTransactions.length}`);
     console.log(`   ❌ Rejected: ${rejectedTransactions.length}`);
     console.log(`   🚫 Cancelled: ${cancelledTransactions.length}`);
     console.log(`   🔄 Stale: ${staleTransactions.length}`);
     
+    if (draftTransactions.length > 0) {
+      console.log(`\n💡 Draft transactions must be activated before members can vote.`);
+    }
+    
     if (activeTransactions.length > 0) {
       console.log(`\n💡 Active transactions can be approved or executed.`);
     }
@@ -386,6 +451,10 @@ async function main() {
       console.log(`💡 Approved transactions are ready for execution.`);
     }
     
+    if (timeLockedTransactions.length > 0) {
+      console.log(`💡 Time locked transactions can be executed once their lock passes, or with execute --wait.`);
+    }
+    
     // Permission summary
     console.log('\n🔐 PERMISSION SUMMARY');
     console.log('=====================');
@@ -405,20 +474,25 @@ async function main() {
     // Vault summary
     console.log('\n💰 VAULT SUMMARY');
     console.log('================');
-    console.log(`🏦 Vault Address: ${vaultHoldings.vaultAddress}`);
-    console.log(`💎 SOL: ${formatSolBalance(vaultHoldings.solBalance)} | 💵 USDC: ${formatUSDCBalance(vaultHoldings.usdcBalance)}`);
+    vaultHoldings.forEach(vault => {
+      console.log(`🏦 ${formatVaultName(vault.vaultIndex, vaultLabels)}: ${formatSolBalance(vault.solBalance)} | ${formatUSDCBalance(vault.usdcBalance)}`);
+    });
+    
+    const totalSol = vaultHoldings.reduce((sum, vault) => sum + vault.solBalance, 0);
+    const totalUsdc = vaultHoldings.reduce((sum, vault) => sum + vault.usdcBalance, 0);
+    console.log(`💎 SOL: ${formatSolBalance(totalSol)} | 💵 USDC: ${formatUSDCBalance(totalUsdc)} across ${vaultHoldings.length} vault(s)`);
     
-    const totalValue = vaultHoldings.solBalance + (vaultHoldings.usdcBalance * 0.0001); // Rough estimate
+    const totalValue = totalSol + (totalUsdc * 0.0001); // Rough estimate
     console.log(`💎 Estimated Total Value: ~${totalValue.toFixed(4)} SOL equivalent`);
     
-    if (vaultHoldings.solBalance > 0) {
+    if (totalSol > 0) {
       console.log(`✅ SOL available for transfers and transaction fees`);
     }
-    if (vaultHoldings.usdcBalance > 0) {
+    if (totalUsdc > 0) {
       console.log(`✅ USDC available for transfers`);
     }
-    if (vaultHoldings.solBalance === 0 && vaultHoldings.usdcBalance === 0) {
-      console.log(`⚠️  No funds in vault - consider funding before creating transactions`);
+    if (totalSol === 0 && totalUsdc === 0) {
+      console.log(`⚠️  No funds in any vault - consider funding before creating transactions`);
     }
     
   } catch (error) {
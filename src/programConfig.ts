@@ -0,0 +1,266 @@
+import {
+  getProgramConfigInitInstruction,
+  getProgramConfigSetAuthorityInstruction,
+  getProgramConfigSetTreasuryInstruction,
+  getProgramConfigSetMultisigCreationFeeInstruction,
+} from './utils/squads/index';
+import {
+  address,
+  type Address,
+  type TransactionSigner,
+} from '@solana/kit';
+import { findWalletSigner, loadAllSignersFromConfig, loadSignerFromConfig } from './utils/config';
+import { prompt, promptWalletChoice } from './utils/prompt';
+import { signAndSendTransaction } from './utils/sign';
+import {
+  displayProgramConfig,
+  fetchProgramConfigEntry,
+  formatLamportsAsSol,
+  parseSolToLamports,
+  type ProgramConfigEntry,
+} from './utils/programConfig';
+
+async function initProgramConfig(
+  programConfig: Address,
+  initializer: TransactionSigner,
+  authority: Address,
+  multisigCreationFee: bigint,
+  treasury: Address
+): Promise<void> {
+  console.log('\n🛠️  Initializing program config...');
+
+  try {
+    const instruction = getProgramConfigInitInstruction({
+      programConfig,
+      initializer,
+      authority,
+      multisigCreationFee,
+      treasury,
+    });
+
+    console.log(`👤 Authority: ${authority}`);
+    console.log(`💰 Multisig Creation Fee: ${formatLamportsAsSol(multisigCreationFee)}`);
+    console.log(`🏦 Treasury: ${treasury}`);
+
+    const signature = await signAndSendTransaction(
+      [instruction],
+      initializer
+    );
+
+    console.log('✅ Program config initialized successfully!');
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+
+  } catch (error) {
+    console.error('❌ Error initializing program config:', error);
+    throw error;
+  }
+}
+
+async function setProgramConfigAuthority(
+  programConfig: Address,
+  authority: TransactionSigner,
+  newAuthority: Address
+): Promise<void> {
+  console.log('\n👤 Setting program config authority...');
+
+  try {
+    const instruction = getProgramConfigSetAuthorityInstruction({
+      programConfig,
+      authority,
+      newAuthority,
+    });
+
+    console.log(`📋 New authority: ${newAuthority}`);
+
+    const signature = await signAndSendTransaction(
+      [instruction],
+      authority
+    );
+
+    console.log('✅ Program config authority updated successfully!');
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+
+  } catch (error) {
+    console.error('❌ Error setting program config authority:', error);
+    throw error;
+  }
+}
+
+async function setProgramConfigTreasury(
+  programConfig: Address,
+  authority: TransactionSigner,
+  newTreasury: Address
+): Promise<void> {
+  console.log('\n🏦 Setting program config treasury...');
+
+  try {
+    const instruction = getProgramConfigSetTreasuryInstruction({
+      programConfig,
+      authority,
+      newTreasury,
+    });
+
+    console.log(`📋 New treasury: ${newTreasury}`);
+
+    const signature = await signAndSendTransaction(
+      [instruction],
+      authority
+    );
+
+    console.log('✅ Program config treasury updated successfully!');
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+
+  } catch (error) {
+    console.error('❌ Error setting program config treasury:', error);
+    throw error;
+  }
+}
+
+async function setProgramConfigMultisigCreationFee(
+  programConfig: Address,
+  authority: TransactionSigner,
+  newMultisigCreationFee: bigint
+): Promise<void> {
+  console.log('\n💰 Setting multisig creation fee...');
+
+  try {
+    const instruction = getProgramConfigSetMultisigCreationFeeInstruction({
+      programConfig,
+      authority,
+      newMultisigCreationFee,
+    });
+
+    console.log(`📋 New fee: ${formatLamportsAsSol(newMultisigCreationFee)}`);
+
+    const signature = await signAndSendTransaction(
+      [instruction],
+      authority
+    );
+
+    console.log('✅ Multisig creation fee updated successfully!');
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+
+  } catch (error) {
+    console.error('❌ Error setting multisig creation fee:', error);
+    throw error;
+  }
+}
+
+/**
+ * Loads the local wallet matching the program config authority, which must sign every update
+ */
+async function loadProgramConfigAuthority(entry: ProgramConfigEntry): Promise<TransactionSigner> {
+  if (!entry.data) {
+    throw new Error('Program config is not initialized. Initialize it first.');
+  }
+
+  const wallet = await findWalletSigner(entry.data.authority);
+  if (!wallet) {
+    throw new Error(`Program config authority ${entry.data.authority} is not one of the wallets in config.json`);
+  }
+
+  console.log(`👤 Signing as ${wallet.name} (program config authority)`);
+  return wallet.signer;
+}
+
+async function promptAddress(question: string, defaultAddress?: Address): Promise<Address> {
+  const input = await prompt(defaultAddress ? `${question} (default: ${defaultAddress}): ` : `${question}: `);
+  if (input === '' && defaultAddress) {
+    return defaultAddress;
+  }
+  return address(input);
+}
+
+async function main() {
+  try {
+    console.log('🛠️  Squads Program Config Admin');
+    console.log('===============================\n');
+    console.log('ℹ️  Only needed for self-hosted deployments (localnet, forks) of the Squads program');
+
+    console.log('✅ Loading signers from config...');
+    await loadAllSignersFromConfig();
+
+    while (true) {
+      const entry = await fetchProgramConfigEntry();
+      displayProgramConfig(entry);
+
+      console.log('\n🔧 Program Config Instructions:');
+      console.log('1. Init - Initialize the program config');
+      console.log('2. SetAuthority - Transfer the program config authority');
+      console.log('3. SetTreasury - Set the treasury receiving creation fees');
+      console.log('4. SetMultisigCreationFee - Set the fee charged for creating a multisig');
+      console.log('0. Exit - Exit the program config tool');
+
+      const choice = await prompt('\nSelect an action (0-4): ');
+
+      try {
+        switch (choice) {
+          case '1': {
+            if (entry.data) {
+              console.log('⚠️  Program config is already initialized');
+              break;
+            }
+
+            console.log('ℹ️  The program only accepts the initializer key it was built with');
+            const walletName = await promptWalletChoice('Select the initializer wallet');
+            const initializer = await loadSignerFromConfig(walletName);
+            const initializerAddress = initializer.address;
+
+            const authority = await promptAddress('Enter authority address', initializerAddress);
+            const fee = parseSolToLamports(await prompt('Enter multisig creation fee in SOL (e.g. 0): '));
+            const treasury = await promptAddress('Enter treasury address', initializerAddress);
+
+            await initProgramConfig(entry.address, initializer, authority, fee, treasury);
+            break;
+          }
+
+          case '2': {
+            const authority = await loadProgramConfigAuthority(entry);
+            const newAuthority = await promptAddress('Enter new authority address');
+            await setProgramConfigAuthority(entry.address, authority, newAuthority);
+            break;
+          }
+
+          case '3': {
+            const authority = await loadProgramConfigAuthority(entry);
+            const newTreasury = await promptAddress('Enter new treasury address');
+            await setProgramConfigTreasury(entry.address, authority, newTreasury);
+            break;
+          }
+
+          case '4': {
+            const authority = await loadProgramConfigAuthority(entry);
+            const fee = parseSolToLamports(await prompt('Enter new multisig creation fee in SOL: '));
+            await setProgramConfigMultisigCreationFee(entry.address, authority, fee);
+            break;
+          }
+
+          case '0': {
+            console.log('\n👋 Exiting program config tool...');
+            return;
+          }
+
+          default:
+            console.log('❌ Invalid choice. Please select 0-4.');
+        }
+      } catch (error) {
+        // Keep the admin tool open when an action is rejected or fails
+        console.error(`❌ ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+  } catch (error) {
+    console.error('❌ Error:', error);
+    if (error && typeof error === 'object' && 'logs' in error) {
+      console.error('Transaction logs:', (error as any).logs);
+    }
+    process.exit(1);
+  }
+}
+
+export { main };
+
+// Run the script
+if (import.meta.main) {
+  main();
+}
@@ -1,46 +1,212 @@
 import { sleep } from 'bun';
-import * as multisig from '@sqds/multisig';
 import {
-    getAddressFromPublicKey,
     address,
+    createNoopSigner,
+    fetchEncodedAccount,
+    type Address,
     type Instruction,
-    createSignerFromKeyPair
+    type TransactionSigner
 } from '@solana/kit';
-import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
-import { fromLegacyTransactionInstruction } from '@solana/compat';
+import { SYSTEM_PROGRAM_ADDRESS, getCreateAccountInstruction, getTransferSolInstruction } from '@solana-program/system';
+import {
+    findAssociatedTokenPda,
+    getCreateAssociatedTokenIdempotentInstruction,
+    getInitializeMint2Instruction,
+    getMintSize,
+    getTransferInstruction,
+    TOKEN_PROGRAM_ADDRESS
+} from '@solana-program/token';
 import { 
     getVaultPda,
     getProposalPda,
+    getTransactionPda,
     fetchMultisig,
     getProposalCreateInstruction,
+    getVaultTransactionCreateInstruction,
 } from './utils/squads/index';
-import { 
-    PublicKey,
-    SystemProgram,
-    LAMPORTS_PER_SOL,
-    TransactionMessage
-} from '@solana/web3.js';
-import { 
-    createAssociatedTokenAccountInstruction,
-    createTransferInstruction,
-    getAssociatedTokenAddress,
-    TOKEN_PROGRAM_ID,
-    ASSOCIATED_TOKEN_PROGRAM_ID
-} from '@solana/spl-token';
-import { loadWalletFromConfig, loadAllSignersFromConfig } from './utils/config';
+import { loadSignerFromConfig, loadAllSignersFromConfig } from './utils/config';
 import { loadMultisigAddressFromConfig } from './utils/config';
 import { signAndSendTransaction } from './utils/sign';
-import { prompt } from './utils/prompt';
-import { USDC_MINT_DEVNET as USDC_MINT } from './utils/constants';
-import { solanaConnection, rpc } from './utils/rpc';
+import { fitsInSingleTransaction, createVaultTransactionFromBuffer } from './utils/transactionBuffer';
+import { prompt, promptWalletChoice, promptYesNo } from './utils/prompt';
+import { USDC_MINT_DEVNET as USDC_MINT, LAMPORTS_PER_SOL } from './utils/constants';
+import { rpc } from './utils/rpc';
 import { checkSolBalance, checkUSDCBalance } from './utils/balance';
+import { DEFAULT_VAULT_INDEX, promptVaultIndex } from './utils/vault';
+import { getEphemeralSignerPdas, displayEphemeralSigners } from './utils/ephemeralSigner';
+import { fetchLookupTables, promptLookupTables } from './utils/lookupTable';
+import { compileVaultTransactionMessageBytes } from './utils/transactionMessage';
+
+/**
+ * Creates the vault transaction and its proposal for the given instructions
+ * Instructions that need ephemeral signers must use the PDAs from getEphemeralSignerPdas
+ * for the same transaction index, the program signs for them during execution
+ */
+async function createVaultProposal(
+  multisigPda: string,
+  transactionIndex: bigint,
+  instructions: Instruction[],
+  proposer: TransactionSigner,
+  memo: string,
+  draft: boolean = false,
+  vaultIndex: number = DEFAULT_VAULT_INDEX,
+  ephemeralSigners: number = 0,
+  lookupTableAddresses: Address[] = []
+): Promise<{ proposalPda: string; proposalTxSignature: string }> {
+  const proposerAddress = proposer.address;
+  const [vaultPda] = await getVaultPda(multisigPda, vaultIndex);
+  const [transactionPda] = await getTransactionPda(multisigPda, transactionIndex);
+
+  // Accounts found in the lookup tables are compiled as table indexes instead of full keys
+  const lookupTables = await fetchLookupTables(lookupTableAddresses);
+  const transactionMessage = compileVaultTransactionMessageBytes(instructions, address(vaultPda), lookupTables);
+
+  const vaultInstruction = getVaultTransactionCreateInstruction({
+    multisig: address(multisigPda),
+    transaction: address(transactionPda),
+    creator: proposer,
+    rentPayer: proposer,
+    systemProgram: SYSTEM_PROGRAM_ADDRESS,
+    args: {
+      vaultIndex,
+      ephemeralSigners,
+      transactionMessage,
+      memo,
+    },
+  });
+
+  if (fitsInSingleTransaction([vaultInstruction], proposerAddress)) {
+    console.log('📤 Creating vault transaction...');
+
+    // Send and confirm transaction using proposer
+    const vaultTxSignature = await signAndSendTransaction(
+      [vaultInstruction],
+      proposer
+    );
+
+    console.log(`✅ Vault transaction created: ${vaultTxSignature}`);
+  } else {
+    // Too large to inline, upload the message through a transaction buffer instead
+    console.log('📦 Vault transaction exceeds the transaction size limit, using a transaction buffer');
+    await createVaultTransactionFromBuffer(proposer, multisigPda, transactionIndex, transactionMessage, vaultIndex, ephemeralSigners, memo);
+  }
+
+  // Create proposal instruction using Codama generated instructions
+  const [proposalPda] = await getProposalPda(multisigPda, transactionIndex);
+  const createProposalIx = getProposalCreateInstruction({
+    multisig: address(multisigPda),
+    proposal: address(proposalPda),
+    creator: proposer,
+    rentPayer: proposer,
+    systemProgram: SYSTEM_PROGRAM_ADDRESS,
+    transactionIndex,
+    draft, // Draft proposals stay closed for voting until activated
+  });
+
+  console.log(`📤 Creating ${draft ? 'draft ' : ''}proposal...`);
+
+  // Send and confirm transaction using proposer
+  const proposalTxSignature = await signAndSendTransaction(
+    [createProposalIx],
+    proposer
+  );
+
+  console.log(`✅ Proposal created: ${proposalTxSignature}`);
+
+  return { proposalPda, proposalTxSignature };
+}
+
+/**
+ * Proposes creating a new SPL token mint with the vault as mint authority
+ * The mint account is ephemeral signer #0 of the vault transaction and is funded by the vault
+ */
+async function proposeCreateMint(
+  multisigPda: string,
+  decimals: number,
+  withFreezeAuthority: boolean,
+  proposer: TransactionSigner,
+  draft: boolean = false,
+  vaultIndex: number = DEFAULT_VAULT_INDEX,
+  lookupTableAddresses: Address[] = []
+): Promise<string> {
+  console.log('\n🪙 Creating mint proposal...');
+
+  try {
+    const multisigAccount = await fetchMultisig(rpc, address(multisigPda));
+    const newTransactionIndex = multisigAccount.data.transactionIndex + 1n;
+    console.log(`📊 New Transaction Index: ${newTransactionIndex}`);
+
+    const [vaultPda] = await getVaultPda(multisigPda, vaultIndex);
+    // The program signs for the vault and ephemeral signers at execution, noop signers stand in for them here
+    const vault = createNoopSigner(address(vaultPda));
+
+    // The mint address is only known once the transaction index is fixed
+    const ephemeralSignerPdas = await getEphemeralSignerPdas(multisigPda, newTransactionIndex, 1);
+    const mint = createNoopSigner(address(ephemeralSignerPdas[0]!));
+    const space = getMintSize();
+    const lamports = await rpc.getMinimumBalanceForRentExemption(BigInt(space)).send();
+
+    const instructions: Instruction[] = [
+      getCreateAccountInstruction({
+        payer: vault,
+        newAccount: mint,
+        lamports,
+        space,
+        programAddress: TOKEN_PROGRAM_ADDRESS,
+      }),
+      getInitializeMint2Instruction({
+        mint: mint.address,
+        decimals,
+        mintAuthority: vault.address,
+        freezeAuthority: withFreezeAuthority ? vault.address : null,
+      }),
+    ];
+
+    console.log('📋 Mint instructions created');
+    console.log(`  Mint: ${mint.address}`);
+    console.log(`  Decimals: ${decimals}`);
+    console.log(`  Mint Authority: ${vaultPda}`);
+    console.log(`  Freeze Authority: ${withFreezeAuthority ? vaultPda : 'None'}`);
+    console.log(`  Rent: ${Number(lamports) / LAMPORTS_PER_SOL} SOL paid by the vault`);
+    displayEphemeralSigners(ephemeralSignerPdas);
+
+    const { proposalPda, proposalTxSignature } = await createVaultProposal(
+      multisigPda,
+      newTransactionIndex,
+      instructions,
+      proposer,
+      `Create mint ${mint.address} with ${decimals} decimals`,
+      draft,
+      vaultIndex,
+      ephemeralSignerPdas.length,
+      lookupTableAddresses
+    );
+
+    console.log(`\n🎉 Mint proposal created successfully!`);
+    console.log(`🔗 View on Solana Explorer: https://explorer.solana.com/tx/${proposalTxSignature}?cluster=devnet`);
+    console.log(`🪙 Proposed Mint: ${mint.address}`);
+    console.log(`📋 Transaction Index: ${newTransactionIndex}`);
+    console.log(`📋 Proposal PDA: ${proposalPda}`);
+
+    return mint.address;
+  } catch (error) {
+    console.error('❌ Error creating mint proposal:', error);
+    if (error && typeof error === 'object' && 'logs' in error) {
+      console.error('Transaction logs:', (error as any).logs);
+    }
+    throw error;
+  }
+}
 
 async function proposePaymentTransaction(
   multisigPda: string,
   recipientAddress: string,
   amount: number,
   paymentType: 'SOL' | 'USDC',
-  proposer: CryptoKeyPair
+  proposer: TransactionSigner,
+  draft: boolean = false,
+  vaultIndex: number = DEFAULT_VAULT_INDEX,
+  lookupTableAddresses: Address[] = []
 ): Promise<void> {
   console.log('\n💸 Creating payment proposal...');
   
@@ -57,25 +223,24 @@ async function proposePaymentTransaction(
     console.log(`📊 New Transaction Index: ${newTransactionIndex}`);
     
     // Get the vault PDA for the multisig
-    const [vaultPda] = await getVaultPda(multisigPda, 0);
+    const [vaultPda] = await getVaultPda(multisigPda, vaultIndex);
     
-    console.log(`💰 Treasury PDA: ${vaultPda}`);
+    console.log(`💰 Treasury PDA: ${vaultPda} (vault #${vaultIndex})`);
     
-    let transferInstruction: any;
+    // The program signs for the vault at execution, a noop signer stands in for it here
+    const vault = createNoopSigner(address(vaultPda));
     let transferAmount: bigint;
-    let instructions: any[] = [];
+    const instructions: Instruction[] = [];
     
     if (paymentType === 'SOL') {
       // Create SOL transfer instruction
-      transferAmount = BigInt(amount * LAMPORTS_PER_SOL); // Convert to lamports
+      transferAmount = BigInt(Math.round(amount * LAMPORTS_PER_SOL)); // Convert to lamports
       
-      transferInstruction = SystemProgram.transfer({
-        fromPubkey: new PublicKey(vaultPda),
-        toPubkey: new PublicKey(recipientAddress),
-        lamports: transferAmount,
-      });
-      
-      instructions = [transferInstruction];
+      instructions.push(getTransferSolInstruction({
+        source: vault,
+        destination: address(recipientAddress),
+        amount: transferAmount,
+      }));
       
       console.log('📋 SOL transfer instruction created');
       console.log(`  From: ${vaultPda}`);
@@ -83,66 +248,48 @@ async function proposePaymentTransaction(
       console.log(`  Amount: ${transferAmount.toString()} lamports (${amount} SOL)`);
     } else {
       // Create USDC transfer instruction
-      transferAmount = BigInt(amount * Math.pow(10, 6)); // Convert to raw USDC amount (6 decimals)
+      transferAmount = BigInt(Math.round(amount * Math.pow(10, 6))); // Convert to raw USDC amount (6 decimals)
       
       // Get associated token addresses
-      const vaultTokenAccount = await getAssociatedTokenAddress(
-        new PublicKey(USDC_MINT),
-        new PublicKey(vaultPda),
-        true // allowOwnerOffCurve for PDA
-      );
+      const [vaultTokenAccount] = await findAssociatedTokenPda({
+        mint: address(USDC_MINT),
+        owner: vault.address,
+        tokenProgram: TOKEN_PROGRAM_ADDRESS,
+      });
       
-      const recipientTokenAccount = await getAssociatedTokenAddress(
-        new PublicKey(USDC_MINT),
-        new PublicKey(recipientAddress)
-      );
+      const [recipientTokenAccount] = await findAssociatedTokenPda({
+        mint: address(USDC_MINT),
+        owner: address(recipientAddress),
+        tokenProgram: TOKEN_PROGRAM_ADDRESS,
+      });
       
       // Check if recipient token account exists
-      try {
-        const accountInfo = await solanaConnection.getAccountInfo(recipientTokenAccount);
-        if (accountInfo) {
-          console.log('✅ Recipient token account already exists');
-        } else {
-          console.log('📋 Recipient token account does not exist, will create it');
-          // Create the associated token account instruction
-          const createTokenAccountInstruction = createAssociatedTokenAccountInstruction(
-            new PublicKey(vaultPda), // payer (the vault will pay for the account creation)
-            recipientTokenAccount, // associated token account address
-            new PublicKey(recipientAddress), // owner
-            new PublicKey(USDC_MINT), // mint
-            TOKEN_PROGRAM_ID,
-            ASSOCIATED_TOKEN_PROGRAM_ID
-          );
-          instructions.push(createTokenAccountInstruction);
-        }
-      } catch (error) {
+      const recipientAccount = await fetchEncodedAccount(rpc, recipientTokenAccount);
+      if (recipientAccount.exists) {
+        console.log('✅ Recipient token account already exists');
+      } else {
         console.log('📋 Recipient token account does not exist, will create it');
-        // Create the associated token account instruction
-        const createTokenAccountInstruction = createAssociatedTokenAccountInstruction(
-          new PublicKey(vaultPda), // payer (the vault will pay for the account creation)
-          recipientTokenAccount, // associated token account address
-          new PublicKey(recipientAddress), // owner
-          new PublicKey(USDC_MINT), // mint
-          TOKEN_PROGRAM_ID,
-          ASSOCIATED_TOKEN_PROGRAM_ID
-        );
-        instructions.push(createTokenAccountInstruction);
+        // The vault pays for the account creation
+        instructions.push(getCreateAssociatedTokenIdempotentInstruction({
+          payer: vault,
+          ata: recipientTokenAccount,
+          owner: address(recipientAddress),
+          mint: address(USDC_MINT),
+          tokenProgram: TOKEN_PROGRAM_ADDRESS,
+        }));
       }
       
-      // Create transfer instruction
-      const transferInstruction = createTransferInstruction(
-        vaultTokenAccount,
-        recipientTokenAccount,
-        new PublicKey(vaultPda), // The vault PDA will be the authority
-        transferAmount,
-        [],
-        TOKEN_PROGRAM_ID
-      );
-      instructions.push(transferInstruction);
+      // Create transfer instruction, the vault PDA is the authority
+      instructions.push(getTransferInstruction({
+        source: vaultTokenAccount,
+        destination: recipientTokenAccount,
+        authority: vault,
+        amount: transferAmount,
+      }));
       
       console.log('📋 USDC transfer instructions created');
-      console.log(`  From: ${vaultTokenAccount.toString()}`);
-      console.log(`  To: ${recipientTokenAccount.toString()}`);
+      console.log(`  From: ${vaultTokenAccount}`);
+      console.log(`  To: ${recipientTokenAccount}`);
       console.log(`  Amount: ${transferAmount.toString()} raw USDC (${amount} USDC)`);
       console.log(`  Instructions: ${instructions.length} (${instructions.length === 1 ? 'transfer only' : 'create account + transfer'})`);
       if (instructions.length > 1) {
@@ -150,60 +297,19 @@ async function proposePaymentTransaction(
       }
     }
     
-    const proposerAddress = await getAddressFromPublicKey(proposer.publicKey);
-    
-    // Create the vault transaction using Squads SDK
-    const vaultTransaction = multisig.instructions.vaultTransactionCreate({
-      multisigPda: new PublicKey(multisigPda),
-      transactionIndex: newTransactionIndex,
-      creator: new PublicKey(proposerAddress),
-      vaultIndex: 0,
-      ephemeralSigners: 0,
-      transactionMessage: new TransactionMessage({
-        payerKey: new PublicKey(proposerAddress),
-        recentBlockhash: (await solanaConnection.getLatestBlockhash()).blockhash,
-        instructions: instructions,
-      }),
-      memo: `Payment of ${amount} ${paymentType} to ${recipientAddress}`,
-    });
-    
-    console.log('📤 Creating vault transaction...');
-    
-    // Convert the Squads SDK instruction to @solana/kit format
-    const vaultInstruction = fromLegacyTransactionInstruction(vaultTransaction);
-    
-    // Send and confirm transaction using proposer
-    const vaultTxSignature = await signAndSendTransaction(
-      [vaultInstruction as Instruction<string>],
-      [proposer],
-      proposerAddress
-    );
-    
-    console.log(`✅ Vault transaction created: ${vaultTxSignature}`);
-    
-    // Create proposal instruction using Codama generated instructions
-    const [proposalPda] = await getProposalPda(multisigPda, newTransactionIndex);
-    const createProposalIx = getProposalCreateInstruction({
-      multisig: address(multisigPda),
-      proposal: address(proposalPda),
-      creator: await createSignerFromKeyPair(proposer),
-      rentPayer: await createSignerFromKeyPair(proposer),
-      systemProgram: SYSTEM_PROGRAM_ADDRESS,
-      transactionIndex: newTransactionIndex,
-      draft: false, // This ensures the proposal is active and ready for voting
-    });
-    
-    console.log('📤 Creating proposal...');
-        
-    // Send and confirm transaction using proposer
-    const proposalTxSignature = await signAndSendTransaction(
-      [createProposalIx],
-      [proposer],
-      proposerAddress
+    const memo = `Payment of ${amount} ${paymentType} to ${recipientAddress}`;
+    const { proposalPda, proposalTxSignature } = await createVaultProposal(
+      multisigPda,
+      newTransactionIndex,
+      instructions,
+      proposer,
+      memo,
+      draft,
+      vaultIndex,
+      0,
+      lookupTableAddresses
     );
     
-    console.log(`✅ Proposal created: ${proposalTxSignature}`);
-    
     // Get the proposal PDA    
     await sleep(2000); // Wait a bit longer for account initialization
     
@@ -213,9 +319,15 @@ async function proposePaymentTransaction(
     console.log(`📋 Transaction Index: ${newTransactionIndex}`);
     console.log(`📋 Proposal PDA: ${proposalPda}`);
     console.log(`\n📋 Next steps:`);
-    console.log(`   1. Members need to vote on this proposal to execute the payment`);
-    console.log(`   2. Once approved, the payment will be executed automatically`);
-    console.log(`   3. Check proposal status using the transaction index: ${newTransactionIndex}`);
+    if (draft) {
+      console.log(`   1. Teammates can review the draft in the information dashboard`);
+      console.log(`   2. Run the activate command to open the proposal for voting`);
+      console.log(`   3. Members then vote on it to execute the payment`);
+    } else {
+      console.log(`   1. Members need to vote on this proposal to execute the payment`);
+      console.log(`   2. Once approved, the payment will be executed automatically`);
+      console.log(`   3. Check proposal status using the transaction index: ${newTransactionIndex}`);
+    }
     
   } catch (error) {
     console.error('❌ Error creating payment proposal:', error);
@@ -226,6 +338,34 @@ async function proposePaymentTransaction(
   }
 }
 
+async function promptCreateMintProposal(multisigAddress: string, proposer: TransactionSigner): Promise<void> {
+  console.log('\n🪙 Mint Details');
+  const decimalsInput = await prompt('Enter token decimals (0-9, default 6): ');
+  const decimals = decimalsInput.trim() ? parseInt(decimalsInput) : 6;
+  if (isNaN(decimals) || decimals < 0 || decimals > 9) {
+    console.log('❌ Invalid decimals. Please enter a number between 0 and 9.');
+    throw new Error('Invalid decimals');
+  }
+
+  const withFreezeAuthority = await promptYesNo('🧊 Make the vault the freeze authority too?');
+
+  // The vault pays the mint account rent
+  const vaultIndex = await promptVaultIndex('create the mint from');
+  const [vaultPda] = await getVaultPda(multisigAddress, vaultIndex);
+  const vaultSolBalance = await checkSolBalance(address(vaultPda));
+  console.log(`🏛️  ${vaultPda.slice(0, 8)}...: ${vaultSolBalance.toFixed(4)} SOL`);
+
+  const lookupTableAddresses = await promptLookupTables();
+  const draft = await promptYesNo('\n📝 Create as a draft for review before voting?');
+  console.log('🚀 Proceeding with mint proposal...');
+
+  await proposeCreateMint(multisigAddress, decimals, withFreezeAuthority, proposer, draft, vaultIndex, lookupTableAddresses);
+
+  console.log('\n📋 Next steps:');
+  console.log('   1. Members vote on the proposal, then execute it to create the mint');
+  console.log('   2. Mint tokens with further proposals signed by the vault');
+}
+
 async function main() {
   try {
     console.log('💸 Squads Payment Proposal Tool');
@@ -240,9 +380,10 @@ async function main() {
     const multisigAddress = await loadMultisigAddressFromConfig();
     console.log(`🏛️  Multisig Address: ${multisigAddress}`);
 
-    // Load the manager wallet for proposing
-    const proposer = await loadWalletFromConfig('manager');
-    const proposerAddress = await getAddressFromPublicKey(proposer.publicKey);
+    // Load the proposer's wallet, any member with the initiate permission
+    const proposerName = await promptWalletChoice('\n👥 Select member to create the proposal', 'proposer');
+    const proposer = await loadSignerFromConfig(proposerName);
+    const proposerAddress = proposer.address;
     console.log(`👤 Proposer Address: ${proposerAddress}`);
         
     const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
@@ -250,6 +391,21 @@ async function main() {
     console.log(`🗳️  Threshold: ${multisigAccount.data.threshold}`);
     console.log(`📊 Transaction Index: ${multisigAccount.data.transactionIndex}`);
     
+    // Choose proposal type
+    console.log('\n📋 Proposal Type');
+    console.log('1. Payment (SOL or USDC)');
+    console.log('2. Create SPL token mint with the vault as mint authority');
+    const proposalTypeInput = await prompt('Choose proposal type (1-2, default 1): ');
+    if (proposalTypeInput === '2') {
+      await promptCreateMintProposal(multisigAddress, proposer);
+      console.log('\n🎉 Mint proposal completed successfully!');
+      return;
+    }
+    if (proposalTypeInput && proposalTypeInput !== '1') {
+      console.log('❌ Invalid choice. Please select 1 or 2.');
+      throw new Error('Invalid proposal type choice');
+    }
+    
     // Get payment details
     console.log('\n💸 Payment Details');
     const recipientInput = await prompt('Enter recipient wallet address: ');
@@ -275,7 +431,8 @@ async function main() {
     }
     
     // Get vault address and display vault balances before prompting for amount
-    const [vaultPda] = await getVaultPda(multisigAddress, 0);
+    const vaultIndex = await promptVaultIndex('pay from');
+    const [vaultPda] = await getVaultPda(multisigAddress, vaultIndex);
     console.log('\n💰 Multisig Vault Balances:');
     const vaultSolBalance = await checkSolBalance(address(vaultPda));
     const vaultUsdcBalance = await checkUSDCBalance(address(vaultPda));
@@ -291,16 +448,27 @@ async function main() {
     // Display payment proposal summary
     console.log('\n📋 Payment Proposal Summary:');
     console.log(`🏛️  Multisig: ${multisigAddress}`);
+    console.log(`🏦 Vault Index: ${vaultIndex}`);
     console.log(`👥 Recipient: ${recipientInput}`);
     console.log(`💵 Amount: ${amount} ${paymentType}`);
     console.log(`🗳️  Required Votes: ${multisigAccount.data.threshold}`);
+    
+    // Lookup tables let proposals reference more accounts than a plain message holds
+    const lookupTableAddresses = await promptLookupTables();
+    
+    // Draft proposals can be reviewed before voting opens
+    const draft = await promptYesNo('\n📝 Create as a draft for review before voting?');
     console.log('🚀 Proceeding with payment proposal...');
     
     // Create the payment proposal
-    await proposePaymentTransaction(multisigAddress, recipientInput, amount, paymentType, proposer);    
+    await proposePaymentTransaction(multisigAddress, recipientInput, amount, paymentType, proposer, draft, vaultIndex, lookupTableAddresses);    
     
     console.log('\n🎉 Payment proposal completed successfully!');
-    console.log('📋 The proposal is now pending approval from multisig members.');
+    if (draft) {
+      console.log('📋 The proposal is a draft and must be activated before members can vote.');
+    } else {
+      console.log('📋 The proposal is now pending approval from multisig members.');
+    }
     
   } catch (error) {
     console.error('❌ Error:', error);
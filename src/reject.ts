@@ -6,16 +6,14 @@ import {
 } from './utils/squads/index';
 import { 
   address,
-  createSignerFromKeyPair,
-  getAddressFromPublicKey,
-  type Address
+  type Address,
 } from '@solana/kit';
-import { loadWalletFromConfig, loadAllSignersFromConfig } from './utils/config';
+import { loadSignerFromConfig, loadAllSignersFromConfig } from './utils/config';
 import { loadMultisigAddressFromConfig } from './utils/config';
 import { signAndSendTransaction } from './utils/sign';
 import { sleep } from 'bun';
 import { rpc } from './utils/rpc';
-import { prompt } from './utils/prompt';
+import { prompt, promptWalletChoice } from './utils/prompt';
 
 async function getActiveProposals(multisigAddress: string) {
   const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
@@ -50,24 +48,6 @@ async function getActiveProposals(multisigAddress: string) {
   return activeProposals;
 }
 
-async function selectMember(): Promise<'voter1' | 'voter2' | 'manager'> {
-  const members = ['voter1', 'voter2', 'manager'];
-  
-  console.log('\n👥 Available Members:');
-  members.forEach((member, index) => {
-    console.log(`   ${index + 1}. ${member}`);
-  });
-  
-  const choice = await prompt('\nSelect member to sign the rejection (1-3): ');
-  const memberIndex = parseInt(choice || '0') - 1;
-  
-  if (memberIndex < 0 || memberIndex >= members.length) {
-    throw new Error('Invalid member selection');
-  }
-  
-  return members[memberIndex] as 'voter1' | 'voter2' | 'manager';
-}
-
 async function selectProposal(proposals: any[]): Promise<any> {
   if (proposals.length === 0) {
     return null;
@@ -123,13 +103,13 @@ async function main() {
     }
     
     // Select member to sign
-    const selectedMember = await selectMember();
+    const selectedMember = await promptWalletChoice('\n👥 Select member to sign the rejection', 'voter');
     console.log(`\n✅ Selected member: ${selectedMember}`);
     
     // Load the selected member's wallet
     console.log('✅ Loading wallet for signing...');
-    const rejector = await loadWalletFromConfig(selectedMember);
-    const rejectorAddress = await getAddressFromPublicKey(rejector.publicKey);
+    const rejector = await loadSignerFromConfig(selectedMember);
+    const rejectorAddress = rejector.address;
     console.log(`👤 Rejector Address: ${rejectorAddress}`);
     
     // Confirm rejection
@@ -146,7 +126,7 @@ async function main() {
       const rejectInstruction = getProposalRejectInstruction({
         multisig: address(multisigAddress),
         proposal: address(selectedProposal.pda),
-        member: await createSignerFromKeyPair(rejector),
+        member: rejector,
         args: {
           memo: `Rejected by ${selectedMember}`,
         },
@@ -157,8 +137,7 @@ async function main() {
       // Send and confirm transaction using rejector
       const signature = await signAndSendTransaction(
         [rejectInstruction],
-        [rejector],
-        rejectorAddress
+        rejector
       );
       
       console.log(`✅ Proposal #${selectedProposal.index} rejected successfully!`);
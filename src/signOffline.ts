@@ -0,0 +1,58 @@
+import { type TransactionPartialSigner } from '@solana/kit';
+import { listSigners, loadSignerFromConfig } from './utils/config';
+import { prompt, promptYesNo } from './utils/prompt';
+import {
+  displayUnsignedTransaction,
+  readUnsignedTransactionFile,
+  signUnsignedTransaction,
+  writeSignatureFile,
+} from './utils/offline';
+
+async function main() {
+  try {
+    console.log('📴 Offline Transaction Signing');
+    console.log('==============================\n');
+    console.log('ℹ️  No RPC calls are made, this command can run on an air-gapped machine');
+
+    const path = await prompt('\nEnter the unsigned transaction file: ');
+    const file = readUnsignedTransactionFile(path);
+    displayUnsignedTransaction(file);
+
+    // Only local wallets the transaction requires can sign it
+    const signers = (await listSigners()).filter(wallet => file.signers.includes(wallet.address));
+    if (signers.length === 0) {
+      throw new Error(`None of the required signers has a signer in config.json: ${file.signers.join(', ')}`);
+    }
+
+    console.log('\n✍️  Local signers:');
+    signers.forEach(signer => console.log(`   • ${signer.name} (${signer.address})`));
+
+    if (!await promptYesNo('\n⚠️  Review the summary and message above. Sign the transaction?')) {
+      console.log('❌ Signing cancelled');
+      return;
+    }
+
+    const walletSigners: TransactionPartialSigner[] = [];
+    for (const signer of signers) {
+      walletSigners.push(await loadSignerFromConfig(signer.name));
+    }
+    const signatureFile = await signUnsignedTransaction(file, walletSigners);
+    console.log(`✅ Signed by ${signers.map(signer => signer.name).join(', ')}`);
+
+    const defaultPath = `transaction-${Date.now()}.signatures.json`;
+    const outputPath = await prompt(`\nOutput file (default: ${defaultPath}, "-" for stdout): `) || defaultPath;
+    writeSignatureFile(outputPath, signatureFile);
+
+    console.log('\n💡 Bring the signature file back to the online machine and use the "Submit Signed Transaction" command.');
+
+  } catch (error) {
+    throw error; // Let the CLI handle the error gracefully
+  }
+}
+
+export { main };
+
+// Run the script
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,91 @@
+/**
+ * Reference remote signing service
+ * Signs with the local wallets of the config.json in its working directory, so wallets added with
+ * the "Remote" wallet action in another directory can be tested on one machine. It signs whatever
+ * it is sent: a real service should check each message against its own policy, and keep the keys
+ * in an HSM or KMS.
+ */
+
+import { getBase58Decoder, signBytes, type Address } from '@solana/kit';
+import { listSigners, loadWalletFromConfig } from './utils/config';
+import { REMOTE_SIGNER_PORT, REMOTE_SIGNER_TOKEN } from './utils/env';
+import { promptYesNo } from './utils/prompt';
+import type { RemoteSignRequest, RemoteSignResponse } from './utils/signer';
+
+async function handleSignRequest(request: Request, keypairs: Map<Address, CryptoKeyPair>): Promise<Response> {
+  const url = new URL(request.url);
+  if (request.method !== 'POST' || url.pathname !== '/sign') {
+    return new Response('Not found', { status: 404 });
+  }
+  if (REMOTE_SIGNER_TOKEN && request.headers.get('Authorization') !== `Bearer ${REMOTE_SIGNER_TOKEN}`) {
+    console.log('🚫 Rejected a request with a missing or wrong token');
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  let signRequest: RemoteSignRequest;
+  try {
+    signRequest = await request.json() as RemoteSignRequest;
+  } catch {
+    return new Response('Invalid JSON body', { status: 400 });
+  }
+
+  const keypair = keypairs.get(signRequest.address);
+  if (!keypair) {
+    console.log(`🚫 No key for ${signRequest.address}`);
+    return new Response(`No key for ${signRequest.address}`, { status: 403 });
+  }
+
+  const message = Buffer.from(signRequest.message ?? '', 'base64');
+  const signature = await signBytes(keypair.privateKey, message);
+  console.log(`✍️  Signed ${message.length} bytes for ${signRequest.address}`);
+
+  const response: RemoteSignResponse = { signature: getBase58Decoder().decode(signature) };
+  return Response.json(response);
+}
+
+async function main() {
+  try {
+    console.log('🛰️  Reference Remote Signer');
+    console.log('==========================\n');
+
+    // Wallets that are themselves remote have no key to serve
+    const wallets = (await listSigners()).filter(wallet => wallet.backend !== 'remote');
+    if (wallets.length === 0) {
+      throw new Error('No local signers in config.json to serve');
+    }
+
+    const keypairs = new Map<Address, CryptoKeyPair>();
+    for (const wallet of wallets) {
+      if (await promptYesNo(`🔑 Serve signatures for ${wallet.name} (${wallet.address})?`)) {
+        keypairs.set(wallet.address, await loadWalletFromConfig(wallet.name));
+      }
+    }
+    if (keypairs.size === 0) {
+      console.log('❌ No wallets selected');
+      return;
+    }
+
+    if (!REMOTE_SIGNER_TOKEN) {
+      console.log('⚠️  REMOTE_SIGNER_TOKEN is not set, any local process can request signatures');
+    }
+
+    const server = Bun.serve({
+      hostname: '127.0.0.1',
+      port: REMOTE_SIGNER_PORT,
+      fetch: (request) => handleSignRequest(request, keypairs),
+    });
+
+    console.log(`\n✅ Signing for ${keypairs.size} wallet(s) at http://${server.hostname}:${server.port}/sign`);
+    console.log('💡 Add the same addresses with the "Remote" wallet action, then sign as usual. Ctrl+C to stop.');
+
+  } catch (error) {
+    throw error; // Let the CLI handle the error gracefully
+  }
+}
+
+export { main };
+
+// Run the script
+if (import.meta.main) {
+  main();
+}
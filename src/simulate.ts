@@ -0,0 +1,55 @@
+import { fetchMultisig } from './utils/squads/index';
+import { address } from '@solana/kit';
+import { loadAllSignersFromConfig, loadMultisigAddressFromConfig, loadSignerFromConfig } from './utils/config';
+import { prompt, promptWalletChoice } from './utils/prompt';
+import { rpc } from './utils/rpc';
+import { displayTransactionInstructions } from './utils/instructionDecoder';
+import { displaySimulation, simulateProposalExecution } from './utils/simulate';
+
+async function main() {
+  try {
+    console.log('🧪 Transaction Execution Simulation');
+    console.log('===================================\n');
+    
+    console.log('✅ Loading signers from config...');
+    await loadAllSignersFromConfig();
+    
+    console.log('✅ Loading multisig address...');
+    const multisigAddress = await loadMultisigAddressFromConfig();
+    console.log(`🏛️  Multisig Address: ${multisigAddress}`);
+    
+    const multisigAccount = await fetchMultisig(rpc, address(multisigAddress));
+    console.log(`📊 Latest Transaction Index: ${multisigAccount.data.transactionIndex}`);
+    
+    const transactionIndexInput = await prompt('Enter transaction index to simulate (or press Enter for latest): ');
+    const transactionIndex = transactionIndexInput 
+      ? BigInt(transactionIndexInput) 
+      : multisigAccount.data.transactionIndex;
+    
+    // The chosen wallet is the executor and fee payer of the simulation
+    const executorName = await promptWalletChoice('\n👥 Select member to simulate as executor', 'executor');
+    const executorAddress = (await loadSignerFromConfig(executorName)).address;
+    console.log(`👤 Simulated Executor: ${executorAddress}`);
+    
+    await displayTransactionInstructions(multisigAddress, transactionIndex);
+    
+    const simulation = await simulateProposalExecution(multisigAddress, transactionIndex, executorAddress);
+    await displaySimulation(simulation);
+    
+    if (simulation.err) {
+      console.log('\n💡 Executing this transaction now would fail, check the logs above before voting.');
+    } else {
+      console.log('\n🎉 Simulation completed successfully!');
+    }
+    
+  } catch (error) {
+    throw error; // Let the CLI handle the error gracefully
+  }
+}
+
+export { main };
+
+// Run the script
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,203 @@
+import {
+  address,
+  type Address,
+  type Instruction,
+  type TransactionSigner,
+} from '@solana/kit';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import {
+  findAssociatedTokenPda,
+  getCreateAssociatedTokenIdempotentInstruction,
+} from '@solana-program/token';
+import {
+  getVaultPda,
+  getSpendingLimitUseInstruction,
+  type SpendingLimit,
+} from './utils/squads/index';
+import { listSigners, loadSignerFromConfig, loadAllSignersFromConfig, loadMultisigAddressFromConfig } from './utils/config';
+import { signAndSendTransaction } from './utils/sign';
+import { prompt } from './utils/prompt';
+import {
+  getAvailableAmount,
+  getSpendingLimitMint,
+  formatSpendingLimitAmount,
+  selectSpendingLimit,
+} from './utils/spendingLimit';
+import type { WalletName } from './utils/types';
+
+/**
+ * Picks a local wallet that is allowed to use the spending limit
+ */
+async function selectSpender(spendingLimit: SpendingLimit): Promise<TransactionSigner> {
+  const allowed: Array<{ name: WalletName; signer: TransactionSigner; address: string }> = [];
+
+  for (const signer of await listSigners()) {
+    // The program only checks the members of the limit, they need not be members of the multisig
+    if (spendingLimit.members.includes(signer.address)) {
+      allowed.push({ name: signer.name, signer: await loadSignerFromConfig(signer.name), address: signer.address });
+    }
+  }
+
+  if (allowed.length === 0) {
+    throw new Error('None of the local wallets are allowed to use this spending limit');
+  }
+
+  console.log('\n👥 Wallets allowed to spend:');
+  allowed.forEach((wallet, index) => {
+    console.log(`   ${index + 1}. ${wallet.name} (${wallet.address})`);
+  });
+
+  const choice = allowed.length === 1 ? '1' : await prompt(`\nSelect wallet to spend with (1-${allowed.length}): `);
+  const selected = allowed[parseInt(choice || '0') - 1];
+  if (!selected) {
+    throw new Error('Invalid wallet selection');
+  }
+
+  return selected.signer;
+}
+
+async function useSpendingLimit(
+  multisigPda: string,
+  spendingLimitAddress: string,
+  spendingLimit: SpendingLimit,
+  spender: TransactionSigner,
+  destination: string,
+  amount: bigint,
+  decimals: number,
+  tokenProgram: Address | null,
+  memo?: string
+): Promise<void> {
+  console.log('\n💸 Spending from vault...');
+
+  try {
+    const [vaultPda] = await getVaultPda(multisigPda, spendingLimit.vaultIndex);
+
+    const instructions: Instruction<string>[] = [];
+    let tokenAccounts = {};
+
+    if (tokenProgram) {
+      const [vaultTokenAccount] = await findAssociatedTokenPda({
+        mint: spendingLimit.mint,
+        owner: address(vaultPda),
+        tokenProgram,
+      });
+      const [destinationTokenAccount] = await findAssociatedTokenPda({
+        mint: spendingLimit.mint,
+        owner: address(destination),
+        tokenProgram,
+      });
+
+      // The spender pays for the destination token account if it does not exist yet
+      instructions.push(getCreateAssociatedTokenIdempotentInstruction({
+        payer: spender,
+        ata: destinationTokenAccount,
+        owner: address(destination),
+        mint: spendingLimit.mint,
+        tokenProgram,
+      }));
+
+      tokenAccounts = {
+        mint: spendingLimit.mint,
+        vaultTokenAccount,
+        destinationTokenAccount,
+        tokenProgram,
+      };
+    }
+
+    instructions.push(getSpendingLimitUseInstruction({
+      multisig: address(multisigPda),
+      member: spender,
+      spendingLimit: address(spendingLimitAddress),
+      vault: address(vaultPda),
+      destination: address(destination),
+      systemProgram: SYSTEM_PROGRAM_ADDRESS,
+      ...tokenAccounts,
+      amount,
+      decimals,
+      memo: memo || null,
+    }));
+
+    console.log(`🏦 Vault: ${vaultPda}`);
+    console.log(`📍 Destination: ${destination}`);
+    console.log(`💵 Amount: ${formatSpendingLimitAmount(amount, spendingLimit, decimals)} (${amount} base units)`);
+
+    const signature = await signAndSendTransaction(
+      instructions,
+      spender
+    );
+
+    console.log(`✅ Payment sent within spending limit!`);
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+  } catch (error) {
+    console.error('❌ Error using spending limit:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    console.log('💳 Squads Spending Limit Tool');
+    console.log('=============================\n');
+
+    console.log('✅ Loading signers from config...');
+    await loadAllSignersFromConfig();
+
+    console.log('✅ Loading multisig address...');
+    const multisigAddress = await loadMultisigAddressFromConfig();
+    console.log(`🏛️  Multisig Address: ${multisigAddress}`);
+
+    const { address: spendingLimitAddress, data: spendingLimit } = await selectSpendingLimit(multisigAddress, 'spend from');
+    const { decimals, tokenProgram } = await getSpendingLimitMint(spendingLimit);
+
+    const available = getAvailableAmount(spendingLimit);
+    if (available === 0n) {
+      throw new Error('Spending limit is exhausted for the current period');
+    }
+
+    const spender = await selectSpender(spendingLimit);
+
+    const destination = (await prompt('\nEnter destination address: ')).trim();
+    if (!destination) {
+      throw new Error('Destination address is required');
+    }
+    if (spendingLimit.destinations.length > 0 && !spendingLimit.destinations.includes(address(destination))) {
+      throw new Error(`Destination ${destination} is not on the spending limit allowlist`);
+    }
+
+    const amountInput = await prompt(`Enter amount (max ${formatSpendingLimitAmount(available, spendingLimit, decimals)}): `);
+    const uiAmount = parseFloat(amountInput);
+    if (isNaN(uiAmount) || uiAmount <= 0) {
+      throw new Error('Invalid amount');
+    }
+    const amount = BigInt(Math.round(uiAmount * Math.pow(10, decimals)));
+    if (amount > available) {
+      throw new Error(`Amount exceeds the remaining limit of ${formatSpendingLimitAmount(available, spendingLimit, decimals)}`);
+    }
+
+    const memo = await prompt('Enter memo (optional): ');
+
+    await useSpendingLimit(
+      multisigAddress,
+      spendingLimitAddress,
+      spendingLimit,
+      spender,
+      destination,
+      amount,
+      decimals,
+      tokenProgram,
+      memo
+    );
+
+    console.log('\n🎉 Spend completed successfully!');
+  } catch (error) {
+    console.error('❌ Error:', error);
+    throw error; // Let the CLI handle the error gracefully
+  }
+}
+
+export { main };
+
+// Run the script
+if (import.meta.main) {
+  main();
+}
@@ -1,29 +1,22 @@
 import { 
-  getMultisigCreateV2Instruction,
-  getMultisigPda,
   getVaultPda,
-  getProgramConfigPda,
-  fetchProgramConfig,
 } from './utils/squads/index';
 import { 
   address,
-  createSignerFromKeyPair,
-  generateKeyPair,
-  getAddressFromPublicKey,
   type Address,
-  lamports
+  lamports,
+  type TransactionSigner,
 } from '@solana/kit';
 import { transferInstruction } from './utils/transfer';
 import { 
   checkConfigExists, 
   saveMultisigAddressToConfig,
-  saveKeypairsToConfig,
-  loadWalletFromConfig,
+  saveWalletToConfig,
+  loadConfig,
+  loadSignerFromConfig,
   loadAllSignersFromConfig,
 } from './utils/config';
-import { 
-  generateManagerVoterWallets,
-} from './utils/wallet';
+import { generateWallet } from './utils/wallet';
 import { prompt } from './utils/prompt';
 import { signAndSendTransaction } from './utils/sign';
 import { checkSolBalance } from './utils/balance';
@@ -31,6 +24,41 @@ import { checkSolBalance } from './utils/balance';
 // USDC mint address on devnet
 import { USDC_MINT_DEVNET as USDC_MINT } from './utils/constants';
 import { rpc } from './utils/rpc';
+import { DEFAULT_VAULT_INDEX } from './utils/vault';
+import { fetchProgramConfigEntry, formatLamportsAsSol } from './utils/programConfig';
+import { createMultisig } from './utils/multisigCreate';
+import { ALL_PERMISSIONS, Permission } from './utils/validation';
+import type { WalletName, WalletRole } from './utils/types';
+
+// The wallets of the demo multisig, created on first run
+const SETUP_WALLETS: Array<{ name: WalletName; roles: WalletRole[] }> = [
+  { name: 'manager', roles: ['proposer', 'voter', 'executor'] },
+  { name: 'voter1', roles: ['voter'] },
+  { name: 'voter2', roles: ['voter'] },
+];
+
+/**
+ * Loads the setup wallets from config.json, generating and saving the missing ones
+ */
+async function loadOrCreateSetupWallets(): Promise<TransactionSigner[]> {
+  const existing = await checkConfigExists() ? (await loadConfig()).wallets ?? {} : {};
+  const signers: TransactionSigner[] = [];
+
+  for (const { name, roles } of SETUP_WALLETS) {
+    if (existing[name]) {
+      signers.push(await loadSignerFromConfig(name));
+      continue;
+    }
+
+    const wallet = await generateWallet(name);
+    await saveWalletToConfig(name, wallet.address, roles, wallet.keypairBytes, {
+      plaintext: process.argv.includes('--plaintext'),
+    });
+    signers.push(wallet.signer);
+  }
+
+  return signers;
+}
 
 async function requestSOLAirdrop(manager: Address): Promise<void> {
   console.log('\n💰 Requesting SOL airdrop...');
@@ -99,76 +127,35 @@ async function requestSOLAirdrop(manager: Address): Promise<void> {
   }
 }
 
-async function createMultisigProgrammatically(manager: CryptoKeyPair, voter1: Address, voter2: Address): Promise<string> {
-  console.log('\n🏛️  Creating multisig...');
-  
-  try {
-    // Load wallet from environment or use manager as creator
-    const managerAddress = await getAddressFromPublicKey(manager.publicKey);
+async function createMultisigProgrammatically(manager: TransactionSigner, voter1: Address, voter2: Address): Promise<string | null> {
+  // multisigCreateV2 reads the fee and treasury from the program config,
+  // which self-hosted deployments have to initialize first
+  const programConfig = await fetchProgramConfigEntry();
+  if (!programConfig.data) {
+    console.log(`\n⚠️  Program config ${programConfig.address} is not initialized on this cluster`);
+    console.log('💡 Run the "Program Config Admin" command to initialize it, then run the setup again.');
+    return null;
+  }
+  if (programConfig.data.multisigCreationFee > 0n) {
+    console.log(`\n💰 Multisig creation fee: ${formatLamportsAsSol(programConfig.data.multisigCreationFee)}`);
+  }
 
-    // Generate ephemeral key for multisig creation
-    const ephemeralKeypair = await generateKeyPair();
-    const ephemeralAddress = await getAddressFromPublicKey(ephemeralKeypair.publicKey);
-    
-    // Calculate multisig PDA using Squads utils
-    const [multisigPda] = await getMultisigPda(ephemeralAddress);
-    
-    // Get program config PDA
-    const [programConfigPda] = await getProgramConfigPda();
-    const programConfig = await fetchProgramConfig(rpc, address(programConfigPda));
-    const configTreasury = programConfig.data.treasury;
+  const managerAddress = manager.address;
 
-    // Create multisig instruction using Squads utils
-    const multisigCreateInstruction = getMultisigCreateV2Instruction({
-      programConfig: address(programConfigPda),
-      treasury: address(configTreasury),
-      multisig: address(multisigPda),
-      createKey: await createSignerFromKeyPair(ephemeralKeypair),
-      creator: await createSignerFromKeyPair(manager),
-      systemProgram: address('11111111111111111111111111111111'),
-      configAuthority: address(managerAddress),
-      threshold: 2,
-      members: [
-        {
-          key: address(managerAddress),
-          permissions: {
-            mask: 7, // Can propose, vote, and execute (7 = all permissions)
-          },
-        },
-        {
-          key: address(voter1),
-          permissions: {
-            mask: 2, // Can only vote (2 = vote permission)
-          },
-        },
-        {
-          key: address(voter2),
-          permissions: {
-            mask: 2, // Can only vote (2 = vote permission)
-          },
-        },
-      ],
-      timeLock: 0,
-      rentCollector: address(managerAddress),
-      memo: 'Multisig created via Solana Kit and Squads utils',
-    });
-
-    // Send and confirm transaction using creator
-    const signature = await signAndSendTransaction(
-      [multisigCreateInstruction],
-      [manager, ephemeralKeypair],
-      managerAddress
-    );
-    
-    console.log('✅ Multisig created!');
-    console.log(`🏛️  Address: ${multisigPda}`);
-    console.log(`🔗 Tx: ${signature}`);
-    
-    return multisigPda;
-  } catch (error) {
-    console.error('❌ Error creating multisig:', error);
-    throw error;
-  }
+  // Default setup: a controlled 2-of-3 where the manager can do everything and the voters only vote.
+  // Use the "Create Multisig" wizard for any other configuration
+  return await createMultisig(manager, {
+    members: [
+      { key: managerAddress, permissions: { mask: ALL_PERMISSIONS } },
+      { key: voter1, permissions: { mask: Permission.Vote } },
+      { key: voter2, permissions: { mask: Permission.Vote } },
+    ],
+    threshold: 2,
+    timeLock: 0,
+    rentCollector: managerAddress,
+    configAuthority: managerAddress,
+    memo: 'Multisig created via Solana Kit and Squads utils',
+  });
 }
 
 async function requestUSDCAirdrop(managerAddress: string): Promise<void> {
@@ -210,7 +197,7 @@ async function requestUSDCAirdrop(managerAddress: string): Promise<void> {
 }
 
 async function sendSOLToVoters(
-  sender: CryptoKeyPair,
+  sender: TransactionSigner,
   voters: Address[],
   amountPerVoter: number = 0.2
 ): Promise<void> {
@@ -218,7 +205,7 @@ async function sendSOLToVoters(
   
   try {
     // Check each voter's balance first
-    const senderAddress = await getAddressFromPublicKey(sender.publicKey);
+    const senderAddress = sender.address;
     const votersNeedingSOL = [];
     const voterBalances = [];
     
@@ -257,7 +244,7 @@ async function sendSOLToVoters(
     // Create transfer instructions only for voters who need SOL
     for (const voter of votersNeedingSOL) {
       const transferIxns = await transferInstruction(
-        await createSignerFromKeyPair(sender),
+        sender,
         transferAmount,
         address('So11111111111111111111111111111111111111112'), // SOL mint
         address(voter)
@@ -270,8 +257,7 @@ async function sendSOLToVoters(
     // Send and confirm transaction using sender
     const signature = await signAndSendTransaction(
       instructions,
-      [sender],
-      senderAddress
+      sender
     );
     
     console.log(`✅ SOL transfers successful!`);
@@ -288,32 +274,30 @@ async function sendSOLToVoters(
 }
 
 async function depositSOLToVault(
-  sender: CryptoKeyPair,
+  sender: TransactionSigner,
   multisigPda: string
 ): Promise<void> {
   console.log('\n💰 Depositing SOL to vault for initialization...');
   
   try {
-    // Get vault PDA (index 0)
-    const [vaultPda] = await getVaultPda(multisigPda, 0);
+    // Get the default vault PDA
+    const [vaultPda] = await getVaultPda(multisigPda, DEFAULT_VAULT_INDEX);
     
     // Create SOL transfer instruction to vault
     const transferAmount = BigInt(0.5 * 1000000000); // 0.5 SOL in lamports
     const transferIxns = await transferInstruction(
-      await createSignerFromKeyPair(sender),
+      sender,
       transferAmount,
       address('So11111111111111111111111111111111111111112'), // SOL mint
       address(vaultPda)
     );
     
     console.log('📤 Sending SOL deposit to vault...');
-    const senderAddress = await getAddressFromPublicKey(sender.publicKey);
     
     // Send and confirm transaction using sender
     const signature = await signAndSendTransaction(
       transferIxns,
-      [sender],
-      senderAddress
+      sender
     );
     
     console.log(`✅ SOL deposit to vault successful!`);
@@ -329,32 +313,30 @@ async function depositSOLToVault(
 }
 
 async function createUSDCTransferToMultisig(
-  sender: CryptoKeyPair,
+  sender: TransactionSigner,
   multisigPda: string
 ): Promise<void> {
   console.log('\n💸 Creating USDC transfer to multisig vault...');
   
   try {
-    // Get vault PDA (index 0) - this is where assets are stored
-    const [vaultPda] = await getVaultPda(multisigPda, 0);
+    // Get the default vault PDA - this is where assets are stored
+    const [vaultPda] = await getVaultPda(multisigPda, DEFAULT_VAULT_INDEX);
     
     // Create transfer instruction using Solana Kit
     const transferAmount = BigInt(1 * Math.pow(10, 6)); // 1 USDC in micro-USDC
     const transferIxns = await transferInstruction(
-      await createSignerFromKeyPair(sender),
+      sender,
       transferAmount,
       USDC_MINT,
       address(vaultPda)
     );
     
     console.log('📤 Sending USDC transfer transaction...');
-    const senderAddress = await getAddressFromPublicKey(sender.publicKey);
     
     // Send and confirm transaction using sender
     const signature = await signAndSendTransaction(
       transferIxns,
-      [sender],
-      senderAddress
+      sender
     );
     
     console.log(`✅ USDC transfer successful!`);
@@ -385,39 +367,12 @@ async function main() {
     console.log('\n⚠️  IMPORTANT: This is for Devnet usage!\n');
     
     // Step 1: Create or load Manager and Voter wallets
-    let manager: CryptoKeyPair, voter1: CryptoKeyPair, voter2: CryptoKeyPair;
-      
-    if (await checkConfigExists()) {
-      console.log('📁 Found existing config.json, loading wallets...');
-      manager = await loadWalletFromConfig('manager');
-      voter1 = await loadWalletFromConfig('voter1');
-      voter2 = await loadWalletFromConfig('voter2');
-      
-      // Load all signers for the new system
-      await loadAllSignersFromConfig();
-    } else {
-      console.log('📁 No existing config.json found, generating new wallets...');
-      const wallets = await generateManagerVoterWallets();
-      manager = wallets.managerKeypair;
-      voter1 = wallets.voter1Keypair;
-      voter2 = wallets.voter2Keypair;
-      
-      // Save the generated wallets to config.json
-      await saveKeypairsToConfig(
-        manager, 
-        voter1, 
-        voter2,
-        wallets.managerKeypairBytes,
-        wallets.voter1KeypairBytes,
-        wallets.voter2KeypairBytes
-      );
-      
-      // Load all signers for the new system
-      await loadAllSignersFromConfig();
-    }
-    const managerAddress = await getAddressFromPublicKey(manager.publicKey);
-    const voter1Address = await getAddressFromPublicKey(voter1.publicKey);
-    const voter2Address = await getAddressFromPublicKey(voter2.publicKey);
+    console.log('📁 Loading the manager, voter1 and voter2 wallets, generating any that are missing...');
+    const [manager, voter1, voter2] = await loadOrCreateSetupWallets() as [TransactionSigner, TransactionSigner, TransactionSigner];
+    await loadAllSignersFromConfig();
+    const managerAddress = manager.address;
+    const voter1Address = voter1.address;
+    const voter2Address = voter2.address;
     
     console.log('✅ Wallets loaded from config.json:');
     console.log(`👤 Manager: ${managerAddress} (can propose, vote, and execute)`);
@@ -448,6 +403,10 @@ async function main() {
     
     // Step 4: Create multisig programmatically
     const multisigAddress = await createMultisigProgrammatically(manager, voter1Address, voter2Address);
+    if (!multisigAddress) {
+      console.log('\n⏸️  Setup paused: wallets are saved in config.json, the multisig was not created.');
+      return;
+    }
     
     // Save multisig address to config.json
     await saveMultisigAddressToConfig(multisigAddress);
@@ -0,0 +1,145 @@
+import { generateKeyPairSigner } from '@solana/kit';
+import {
+  getCreateAccountInstruction,
+  getInitializeNonceAccountInstruction,
+  getNonceSize,
+  SYSTEM_PROGRAM_ADDRESS,
+} from '@solana-program/system';
+import { findWalletByAddress, listWallets, loadSignerFromConfig } from './utils/config';
+import { prompt, promptWalletChoice, promptYesNo } from './utils/prompt';
+import { rpc } from './utils/rpc';
+import { signAndSendTransaction } from './utils/sign';
+import {
+  displayUnsignedTransaction,
+  mergeSignatures,
+  readSignatureFile,
+  readUnsignedTransactionFile,
+  submitSignedTransaction,
+} from './utils/offline';
+
+async function submitTransaction(): Promise<void> {
+  const path = await prompt('Enter the unsigned transaction file: ');
+  const file = readUnsignedTransactionFile(path);
+  displayUnsignedTransaction(file);
+
+  // Signatures can come back in one file per offline machine
+  const signatureFiles = [];
+  while (true) {
+    const signaturePath = await prompt(`\nEnter a signature file (${signatureFiles.length} added, Enter when done): `);
+    if (signaturePath === '') {
+      break;
+    }
+    signatureFiles.push(readSignatureFile(signaturePath));
+  }
+
+  const transaction = await mergeSignatures(file, signatureFiles);
+  console.log('\n✍️  Signatures:');
+  for (const [signer, signature] of Object.entries(transaction.signatures)) {
+    const wallet = await findWalletByAddress(signer);
+    console.log(`   ${signature ? '✅' : '❌'} ${wallet ? `${wallet.name} (${signer})` : signer}`);
+  }
+
+  if (!await promptYesNo('\n📤 Broadcast the transaction?')) {
+    console.log('❌ Submission cancelled');
+    return;
+  }
+
+  const signature = await submitSignedTransaction(file, transaction);
+  console.log('✅ Transaction submitted!');
+  console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+}
+
+/**
+ * Creates a nonce account whose authority is the offline wallet, so exported transactions
+ * do not expire with their blockhash
+ */
+async function createNonceAccount(): Promise<void> {
+  const authorityName = await promptWalletChoice('\n👥 Select the nonce authority, usually the offline signer', undefined, { watchOnly: true });
+  const authority = (await listWallets()).find(wallet => wallet.name === authorityName);
+  if (!authority) {
+    throw new Error(`Wallet ${authorityName} not found in config.json`);
+  }
+
+  const payerName = await promptWalletChoice('\n💳 Select the wallet paying the rent');
+  const payer = await loadSignerFromConfig(payerName);
+
+  const nonceAccount = await generateKeyPairSigner();
+  const space = getNonceSize();
+  const lamports = await rpc.getMinimumBalanceForRentExemption(BigInt(space)).send();
+
+  console.log(`\n📋 Nonce Account: ${nonceAccount.address}`);
+  console.log(`🔑 Nonce Authority: ${authorityName} (${authority.address})`);
+  console.log(`💰 Rent: ${Number(lamports) / 1e9} SOL`);
+
+  // The payer is picked among signing wallets and the nonce keypair is new, neither signs offline
+  const signature = await signAndSendTransaction(
+    [
+      getCreateAccountInstruction({
+        payer,
+        newAccount: nonceAccount,
+        lamports,
+        space,
+        programAddress: SYSTEM_PROGRAM_ADDRESS,
+      }),
+      getInitializeNonceAccountInstruction({
+        nonceAccount: nonceAccount.address,
+        nonceAuthority: authority.address,
+      }),
+    ],
+    payer
+  );
+
+  console.log('✅ Nonce account created!');
+  console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+  console.log(`💡 Enter ${nonceAccount.address} as the durable nonce account when exporting with --offline.`);
+}
+
+async function main() {
+  try {
+    console.log('📤 Signed Transaction Submission');
+    console.log('================================\n');
+
+    while (true) {
+      console.log('\n🔧 Actions:');
+      console.log('1. Submit - Merge offline signatures and broadcast the transaction');
+      console.log('2. Nonce - Create a durable nonce account for offline signing');
+      console.log('0. Exit - Exit the submit tool');
+
+      const choice = await prompt('\nSelect an action (0-2): ');
+
+      try {
+        switch (choice) {
+          case '1': {
+            await submitTransaction();
+            break;
+          }
+
+          case '2': {
+            await createNonceAccount();
+            break;
+          }
+
+          case '0': {
+            console.log('\n👋 Exiting submit tool...');
+            return;
+          }
+
+          default:
+            console.log('❌ Invalid choice. Please select 0-2.');
+        }
+      } catch (error) {
+        // Keep the submit tool open when an action fails
+        console.error(`❌ ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  } catch (error) {
+    throw error; // Let the CLI handle the error gracefully
+  }
+}
+
+export { main };
+
+// Run the script
+if (import.meta.main) {
+  main();
+}
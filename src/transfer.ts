@@ -3,21 +3,22 @@ import {
 } from './utils/squads/index';
 import { 
   address,
-  createSignerFromKeyPair,
-  getAddressFromPublicKey
+  type TransactionSigner,
 } from '@solana/kit';
 import { transferInstruction } from './utils/transfer';
-import { loadWalletFromConfig, loadAllSignersFromConfig, loadMultisigAddressFromConfig } from './utils/config';
-import { prompt } from './utils/prompt';
+import { loadSignerFromConfig, loadAllSignersFromConfig, loadMultisigAddressFromConfig } from './utils/config';
+import { prompt, promptWalletChoice } from './utils/prompt';
 import { signAndSendTransaction } from './utils/sign';
 import { checkSolBalance, checkUSDCBalance } from './utils/balance';
 import { USDC_MINT_DEVNET as USDC_MINT } from './utils/constants';
+import { DEFAULT_VAULT_INDEX, promptVaultIndex } from './utils/vault';
 
 
 async function transferToMultisigVault(
   amount: number,
   tokenMint: string,
-  sender: CryptoKeyPair
+  sender: TransactionSigner,
+  vaultIndex: number = DEFAULT_VAULT_INDEX
 ): Promise<void> {
   console.log('\n💰 Transferring to Multisig Vault');
   console.log('=================================\n');
@@ -25,18 +26,17 @@ async function transferToMultisigVault(
   try {
     // Get multisig vault address
     const multisigAddress = await loadMultisigAddressFromConfig();
-    const [vaultPda] = await getVaultPda(multisigAddress, 0);
+    const [vaultPda] = await getVaultPda(multisigAddress, vaultIndex);
     
     console.log(`🏛️  Multisig Address: ${multisigAddress}`);
     console.log(`🏦 Vault Address: ${vaultPda}`);
     console.log(`🪙 Token Mint: ${tokenMint}`);
     console.log(`💵 Amount: ${amount} tokens`);
     
-    const senderAddress = await getAddressFromPublicKey(sender.publicKey);
     // Create transfer instruction using Solana Kit
     const transferAmount = BigInt(amount * Math.pow(10, 6)); // Convert to raw token amount (assuming 6 decimals)
     const transferIxns = await transferInstruction(
-      await createSignerFromKeyPair(sender),
+      sender,
       transferAmount,
       address(tokenMint),
       address(vaultPda)
@@ -47,8 +47,7 @@ async function transferToMultisigVault(
     // Send and confirm transaction using sender
     const signature = await signAndSendTransaction(
       transferIxns,
-      [sender],
-      senderAddress
+      sender
     );
     
     console.log(`✅ Transfer to multisig vault successful!`);
@@ -76,8 +75,9 @@ async function main() {
     
     // Load sender wallet for balance checking
     console.log('✅ Loading sender wallet...');
-    const sender = await loadWalletFromConfig('manager');
-    const senderAddress = await getAddressFromPublicKey(sender.publicKey);
+    const senderName = await promptWalletChoice('\n👥 Select the sending wallet');
+    const sender = await loadSignerFromConfig(senderName);
+    const senderAddress = sender.address;
     console.log(`👤 Sender Address: ${senderAddress}`);
     
     // Check SOL balance
@@ -91,6 +91,7 @@ async function main() {
     }
     
     // Get transfer details
+    const vaultIndex = await promptVaultIndex('deposit into');
     const tokenType = await prompt('Transfer SOL or USDC? (sol/usdc): ');
     
     if (tokenType.toLowerCase() === 'sol') {
@@ -111,11 +112,11 @@ async function main() {
       console.log('\n📋 SOL Transfer Summary:');
       console.log(`👤 Sender: ${senderAddress}`);
       console.log(`💵 Amount: ${amount} SOL`);
-      console.log(`🎯 Destination: Multisig Vault`);
+      console.log(`🎯 Destination: Multisig Vault #${vaultIndex}`);
       console.log('🚀 Proceeding with SOL transfer...');
       
       // For SOL transfers to vault, we need to use the SOL mint address
-      await transferToMultisigVault(amount, 'So11111111111111111111111111111111111111112', sender);
+      await transferToMultisigVault(amount, 'So11111111111111111111111111111111111111112', sender, vaultIndex);
       
     } else if (tokenType.toLowerCase() === 'usdc') {
       const amountInput = await prompt('Enter USDC amount to transfer: ');
@@ -131,10 +132,10 @@ async function main() {
       console.log(`👤 Sender: ${senderAddress}`);
       console.log(`💵 Amount: ${amount} USDC`);
       console.log(`🪙 Token: ${USDC_MINT}`);
-      console.log(`🎯 Destination: Multisig Vault`);
+      console.log(`🎯 Destination: Multisig Vault #${vaultIndex}`);
       console.log('🚀 Proceeding with USDC transfer...');
       
-      await transferToMultisigVault(amount, USDC_MINT, sender);
+      await transferToMultisigVault(amount, USDC_MINT, sender, vaultIndex);
       
     } else {
       console.log('❌ Invalid token type. Please choose "sol" or "usdc".');
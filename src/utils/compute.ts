@@ -19,6 +19,7 @@ import {
 } from '@solana-program/compute-budget';
 import { rpc } from './rpc';
 import { RPC_URL } from './env';
+import { decodeSimulationError } from './programErrors';
 export const PRIORITY_LEVELS = {
   MIN: 'Min',
   LOW: 'Low',
@@ -49,40 +50,12 @@ export interface PriorityFeeResponse {
 
 const DEFAULT_COMPUTE_UNITS = 1_400_000;
 const DEFAULT_PRIORITY_FEE = 50000;
-
-function extractErrorMessage(logs: string[]): string | null {
-  for (const log of logs) {
-    // Look for Squads program error format: "Error Code: ErrorName. Error Number: XXXX. Error Message: ErrorMessage"
-    const errorMatch = log.match(/Error Code: (\w+)\. Error Number: \d+\. Error Message: (.+)/);
-    if (errorMatch && errorMatch[1]) {
-      return errorMatch[1]; // Return just the error name (e.g., "AlreadyApproved")
-    }
-    
-    // Look for other common error patterns
-    if (log.includes('InvalidLockupAmount')) {
-      return 'Invalid staked amount: Should be > 1';
-    }
-    if (log.includes('0x1771') || log.includes('0x178c')) {
-      return 'Maximum slippage reached';
-    }
-    if (log.includes('insufficient funds')) {
-      return 'Insufficient USDC balance for this transaction';
-    }
-    if (log.includes('Error: insufficient funds')) {
-      return 'Insufficient USDC balance for this transaction';
-    }
-    if (
-      log.includes('Program 11111111111111111111111111111111 failed: custom program error: 0x1') ||
-      log.includes('insufficient lamports')
-    ) {
-      return 'You need more SOL to pay for transaction fees';
-    }
-  }
-  return null;
-}
+// Compute unit limit and price instructions added in front of every transaction
+export const COMPUTE_BUDGET_INSTRUCTION_COUNT = 2;
 
 async function getComputeUnits(
-  wireTransaction: Base64EncodedWireTransaction
+  wireTransaction: Base64EncodedWireTransaction,
+  instructions: Instruction<string>[]
 ): Promise<number> {
   const simulation = await rpc
     .simulateTransaction(wireTransaction, {
@@ -91,33 +64,13 @@ async function getComputeUnits(
     })
     .send();
 
-    if (simulation.value.err && simulation.value.logs) {
-      if (simulation.value.err.toString().includes('InsufficientFundsForRent')) {
-        throw new Error('You need more SOL to pay for transaction fees');
-      }
-
-      if (simulation.value.logs.length === 0) {
-        throw new Error('You need more SOL to pay for transaction fees');
-      }
-
-      // Check for specific insufficient funds error in logs
-      const hasInsufficientFunds = simulation.value.logs.some(log => 
-        log.includes('insufficient funds') || 
-        log.includes('Error: insufficient funds')
-      );
-      
-      if (hasInsufficientFunds) {
-        throw new Error('Insufficient USDC balance for this transaction');
-      }
-
-      // Extract specific error message from program logs
-      const errorMessage = extractErrorMessage(simulation.value.logs);
-      if (errorMessage) {
-        throw new Error(errorMessage);
-      }
-
-    // If no specific error was found, throw generic simulation error
-    throw new Error('Transaction simulation error');
+  if (simulation.value.err) {
+    // The simulated transaction starts with the compute limit and price instructions
+    throw decodeSimulationError(simulation.value.err, {
+      logs: simulation.value.logs,
+      instructions,
+      instructionOffset: COMPUTE_BUDGET_INSTRUCTION_COUNT,
+    });
   }
 
   return Number(simulation.value.unitsConsumed) || DEFAULT_COMPUTE_UNITS;
@@ -214,7 +167,7 @@ async function simulateAndGetBudget(
   const compiledMessage = compileTransaction(messageWithLookupTables);
   const wireTransaction = getBase64EncodedWireTransaction(compiledMessage);
   const [computeUnits, priorityFee] = await Promise.all([
-    getComputeUnits(wireTransaction),
+    getComputeUnits(wireTransaction, instructions),
     getPriorityFeeEstimate(wireTransaction, {
       priorityLevel,
       lookbackSlots: 150,
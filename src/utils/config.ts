@@ -3,9 +3,32 @@
  * Handles both wallet and multisig configuration with type safety
  */
 
-import { readFileSync, existsSync, writeFileSync } from 'fs';
-import { createKeyPairFromBytes, getAddressFromPublicKey } from '@solana/kit';
-import type { ConfigData, WalletName, WalletCollection } from './types';
+import { readFileSync, existsSync, writeFileSync, copyFileSync } from 'fs';
+import { address, createKeyPairFromBytes, getAddressFromPublicKey } from '@solana/kit';
+import type {
+  ConfigData,
+  EncryptedKey,
+  LegacyConfigData,
+  RemoteSignerConfig,
+  SignerBackend,
+  WalletData,
+  WalletEntry,
+  WalletName,
+  WalletRole,
+} from './types';
+import { decryptSecretKey, encryptSecretKey, unlockKeystore } from './keystore';
+import { createKeypairSigner, createKeystoreSigner, createRemoteSigner, type WalletSigner } from './signer';
+
+export const WALLET_ROLES: WalletRole[] = ['proposer', 'voter', 'executor'];
+
+// Roles of the wallets created by the original setup, matching their multisig permissions
+const LEGACY_WALLET_ROLES: Record<'manager' | 'voter1' | 'voter2', WalletRole[]> = {
+  manager: ['proposer', 'voter', 'executor'],
+  voter1: ['voter'],
+  voter2: ['voter'],
+};
+
+const WALLET_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
 
 export function getConfigPath(): string {
   return 'config.json';
@@ -20,6 +43,26 @@ export async function checkConfigExists(): Promise<boolean> {
   }
 }
 
+function isLegacyConfig(configData: object): configData is LegacyConfigData {
+  return !('wallets' in configData) && Object.keys(LEGACY_WALLET_ROLES).some(name => name in configData);
+}
+
+/**
+ * Moves the fixed manager/voter1/voter2 entries into the wallets map, keeping a backup of the old file
+ */
+function migrateLegacyConfig(legacy: LegacyConfigData): ConfigData {
+  const wallets: Record<WalletName, WalletData> = {};
+  for (const [name, roles] of Object.entries(LEGACY_WALLET_ROLES)) {
+    const walletData = legacy[name as keyof typeof LEGACY_WALLET_ROLES];
+    if (walletData) {
+      wallets[name] = { ...walletData, roles };
+    }
+  }
+
+  const { manager, voter1, voter2, ...rest } = legacy;
+  return { ...rest, wallets };
+}
+
 export async function loadConfig(): Promise<ConfigData> {
   try {
     const configPath = getConfigPath();
@@ -27,7 +70,18 @@ export async function loadConfig(): Promise<ConfigData> {
       throw new Error('config.json not found. Please run the setup first.');
     }
     
-    return JSON.parse(readFileSync(configPath, 'utf8'));
+    const configData = JSON.parse(readFileSync(configPath, 'utf8'));
+    if (!isLegacyConfig(configData)) {
+      return configData;
+    }
+
+    // One-time migration to named wallets
+    const backupPath = `${configPath}.bak`;
+    copyFileSync(configPath, backupPath);
+    const migrated = migrateLegacyConfig(configData);
+    await saveConfig(migrated);
+    console.log(`✅ Migrated ${configPath} to named wallets (backup: ${backupPath})`);
+    return migrated;
   } catch (error) {
     throw new Error(`Failed to load config.json: ${error}`);
   }
@@ -38,42 +92,155 @@ export async function saveConfig(configData: ConfigData): Promise<void> {
   writeFileSync(configPath, JSON.stringify(configData, null, 2));
 }
 
-// Wallet Management Functions (Legacy - for backward compatibility)
+function getSignerBackend(walletData: WalletData): SignerBackend | null {
+  if (walletData.remoteSigner) {
+    return 'remote';
+  }
+  if (walletData.encryptedKey) {
+    return 'keystore';
+  }
+  return walletData.privateKey ? 'keypair' : null;
+}
+
+// Wallet Management Functions
+export async function listWallets(): Promise<WalletEntry[]> {
+  const configData = await loadConfig();
+  return Object.entries(configData.wallets ?? {}).map(([name, walletData]) => {
+    const backend = getSignerBackend(walletData);
+    return {
+      name,
+      address: address(walletData.publicKey),
+      roles: walletData.roles ?? [],
+      watchOnly: backend === null,
+      backend,
+    };
+  });
+}
+
+/**
+ * Wallets with a signer backend, the only ones that can sign
+ */
+export async function listSigners(): Promise<WalletEntry[]> {
+  return (await listWallets()).filter(wallet => !wallet.watchOnly);
+}
+
+export async function findWalletByAddress(walletAddress: string): Promise<WalletEntry | null> {
+  return (await listWallets()).find(wallet => wallet.address === walletAddress) ?? null;
+}
 
-// Signer Management Functions (Simplified)
+export function formatWalletEntry(wallet: WalletEntry): string {
+  const details = [
+    ...(wallet.roles.length > 0 ? [wallet.roles.join(', ')] : []),
+    ...(wallet.watchOnly ? ['watch-only'] : []),
+    ...(wallet.backend === 'keypair' ? ['unencrypted'] : []),
+    ...(wallet.backend === 'remote' ? ['remote'] : []),
+  ];
+  return `${wallet.name} (${wallet.address})${details.length > 0 ? ` - ${details.join(', ')}` : ''}`;
+}
+
+// Keystore Functions
+function parsePlaintextKey(privateKey: string | number[]): Uint8Array {
+  // Handle both base64 encoded and array formats for backward compatibility
+  if (typeof privateKey === 'string') {
+    // New format: base64 encoded 64-byte keypair (32 private + 32 public)
+    return new Uint8Array(Buffer.from(privateKey, 'base64'));
+  } else if (Array.isArray(privateKey)) {
+    // Old format: array of numbers
+    return new Uint8Array(privateKey);
+  }
+  throw new Error('Invalid private key format in config.json');
+}
+
+/**
+ * Any encrypted wallet of the keystore, used to verify the passphrase when unlocking
+ */
+function getKeystoreCheck(configData: ConfigData): { encryptedKey: EncryptedKey; publicKey: string } | undefined {
+  const walletData = Object.values(configData.wallets ?? {}).find(wallet => wallet.encryptedKey);
+  return walletData?.encryptedKey ? { encryptedKey: walletData.encryptedKey, publicKey: walletData.publicKey } : undefined;
+}
+
+/**
+ * Moves every plaintext secret key into the encrypted keystore and returns the wallets that were encrypted
+ */
+export async function encryptPlaintextWallets(): Promise<WalletName[]> {
+  const configData = await loadConfig();
+  const plaintextWallets = Object.entries(configData.wallets ?? {}).filter(([, walletData]) => walletData.privateKey);
+  if (plaintextWallets.length === 0) {
+    return [];
+  }
+
+  const passphrase = await unlockKeystore(getKeystoreCheck(configData));
+  for (const [name, walletData] of plaintextWallets) {
+    const keypairBytes = parsePlaintextKey(walletData.privateKey as string);
+    // Refuse to encrypt a key that would not load afterwards
+    const keypair = await createKeyPairFromBytes(keypairBytes);
+    if (await getAddressFromPublicKey(keypair.publicKey) !== walletData.publicKey) {
+      throw new Error(`Secret key of ${name} does not match its public key ${walletData.publicKey}`);
+    }
+
+    walletData.encryptedKey = await encryptSecretKey(keypairBytes, walletData.publicKey, passphrase);
+    delete walletData.privateKey;
+  }
+
+  await saveConfig(configData);
+  return plaintextWallets.map(([name]) => name);
+}
+
+// Signer Management Functions
 export async function loadAllSignersFromConfig(): Promise<void> {
   try {
-    // Load all wallets to ensure they exist and are valid
-    await loadWalletFromConfig('manager');
-    await loadWalletFromConfig('voter1');
-    await loadWalletFromConfig('voter2');
-    console.log('✅ All signers loaded from config');
+    // Load all signing wallets to ensure they exist and are valid
+    const wallets = await listWallets();
+    // Watch-only wallets alone are enough on a machine that exports transactions for offline signing
+    if (wallets.length === 0) {
+      throw new Error('No wallets in config.json');
+    }
+    const signers = wallets.filter(wallet => !wallet.watchOnly);
+    // Remote signers are only contacted when they sign
+    const localSigners = signers.filter(wallet => wallet.backend !== 'remote');
+    for (const signer of localSigners) {
+      await loadWalletFromConfig(signer.name);
+    }
+
+    const remote = signers.length - localSigners.length;
+    const watchOnly = wallets.length - signers.length;
+    console.log(`✅ ${signers.length} signer(s) loaded from config${remote > 0 ? `, ${remote} remote` : ''}${watchOnly > 0 ? `, ${watchOnly} watch-only` : ''}`);
   } catch (error) {
     throw new Error(`Failed to load signers from config: ${error}`);
   }
 }
 
-// Legacy wallet loading (for backward compatibility)
 export async function loadWalletFromConfig(walletName: WalletName): Promise<CryptoKeyPair> {
+  const keypairBytes = await loadSecretKeyFromConfig(walletName);
+  try {
+    return await createKeyPairFromBytes(keypairBytes);
+  } catch (error) {
+    throw new Error(`Failed to load wallet ${walletName} from config.json: ${error}`);
+  }
+}
+
+/**
+ * Returns the raw 64-byte keypair of a wallet, decrypting it from the keystore if needed
+ */
+export async function loadSecretKeyFromConfig(walletName: WalletName): Promise<Uint8Array> {
   try {
     const configData = await loadConfig();
     
-    if (!configData[walletName]) {
+    const walletData = configData.wallets?.[walletName];
+    if (!walletData) {
       throw new Error(`Wallet ${walletName} not found in config.json`);
     }
     
-    const walletData = configData[walletName];
     let keypairBytes: Uint8Array;
-    
-    // Handle both base64 encoded and array formats for backward compatibility
-    if (typeof walletData.privateKey === 'string') {
-      // New format: base64 encoded 64-byte keypair (32 private + 32 public)
-      keypairBytes = new Uint8Array(Buffer.from(walletData.privateKey, 'base64'));
-    } else if (Array.isArray(walletData.privateKey)) {
-      // Old format: array of numbers
-      keypairBytes = new Uint8Array(walletData.privateKey);
+    if (walletData.encryptedKey) {
+      const passphrase = await unlockKeystore(getKeystoreCheck(configData));
+      keypairBytes = await decryptSecretKey(walletData.encryptedKey, walletData.publicKey, passphrase);
+    } else if (walletData.privateKey) {
+      keypairBytes = parsePlaintextKey(walletData.privateKey);
+    } else if (walletData.remoteSigner) {
+      throw new Error(`Wallet ${walletName} is signed by ${walletData.remoteSigner.url}, its secret key is not in config.json`);
     } else {
-      throw new Error('Invalid private key format in config.json');
+      throw new Error(`Wallet ${walletName} is watch-only and cannot sign`);
     }
     
     // Validate that we have 64 bytes (32 private + 32 public)
@@ -81,42 +248,126 @@ export async function loadWalletFromConfig(walletName: WalletName): Promise<Cryp
       throw new Error(`Invalid keypair length: expected 64 bytes, got ${keypairBytes.length}`);
     }
     
-    return await createKeyPairFromBytes(keypairBytes);
+    return keypairBytes;
   } catch (error) {
     throw new Error(`Failed to load wallet ${walletName} from config.json: ${error}`);
   }
 }
 
-export async function saveKeypairsToConfig(
-  manager: CryptoKeyPair, 
-  voter1: CryptoKeyPair, 
-  voter2: CryptoKeyPair,
-  managerKeypairBytes: Uint8Array,
-  voter1KeypairBytes: Uint8Array,
-  voter2KeypairBytes: Uint8Array
+/**
+ * Returns the signer of a wallet for its backend: the plaintext keypair, the encrypted keystore
+ * or the remote signing service
+ */
+export async function loadSignerFromConfig(walletName: WalletName): Promise<WalletSigner> {
+  const configData = await loadConfig();
+  const walletData = configData.wallets?.[walletName];
+  if (!walletData) {
+    throw new Error(`Wallet ${walletName} not found in config.json`);
+  }
+
+  const walletAddress = address(walletData.publicKey);
+  switch (getSignerBackend(walletData)) {
+    case 'remote':
+      return createRemoteSigner(walletAddress, walletData.remoteSigner!.url);
+    case 'keystore':
+      // Unlock now so a wrong passphrase is reported before any transaction is built
+      await loadWalletFromConfig(walletName);
+      return createKeystoreSigner(walletAddress, () => loadWalletFromConfig(walletName));
+    case 'keypair':
+      return await createKeypairSigner(await loadWalletFromConfig(walletName));
+    default:
+      throw new Error(`Wallet ${walletName} is watch-only and cannot sign`);
+  }
+}
+
+/**
+ * Finds the signing wallet whose address is `walletAddress`, if any
+ */
+export async function findWalletSigner(walletAddress: string): Promise<{ name: WalletName; signer: WalletSigner } | null> {
+  const wallet = (await listSigners()).find(signer => signer.address === walletAddress);
+  if (!wallet) {
+    return null;
+  }
+  return { name: wallet.name, signer: await loadSignerFromConfig(wallet.name) };
+}
+
+export function assertValidWalletName(name: string): void {
+  if (!WALLET_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid wallet name "${name}": use up to 32 letters, digits, "-" or "_"`);
+  }
+}
+
+/**
+ * Adds a new wallet. Pass `keypairBytes` for a signer, or `remoteSigner` for a wallet signed by a
+ * remote service, leave both out for a watch-only wallet
+ * Secret keys go to the encrypted keystore, `plaintext` must be set explicitly to store them unencrypted
+ */
+export async function saveWalletToConfig(
+  name: WalletName,
+  walletAddress: string,
+  roles: WalletRole[] = [],
+  keypairBytes?: Uint8Array,
+  options: { plaintext?: boolean; remoteSigner?: RemoteSignerConfig } = {}
 ): Promise<void> {
-  // Get public key addresses
-  const managerAddress = await getAddressFromPublicKey(manager.publicKey);
-  const voter1Address = await getAddressFromPublicKey(voter1.publicKey);
-  const voter2Address = await getAddressFromPublicKey(voter2.publicKey);
-  
-  const configData = {
-    manager: {
-      privateKey: Buffer.from(managerKeypairBytes).toString('base64'),
-      publicKey: managerAddress
-    },
-    voter1: {
-      privateKey: Buffer.from(voter1KeypairBytes).toString('base64'),
-      publicKey: voter1Address
-    },
-    voter2: {
-      privateKey: Buffer.from(voter2KeypairBytes).toString('base64'),
-      publicKey: voter2Address
-    }
-  };
-  
+  assertValidWalletName(name);
+  if (keypairBytes && options.remoteSigner) {
+    throw new Error(`Wallet ${name} cannot have both a secret key and a remote signer`);
+  }
+
+  let configData: ConfigData = {};
+  if (await checkConfigExists()) {
+    configData = await loadConfig();
+  }
+
+  // Never overwrite a wallet, it may hold the only copy of a secret key
+  if (configData.wallets?.[name]) {
+    throw new Error(`Wallet ${name} already exists in config.json`);
+  }
+
+  const walletData: WalletData = { publicKey: address(walletAddress) };
+  if (keypairBytes && options.plaintext) {
+    console.log(`⚠️  Storing the secret key of ${name} unencrypted`);
+    walletData.privateKey = Buffer.from(keypairBytes).toString('base64');
+  } else if (keypairBytes) {
+    const passphrase = await unlockKeystore(getKeystoreCheck(configData));
+    walletData.encryptedKey = await encryptSecretKey(keypairBytes, walletData.publicKey, passphrase);
+  } else if (options.remoteSigner) {
+    walletData.remoteSigner = options.remoteSigner;
+  }
+  if (roles.length > 0) {
+    walletData.roles = roles;
+  }
+
+  configData.wallets = { ...configData.wallets, [name]: walletData };
+  await saveConfig(configData);
+  console.log(`✅ Wallet ${name} saved to: ${getConfigPath()}`);
+}
+
+export async function setWalletRolesInConfig(name: WalletName, roles: WalletRole[]): Promise<void> {
+  const configData = await loadConfig();
+  const walletData = configData.wallets?.[name];
+  if (!walletData) {
+    throw new Error(`Wallet ${name} not found in config.json`);
+  }
+
+  if (roles.length > 0) {
+    walletData.roles = roles;
+  } else {
+    delete walletData.roles;
+  }
+  await saveConfig(configData);
+  console.log(`✅ Roles of ${name} saved to: ${getConfigPath()}`);
+}
+
+export async function removeWalletFromConfig(name: WalletName): Promise<void> {
+  const configData = await loadConfig();
+  if (!configData.wallets?.[name]) {
+    throw new Error(`Wallet ${name} not found in config.json`);
+  }
+
+  delete configData.wallets[name];
   await saveConfig(configData);
-  console.log(`✅ All keypairs saved to: ${getConfigPath()}`);
+  console.log(`✅ Wallet ${name} removed from: ${getConfigPath()}`);
 }
 
 // Multisig Management Functions
@@ -147,4 +398,34 @@ export async function saveMultisigAddressToConfig(multisigAddress: string): Prom
   // Write updated config
   await saveConfig(configData);
   console.log(`✅ Multisig address saved to: ${getConfigPath()}`);
-}
\ No newline at end of file
+}
+
+// Vault Label Functions
+export async function loadVaultLabelsFromConfig(): Promise<Record<number, string>> {
+  if (!(await checkConfigExists())) {
+    return {};
+  }
+  
+  const configData = await loadConfig();
+  const labels: Record<number, string> = {};
+  for (const [index, label] of Object.entries(configData.vaultLabels || {})) {
+    labels[Number(index)] = label;
+  }
+  return labels;
+}
+
+export async function saveVaultLabelToConfig(vaultIndex: number, label: string): Promise<void> {
+  const configData = await loadConfig();
+  const vaultLabels = { ...configData.vaultLabels };
+  
+  // An empty label removes the entry
+  if (label) {
+    vaultLabels[String(vaultIndex)] = label;
+  } else {
+    delete vaultLabels[String(vaultIndex)];
+  }
+  
+  configData.vaultLabels = vaultLabels;
+  await saveConfig(configData);
+  console.log(`✅ Vault labels saved to: ${getConfigPath()}`);
+}
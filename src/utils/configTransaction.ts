@@ -0,0 +1,253 @@
+/**
+ * Config transaction utilities for autonomous multisigs
+ * Autonomous multisigs have no config authority, so every config change is
+ * proposed as a ConfigTransaction, voted on by members and then executed
+ */
+
+import {
+  getConfigTransactionCreateInstruction,
+  getConfigTransactionExecuteInstruction,
+  getProposalCreateInstruction,
+  getProposalApproveInstruction,
+  getTransactionPda,
+  getProposalPda,
+  getSpendingLimitPda,
+  fetchMultisig,
+  fetchConfigTransaction,
+  type ConfigAction,
+  type ConfigActionArgs,
+} from './squads/index';
+import {
+  AccountRole,
+  address,
+  isSome,
+  type AccountMeta,
+  type Instruction,
+  type TransactionSigner,
+} from '@solana/kit';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import { rpc } from './rpc';
+import { signAndSendOrExport } from './sign';
+import { ensureExecutable } from './timeLock';
+
+// An autonomous multisig stores the default pubkey as its config authority
+export const AUTONOMOUS_CONFIG_AUTHORITY = address('11111111111111111111111111111111');
+
+export function isAutonomousMultisig(configAuthority: string): boolean {
+  return configAuthority === AUTONOMOUS_CONFIG_AUTHORITY;
+}
+
+export function describeConfigAction(action: ConfigAction | ConfigActionArgs): string {
+  switch (action.__kind) {
+    case 'AddMember':
+      return `Add member ${action.newMember.key} (permissions: ${action.newMember.permissions.mask})`;
+    case 'RemoveMember':
+      return `Remove member ${action.oldMember}`;
+    case 'ChangeThreshold':
+      return `Change threshold to ${action.newThreshold}`;
+    case 'SetTimeLock':
+      return `Set time lock to ${action.newTimeLock} seconds`;
+    case 'AddSpendingLimit':
+      return `Add spending limit of ${action.amount} (mint ${action.mint}) on vault ${action.vaultIndex}`;
+    case 'RemoveSpendingLimit':
+      return `Remove spending limit ${action.spendingLimit}`;
+    case 'SetRentCollector': {
+      const collector = action.newRentCollector;
+      const collectorAddress = collector && typeof collector === 'object'
+        ? (isSome(collector) ? collector.value : null)
+        : collector;
+      return `Set rent collector to ${collectorAddress ?? 'None'}`;
+    }
+  }
+}
+
+/**
+ * Spending limit accounts touched by the actions, passed to configTransactionExecute
+ * as writable remaining accounts in the same order as the actions
+ */
+async function getSpendingLimitAccounts(
+  multisigPda: string,
+  actions: ConfigAction[]
+): Promise<AccountMeta[]> {
+  const accounts: AccountMeta[] = [];
+
+  for (const action of actions) {
+    if (action.__kind === 'AddSpendingLimit') {
+      const [spendingLimitPda] = await getSpendingLimitPda(multisigPda, action.createKey, action.vaultIndex);
+      accounts.push({ address: address(spendingLimitPda), role: AccountRole.WRITABLE });
+    } else if (action.__kind === 'RemoveSpendingLimit') {
+      accounts.push({ address: action.spendingLimit, role: AccountRole.WRITABLE });
+    }
+  }
+
+  return accounts;
+}
+
+/**
+ * Proposes the actions as a new config transaction, returning its index
+ * Returns null when the transaction was exported for offline signing instead of sent
+ */
+export async function createConfigTransaction(
+  creator: TransactionSigner,
+  multisigPda: string,
+  actions: ConfigActionArgs[],
+  memo?: string
+): Promise<bigint | null> {
+  console.log('\n📝 Creating config transaction...');
+
+  try {
+    const multisigAccount = await fetchMultisig(rpc, address(multisigPda));
+    const transactionIndex = multisigAccount.data.transactionIndex + 1n;
+
+    const [transactionPda] = await getTransactionPda(multisigPda, transactionIndex);
+    const [proposalPda] = await getProposalPda(multisigPda, transactionIndex);
+
+    const configTransactionIx = getConfigTransactionCreateInstruction({
+      multisig: address(multisigPda),
+      transaction: address(transactionPda),
+      creator,
+      rentPayer: creator,
+      systemProgram: SYSTEM_PROGRAM_ADDRESS,
+      actions,
+      memo: memo || null,
+    });
+
+    const proposalIx = getProposalCreateInstruction({
+      multisig: address(multisigPda),
+      proposal: address(proposalPda),
+      creator,
+      rentPayer: creator,
+      systemProgram: SYSTEM_PROGRAM_ADDRESS,
+      transactionIndex,
+      draft: false,
+    });
+
+    console.log(`📋 Transaction Index: ${transactionIndex}`);
+    console.log(`📋 Config Transaction: ${transactionPda}`);
+    console.log(`📋 Proposal: ${proposalPda}`);
+    console.log('📋 Actions:');
+    actions.forEach((action, index) => {
+      console.log(`   ${index + 1}. ${describeConfigAction(action)}`);
+    });
+
+    const signature = await signAndSendOrExport(
+      [configTransactionIx, proposalIx],
+      creator,
+      [
+        `Propose config transaction #${transactionIndex} on multisig ${multisigPda} as ${creator.address}`,
+        ...actions.map((action, index) => `  ${index + 1}. [Config] ${describeConfigAction(action)}`),
+      ]
+    );
+    if (!signature) {
+      return null;
+    }
+
+    console.log(`✅ Config transaction proposed!`);
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+
+    return transactionIndex;
+  } catch (error) {
+    console.error('❌ Error creating config transaction:', error);
+    throw error;
+  }
+}
+
+/**
+ * Returns false when the approval was exported for offline signing instead of sent
+ */
+export async function approveConfigTransaction(
+  member: TransactionSigner,
+  multisigPda: string,
+  transactionIndex: bigint,
+  memo?: string
+): Promise<boolean> {
+  console.log('\n🗳️  Approving config transaction...');
+
+  try {
+    const [proposalPda] = await getProposalPda(multisigPda, transactionIndex);
+
+    const approveInstruction = getProposalApproveInstruction({
+      multisig: address(multisigPda),
+      proposal: address(proposalPda),
+      member,
+      args: {
+        memo: memo || null,
+      },
+    });
+
+    const signature = await signAndSendOrExport(
+      [approveInstruction],
+      member,
+      [`Approve config transaction #${transactionIndex} on multisig ${multisigPda} as ${member.address}`]
+    );
+    if (!signature) {
+      return false;
+    }
+
+    console.log(`✅ Config transaction #${transactionIndex} approved by ${member.address}`);
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+    return true;
+  } catch (error) {
+    console.error('❌ Error approving config transaction:', error);
+    throw error;
+  }
+}
+
+export async function executeConfigTransaction(
+  executor: TransactionSigner,
+  multisigPda: string,
+  transactionIndex: bigint,
+  wait = false
+): Promise<void> {
+  console.log('\n🚀 Executing config transaction...');
+
+  try {
+    const [transactionPda] = await getTransactionPda(multisigPda, transactionIndex);
+    const [proposalPda] = await getProposalPda(multisigPda, transactionIndex);
+
+    // The multisig's time lock applies to config transactions as well
+    const multisig = await fetchMultisig(rpc, address(multisigPda));
+    await ensureExecutable(multisigPda, transactionIndex, multisig.data.timeLock, wait);
+
+    const configTransaction = await fetchConfigTransaction(rpc, address(transactionPda));
+    const spendingLimitAccounts = await getSpendingLimitAccounts(multisigPda, configTransaction.data.actions);
+
+    const executeInstruction = getConfigTransactionExecuteInstruction({
+      multisig: address(multisigPda),
+      member: executor,
+      proposal: address(proposalPda),
+      transaction: address(transactionPda),
+      rentPayer: executor,
+      systemProgram: SYSTEM_PROGRAM_ADDRESS,
+    });
+
+    // Spending limit accounts are not part of the IDL, append them as remaining accounts
+    const instruction: Instruction<string> = {
+      ...executeInstruction,
+      accounts: [...executeInstruction.accounts, ...spendingLimitAccounts],
+    };
+
+    console.log('📋 Actions:');
+    configTransaction.data.actions.forEach((action, index) => {
+      console.log(`   ${index + 1}. ${describeConfigAction(action)}`);
+    });
+
+    const signature = await signAndSendOrExport(
+      [instruction],
+      executor,
+      [
+        `Execute config transaction #${transactionIndex} on multisig ${multisigPda} as ${executor.address}`,
+        ...configTransaction.data.actions.map((action, index) => `  ${index + 1}. [Config] ${describeConfigAction(action)}`),
+      ]
+    );
+    if (!signature) {
+      return;
+    }
+
+    console.log(`✅ Config transaction #${transactionIndex} executed!`);
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+  } catch (error) {
+    console.error('❌ Error executing config transaction:', error);
+    throw error;
+  }
+}
@@ -9,4 +9,10 @@ export const SOL_MINT = address('So11111111111111111111111111111111111111112');
 
 // USDC mint addresses
 export const USDC_MINT = address('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
-export const USDC_MINT_DEVNET = address('4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU');
\ No newline at end of file
+export const USDC_MINT_DEVNET = address('4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU');
+
+// Token-2022 program, which shares the token account layout and error codes of the Token program
+export const TOKEN_2022_PROGRAM_ADDRESS = address('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+
+// Lamports in one SOL
+export const LAMPORTS_PER_SOL = 1_000_000_000;
@@ -1 +1,8 @@
-export const RPC_URL = process.env.RPC_URL || 'https://api.devnet.solana.com';
\ No newline at end of file
+export const RPC_URL = process.env.RPC_URL || 'https://api.devnet.solana.com';
+
+// Unlocks the encrypted keystore without a prompt, for scripts and CI only
+export const KEYSTORE_PASSPHRASE = process.env.KEYSTORE_PASSPHRASE;
+
+// Shared secret sent to remote signing services and checked by the reference signer server
+export const REMOTE_SIGNER_TOKEN = process.env.REMOTE_SIGNER_TOKEN;
+export const REMOTE_SIGNER_PORT = Number(process.env.REMOTE_SIGNER_PORT || 8787);
@@ -0,0 +1,51 @@
+/**
+ * Ephemeral signer helpers
+ * A vault transaction can declare ephemeral signers: PDAs derived from the transaction PDA
+ * that the program signs for during execution, e.g. for the address of a new mint account.
+ * Instruction builders receive them as an array and refer to them by index
+ */
+
+import { getTransactionPda, getEphemeralSignerPda } from './squads/index';
+
+// The ephemeral signer count is stored as a u8
+export const MAX_EPHEMERAL_SIGNERS = 255;
+
+/**
+ * Derives the ephemeral signer PDAs of the account holding the message, in index order
+ * That is the vault transaction, or the vault batch transaction for batches
+ */
+export async function deriveEphemeralSignerPdas(transactionPda: string, ephemeralSigners: number): Promise<string[]> {
+  if (!Number.isInteger(ephemeralSigners) || ephemeralSigners < 0 || ephemeralSigners > MAX_EPHEMERAL_SIGNERS) {
+    throw new Error(`Invalid ephemeral signer count ${ephemeralSigners}: must be between 0 and ${MAX_EPHEMERAL_SIGNERS}`);
+  }
+
+  const pdas: string[] = [];
+  for (let i = 0; i < ephemeralSigners; i++) {
+    const [ephemeralSignerPda] = await getEphemeralSignerPda(transactionPda, i);
+    pdas.push(ephemeralSignerPda);
+  }
+  return pdas;
+}
+
+/**
+ * Derives the ephemeral signer PDAs of a vault transaction, in index order
+ */
+export async function getEphemeralSignerPdas(
+  multisigPda: string,
+  transactionIndex: bigint,
+  ephemeralSigners: number
+): Promise<string[]> {
+  const [transactionPda] = await getTransactionPda(multisigPda, transactionIndex);
+  return await deriveEphemeralSignerPdas(transactionPda, ephemeralSigners);
+}
+
+export function displayEphemeralSigners(ephemeralSignerPdas: string[]): void {
+  if (ephemeralSignerPdas.length === 0) {
+    return;
+  }
+
+  console.log(`🔑 Ephemeral Signers: ${ephemeralSignerPdas.length}`);
+  ephemeralSignerPdas.forEach((ephemeralSignerPda, index) => {
+    console.log(`   #${index}: ${ephemeralSignerPda}`);
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * Remaining account resolution for executing vault and batch transactions
+ * The execute instructions forward the inner message's accounts to the program as remaining accounts:
+ * lookup tables first, then the static keys, then the writable and readonly looked-up accounts
+ */
+
+import {
+  getVaultTransactionExecuteInstruction,
+  getBatchExecuteTransactionInstruction,
+  getVaultPda,
+  getTransactionPda,
+  getProposalPda,
+  getBatchTransactionPda,
+  fetchVaultTransaction,
+  fetchBatch,
+  fetchVaultBatchTransaction,
+  type VaultTransactionMessage,
+} from './squads/index';
+import {
+  AccountRole,
+  address,
+  type AccountMeta,
+  type Address,
+  type AddressesByLookupTableAddress,
+  type Instruction,
+  type TransactionSigner,
+} from '@solana/kit';
+import { rpc } from './rpc';
+import { fetchLookupTables, resolveMessageAccountKeys } from './lookupTable';
+import { deriveEphemeralSignerPdas } from './ephemeralSigner';
+
+export interface ResolvedExecuteAccounts {
+  remainingAccounts: AccountMeta[];
+  // Lookup tables of the inner message, also used to compress the outer transaction
+  lookupTables: AddressesByLookupTableAddress;
+  ephemeralSignerPdas: string[];
+  // Every account of the inner message, indexed like its compiled instructions
+  accountKeys: Address[];
+}
+
+export interface ExecuteInstruction extends ResolvedExecuteAccounts {
+  instruction: Instruction;
+}
+
+function isStaticWritableIndex(message: VaultTransactionMessage, index: number): boolean {
+  if (index < message.numWritableSigners) {
+    return true;
+  }
+  return index >= message.numSigners && index - message.numSigners < message.numWritableNonSigners;
+}
+
+function toRole(signer: boolean, writable: boolean): AccountRole {
+  if (signer) {
+    return writable ? AccountRole.WRITABLE_SIGNER : AccountRole.READONLY_SIGNER;
+  }
+  return writable ? AccountRole.WRITABLE : AccountRole.READONLY;
+}
+
+/**
+ * Resolves the remaining accounts of a message held by `transactionPda`
+ * The vault and ephemeral signers are signed for by the program, so they are passed as non-signers
+ */
+export async function resolveExecuteAccounts(
+  message: VaultTransactionMessage,
+  transactionPda: string,
+  vaultPda: string,
+  ephemeralSigners: number
+): Promise<ResolvedExecuteAccounts> {
+  const lookupTableAddresses = message.addressTableLookups.map(lookup => lookup.accountKey);
+  const lookupTables = await fetchLookupTables(lookupTableAddresses);
+  const accountKeys = resolveMessageAccountKeys(message, lookupTables);
+  const ephemeralSignerPdas = await deriveEphemeralSignerPdas(transactionPda, ephemeralSigners);
+  const programSigners = new Set<string>([vaultPda, ...ephemeralSignerPdas]);
+
+  const remainingAccounts: AccountMeta[] = lookupTableAddresses.map(lookupTableAddress => ({
+    address: lookupTableAddress,
+    role: AccountRole.READONLY,
+  }));
+
+  message.accountKeys.forEach((accountKey, index) => {
+    const signer = index < message.numSigners && !programSigners.has(accountKey);
+    remainingAccounts.push({
+      address: accountKey,
+      role: toRole(signer, isStaticWritableIndex(message, index)),
+    });
+  });
+
+  // Looked-up accounts follow in message order, writable ones of every table before readonly ones
+  const numWritableLookups = message.addressTableLookups.reduce((total, lookup) => total + lookup.writableIndexes.length, 0);
+  accountKeys.slice(message.accountKeys.length).forEach((accountKey, index) => {
+    remainingAccounts.push({
+      address: accountKey,
+      role: index < numWritableLookups ? AccountRole.WRITABLE : AccountRole.READONLY,
+    });
+  });
+
+  return { remainingAccounts, lookupTables, ephemeralSignerPdas, accountKeys };
+}
+
+/**
+ * Builds vaultTransactionExecute with its remaining accounts resolved from the VaultTransaction account
+ */
+export async function buildVaultTransactionExecute(
+  multisigPda: string,
+  transactionIndex: bigint,
+  member: TransactionSigner
+): Promise<ExecuteInstruction> {
+  const [transactionPda] = await getTransactionPda(multisigPda, transactionIndex);
+  const [proposalPda] = await getProposalPda(multisigPda, transactionIndex);
+
+  const vaultTransaction = await fetchVaultTransaction(rpc, address(transactionPda));
+  const [vaultPda] = await getVaultPda(multisigPda, vaultTransaction.data.vaultIndex);
+
+  const resolved = await resolveExecuteAccounts(
+    vaultTransaction.data.message,
+    transactionPda,
+    vaultPda,
+    vaultTransaction.data.ephemeralSignerBumps.length
+  );
+
+  const executeInstruction = getVaultTransactionExecuteInstruction({
+    multisig: address(multisigPda),
+    proposal: address(proposalPda),
+    transaction: address(transactionPda),
+    member,
+  });
+
+  return {
+    ...resolved,
+    instruction: {
+      ...executeInstruction,
+      accounts: [...executeInstruction.accounts, ...resolved.remainingAccounts],
+    },
+  };
+}
+
+/**
+ * Builds batchExecuteTransaction for one inner transaction of a batch
+ * Ephemeral signers of batch transactions derive from the VaultBatchTransaction account
+ */
+export async function buildBatchExecuteTransaction(
+  multisigPda: string,
+  batchIndex: bigint,
+  transactionIndex: number,
+  member: TransactionSigner
+): Promise<ExecuteInstruction> {
+  const [batchPda] = await getTransactionPda(multisigPda, batchIndex);
+  const [proposalPda] = await getProposalPda(multisigPda, batchIndex);
+  const [batchTransactionPda] = await getBatchTransactionPda(multisigPda, batchIndex, transactionIndex);
+
+  const batch = await fetchBatch(rpc, address(batchPda));
+  const batchTransaction = await fetchVaultBatchTransaction(rpc, address(batchTransactionPda));
+  const [vaultPda] = await getVaultPda(multisigPda, batch.data.vaultIndex);
+
+  const resolved = await resolveExecuteAccounts(
+    batchTransaction.data.message,
+    batchTransactionPda,
+    vaultPda,
+    batchTransaction.data.ephemeralSignerBumps.length
+  );
+
+  const executeInstruction = getBatchExecuteTransactionInstruction({
+    multisig: address(multisigPda),
+    member,
+    proposal: address(proposalPda),
+    batch: address(batchPda),
+    transaction: address(batchTransactionPda),
+  });
+
+  return {
+    ...resolved,
+    instruction: {
+      ...executeInstruction,
+      accounts: [...executeInstruction.accounts, ...resolved.remainingAccounts],
+    },
+  };
+}
@@ -0,0 +1,514 @@
+/**
+ * Human-readable decoding of the instructions inside vault transactions
+ * Compiled instructions are mapped back to their program, accounts and arguments
+ * so members can see what they vote on, e.g. "Transfer 12.5 USDC from vault#0 to 7xK2…aB9c"
+ */
+
+import {
+  SquadsMultisigProgramInstruction,
+  SQUADS_MULTISIG_PROGRAM_PROGRAM_ADDRESS,
+  fetchBatch,
+  fetchConfigTransaction,
+  fetchVaultBatchTransaction,
+  fetchVaultTransaction,
+  getBatchTransactionPda,
+  getTransactionPda,
+  getVaultPda,
+  type VaultTransactionMessage,
+} from './squads/index';
+import {
+  AccountRole,
+  address,
+  getUtf8Decoder,
+  isOption,
+  isSome,
+  type Address,
+  type Instruction,
+  type InstructionWithAccounts,
+  type InstructionWithData,
+  type AccountMeta,
+  type ReadonlyUint8Array,
+} from '@solana/kit';
+import {
+  SYSTEM_PROGRAM_ADDRESS,
+  SystemInstruction,
+  identifySystemInstruction,
+  parseCreateAccountInstruction,
+  parseTransferSolInstruction,
+} from '@solana-program/system';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+  AssociatedTokenInstruction,
+  TOKEN_PROGRAM_ADDRESS,
+  TokenInstruction,
+  AuthorityType,
+  fetchMaybeToken,
+  identifyAssociatedTokenInstruction,
+  identifyTokenInstruction,
+  parseApproveInstruction,
+  parseBurnCheckedInstruction,
+  parseBurnInstruction,
+  parseCloseAccountInstruction,
+  parseCreateAssociatedTokenIdempotentInstruction,
+  parseCreateAssociatedTokenInstruction,
+  parseInitializeMint2Instruction,
+  parseInitializeMintInstruction,
+  parseMintToCheckedInstruction,
+  parseMintToInstruction,
+  parseSetAuthorityInstruction,
+  parseTransferCheckedInstruction,
+  parseTransferInstruction,
+} from '@solana-program/token';
+import {
+  COMPUTE_BUDGET_PROGRAM_ADDRESS,
+  ComputeBudgetInstruction,
+  identifyComputeBudgetInstruction,
+  parseRequestHeapFrameInstruction,
+  parseSetComputeUnitLimitInstruction,
+  parseSetComputeUnitPriceInstruction,
+  parseSetLoadedAccountsDataSizeLimitInstruction,
+} from '@solana-program/compute-budget';
+import { rpc } from './rpc';
+import { getMintInfo } from './getMint';
+import { SOL_MINT, TOKEN_2022_PROGRAM_ADDRESS, USDC_MINT, USDC_MINT_DEVNET } from './constants';
+import { fetchMessageAccountKeys } from './lookupTable';
+import { deriveEphemeralSignerPdas } from './ephemeralSigner';
+import { describeConfigAction } from './configTransaction';
+import { detectTransactionAccountKind } from './rentCleanup';
+import { parseSquadsMultisigProgramInstruction } from './squadsInstruction';
+
+export const MEMO_PROGRAM_ADDRESS = address('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+const MEMO_V1_PROGRAM_ADDRESS = address('Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo');
+
+const PROGRAM_NAMES: Record<string, string> = {
+  [SYSTEM_PROGRAM_ADDRESS]: 'System',
+  [TOKEN_PROGRAM_ADDRESS]: 'Token',
+  [TOKEN_2022_PROGRAM_ADDRESS]: 'Token-2022',
+  [ASSOCIATED_TOKEN_PROGRAM_ADDRESS]: 'Associated Token',
+  [COMPUTE_BUDGET_PROGRAM_ADDRESS]: 'Compute Budget',
+  [MEMO_PROGRAM_ADDRESS]: 'Memo',
+  [MEMO_V1_PROGRAM_ADDRESS]: 'Memo',
+  [SQUADS_MULTISIG_PROGRAM_PROGRAM_ADDRESS]: 'Squads',
+};
+
+export interface DecodedInstruction {
+  program: string;
+  summary: string;
+}
+
+interface TokenAccountInfo {
+  owner: Address;
+  mint: Address;
+}
+
+export interface MintDisplay {
+  decimals: number;
+  symbol: string;
+}
+
+/**
+ * Labels for well-known addresses plus caches shared by the instructions of one message
+ */
+export interface DecodeContext {
+  labels: Map<string, string>;
+  tokenAccounts: Map<string, TokenAccountInfo | null>;
+  mints: Map<string, MintDisplay | null>;
+}
+
+type ParsableInstruction = Instruction & InstructionWithAccounts<readonly AccountMeta[]> & InstructionWithData<ReadonlyUint8Array>;
+
+export function createDecodeContext(labels: Map<string, string> = new Map()): DecodeContext {
+  return { labels, tokenAccounts: new Map(), mints: new Map() };
+}
+
+export function shortenAddress(account: string): string {
+  return `${account.slice(0, 4)}…${account.slice(-4)}`;
+}
+
+function formatAddress(context: DecodeContext, account: string): string {
+  return context.labels.get(account) ?? shortenAddress(account);
+}
+
+export function formatTokenAmount(amount: bigint, decimals: number): string {
+  const divisor = 10n ** BigInt(decimals);
+  const whole = amount / divisor;
+  const fraction = (amount % divisor).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : `${whole}`;
+}
+
+function formatSol(lamports: bigint): string {
+  return `${formatTokenAmount(lamports, 9)} SOL`;
+}
+
+function splitWords(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+}
+
+export async function getMintDisplay(context: DecodeContext, mint: string): Promise<MintDisplay | null> {
+  if (!context.mints.has(mint)) {
+    const mintInfo = await getMintInfo(mint);
+    const symbol = mint === USDC_MINT || mint === USDC_MINT_DEVNET ? 'USDC'
+      : mint === SOL_MINT ? 'wSOL'
+      : `tokens of ${formatAddress(context, mint)}`;
+    context.mints.set(mint, mintInfo ? { decimals: mintInfo.data.decimals, symbol } : null);
+  }
+  return context.mints.get(mint) ?? null;
+}
+
+async function getTokenAccount(context: DecodeContext, account: string): Promise<TokenAccountInfo | null> {
+  if (!context.tokenAccounts.has(account)) {
+    try {
+      const tokenAccount = await fetchMaybeToken(rpc, address(account));
+      context.tokenAccounts.set(account, tokenAccount.exists
+        ? { owner: tokenAccount.data.owner, mint: tokenAccount.data.mint }
+        : null);
+    } catch (error) {
+      context.tokenAccounts.set(account, null);
+    }
+  }
+  return context.tokenAccounts.get(account) ?? null;
+}
+
+async function formatAmount(context: DecodeContext, amount: bigint, mint: string | undefined, decimals?: number): Promise<string> {
+  const mintDisplay = mint ? await getMintDisplay(context, mint) : null;
+  const resolvedDecimals = decimals ?? mintDisplay?.decimals;
+  const value = resolvedDecimals === undefined ? `${amount}` : formatTokenAmount(amount, resolvedDecimals);
+  return `${value} ${mintDisplay?.symbol ?? (mint ? `tokens of ${formatAddress(context, mint)}` : 'base units')}`;
+}
+
+/**
+ * Token accounts are shown as their owner, so the vault's ATA reads as the vault
+ */
+async function formatTokenAccount(context: DecodeContext, account: string): Promise<string> {
+  if (context.labels.has(account)) {
+    return formatAddress(context, account);
+  }
+  const tokenAccount = await getTokenAccount(context, account);
+  return tokenAccount ? formatAddress(context, tokenAccount.owner) : formatAddress(context, account);
+}
+
+function decodeSystem(instruction: ParsableInstruction, context: DecodeContext): string {
+  const instructionType = identifySystemInstruction(instruction);
+  switch (instructionType) {
+    case SystemInstruction.TransferSol: {
+      const parsed = parseTransferSolInstruction(instruction);
+      return `Transfer ${formatSol(parsed.data.amount)} from ${formatAddress(context, parsed.accounts.source.address)} to ${formatAddress(context, parsed.accounts.destination.address)}`;
+    }
+    case SystemInstruction.CreateAccount: {
+      const parsed = parseCreateAccountInstruction(instruction);
+      return `Create account ${formatAddress(context, parsed.accounts.newAccount.address)} (${parsed.data.space} bytes, ${formatSol(parsed.data.lamports)}) owned by ${formatAddress(context, parsed.data.programAddress)}, paid by ${formatAddress(context, parsed.accounts.payer.address)}`;
+    }
+    default:
+      return splitWords(SystemInstruction[instructionType]);
+  }
+}
+
+async function decodeToken(instruction: ParsableInstruction, context: DecodeContext): Promise<string> {
+  let instructionType: TokenInstruction;
+  try {
+    instructionType = identifyTokenInstruction(instruction);
+  } catch (error) {
+    // Token-2022 extension instructions have no counterpart in the Token program
+    return `Extension instruction #${instruction.data[0]}`;
+  }
+
+  switch (instructionType) {
+    case TokenInstruction.Transfer: {
+      const parsed = parseTransferInstruction(instruction);
+      const source = await getTokenAccount(context, parsed.accounts.source.address);
+      const amount = await formatAmount(context, parsed.data.amount, source?.mint);
+      return `Transfer ${amount} from ${await formatTokenAccount(context, parsed.accounts.source.address)} to ${await formatTokenAccount(context, parsed.accounts.destination.address)}`;
+    }
+    case TokenInstruction.TransferChecked: {
+      const parsed = parseTransferCheckedInstruction(instruction);
+      const amount = await formatAmount(context, parsed.data.amount, parsed.accounts.mint.address, parsed.data.decimals);
+      return `Transfer ${amount} from ${await formatTokenAccount(context, parsed.accounts.source.address)} to ${await formatTokenAccount(context, parsed.accounts.destination.address)}`;
+    }
+    case TokenInstruction.MintTo: {
+      const parsed = parseMintToInstruction(instruction);
+      const amount = await formatAmount(context, parsed.data.amount, parsed.accounts.mint.address);
+      return `Mint ${amount} to ${await formatTokenAccount(context, parsed.accounts.token.address)}`;
+    }
+    case TokenInstruction.MintToChecked: {
+      const parsed = parseMintToCheckedInstruction(instruction);
+      const amount = await formatAmount(context, parsed.data.amount, parsed.accounts.mint.address, parsed.data.decimals);
+      return `Mint ${amount} to ${await formatTokenAccount(context, parsed.accounts.token.address)}`;
+    }
+    case TokenInstruction.Burn: {
+      const parsed = parseBurnInstruction(instruction);
+      const amount = await formatAmount(context, parsed.data.amount, parsed.accounts.mint.address);
+      return `Burn ${amount} from ${await formatTokenAccount(context, parsed.accounts.account.address)}`;
+    }
+    case TokenInstruction.BurnChecked: {
+      const parsed = parseBurnCheckedInstruction(instruction);
+      const amount = await formatAmount(context, parsed.data.amount, parsed.accounts.mint.address, parsed.data.decimals);
+      return `Burn ${amount} from ${await formatTokenAccount(context, parsed.accounts.account.address)}`;
+    }
+    case TokenInstruction.InitializeMint:
+    case TokenInstruction.InitializeMint2: {
+      const parsed = instructionType === TokenInstruction.InitializeMint
+        ? parseInitializeMintInstruction(instruction)
+        : parseInitializeMint2Instruction(instruction);
+      const freezeAuthority = isSome(parsed.data.freezeAuthority)
+        ? `, freeze authority ${formatAddress(context, parsed.data.freezeAuthority.value)}`
+        : '';
+      return `Initialize mint ${formatAddress(context, parsed.accounts.mint.address)} with ${parsed.data.decimals} decimals, mint authority ${formatAddress(context, parsed.data.mintAuthority)}${freezeAuthority}`;
+    }
+    case TokenInstruction.CloseAccount: {
+      const parsed = parseCloseAccountInstruction(instruction);
+      return `Close token account ${formatAddress(context, parsed.accounts.account.address)}, rent to ${formatAddress(context, parsed.accounts.destination.address)}`;
+    }
+    case TokenInstruction.Approve: {
+      const parsed = parseApproveInstruction(instruction);
+      const source = await getTokenAccount(context, parsed.accounts.source.address);
+      const amount = await formatAmount(context, parsed.data.amount, source?.mint);
+      return `Approve ${formatAddress(context, parsed.accounts.delegate.address)} to spend ${amount} from ${await formatTokenAccount(context, parsed.accounts.source.address)}`;
+    }
+    case TokenInstruction.SetAuthority: {
+      const parsed = parseSetAuthorityInstruction(instruction);
+      const newAuthority = isSome(parsed.data.newAuthority) ? formatAddress(context, parsed.data.newAuthority.value) : 'None';
+      return `Set ${splitWords(AuthorityType[parsed.data.authorityType])} of ${formatAddress(context, parsed.accounts.owned.address)} to ${newAuthority}`;
+    }
+    default:
+      return splitWords(TokenInstruction[instructionType]);
+  }
+}
+
+function decodeAssociatedToken(instruction: ParsableInstruction, context: DecodeContext): string {
+  // The original Create instruction has no data at all
+  const instructionType = instruction.data.length === 0
+    ? AssociatedTokenInstruction.CreateAssociatedToken
+    : identifyAssociatedTokenInstruction(instruction);
+
+  switch (instructionType) {
+    case AssociatedTokenInstruction.CreateAssociatedToken:
+    case AssociatedTokenInstruction.CreateAssociatedTokenIdempotent: {
+      const parsed = instructionType === AssociatedTokenInstruction.CreateAssociatedToken
+        ? parseCreateAssociatedTokenInstruction(instruction)
+        : parseCreateAssociatedTokenIdempotentInstruction(instruction);
+      const mint = parsed.accounts.mint.address;
+      const symbol = context.mints.get(mint)?.symbol ?? formatAddress(context, mint);
+      const idempotent = instructionType === AssociatedTokenInstruction.CreateAssociatedTokenIdempotent ? ' (if missing)' : '';
+      return `Create ${symbol} account of ${formatAddress(context, parsed.accounts.owner.address)}${idempotent}, paid by ${formatAddress(context, parsed.accounts.payer.address)}`;
+    }
+    default:
+      return splitWords(AssociatedTokenInstruction[instructionType]);
+  }
+}
+
+function decodeComputeBudget(instruction: ParsableInstruction): string {
+  const instructionType = identifyComputeBudgetInstruction(instruction);
+  switch (instructionType) {
+    case ComputeBudgetInstruction.SetComputeUnitLimit:
+      return `Set compute unit limit to ${parseSetComputeUnitLimitInstruction(instruction).data.units}`;
+    case ComputeBudgetInstruction.SetComputeUnitPrice:
+      return `Set priority fee to ${parseSetComputeUnitPriceInstruction(instruction).data.microLamports} micro-lamports per compute unit`;
+    case ComputeBudgetInstruction.RequestHeapFrame:
+      return `Request a ${parseRequestHeapFrameInstruction(instruction).data.bytes} byte heap frame`;
+    case ComputeBudgetInstruction.SetLoadedAccountsDataSizeLimit:
+      return `Set loaded accounts data size limit to ${parseSetLoadedAccountsDataSizeLimitInstruction(instruction).data.accountDataSizeLimit} bytes`;
+    default:
+      return splitWords(ComputeBudgetInstruction[instructionType]);
+  }
+}
+
+function formatArgument(context: DecodeContext, value: unknown): string {
+  if (typeof value === 'bigint' || typeof value === 'number' || typeof value === 'boolean') {
+    return `${value}`;
+  }
+  if (typeof value === 'string') {
+    return context.labels.get(value) ?? (value.length >= 32 ? shortenAddress(value) : value);
+  }
+  if (value instanceof Uint8Array) {
+    return `<${value.length} bytes>`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => formatArgument(context, item)).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    if (isOption(value)) {
+      return isSome(value) ? formatArgument(context, value.value) : 'None';
+    }
+    const entries = Object.entries(value).map(([key, entry]) => `${key}: ${formatArgument(context, entry)}`);
+    return `{ ${entries.join(', ')} }`;
+  }
+  return 'None';
+}
+
+function decodeSquads(instruction: ParsableInstruction, context: DecodeContext): string {
+  const parsed = parseSquadsMultisigProgramInstruction(instruction);
+  const name = splitWords(SquadsMultisigProgramInstruction[parsed.instructionType]);
+  const args = Object.entries(parsed.data)
+    .filter(([key]) => key !== 'discriminator')
+    .map(([key, value]) => `${key}: ${formatArgument(context, value)}`);
+  return args.length > 0 ? `${name} (${args.join(', ')})` : name;
+}
+
+async function decodeInstruction(instruction: ParsableInstruction, context: DecodeContext): Promise<DecodedInstruction> {
+  const programAddress = instruction.programAddress;
+  const program = PROGRAM_NAMES[programAddress] ?? `Program ${shortenAddress(programAddress)}`;
+
+  try {
+    switch (programAddress) {
+      case SYSTEM_PROGRAM_ADDRESS:
+        return { program, summary: decodeSystem(instruction, context) };
+      case TOKEN_PROGRAM_ADDRESS:
+      case TOKEN_2022_PROGRAM_ADDRESS:
+        return { program, summary: await decodeToken(instruction, context) };
+      case ASSOCIATED_TOKEN_PROGRAM_ADDRESS:
+        return { program, summary: decodeAssociatedToken(instruction, context) };
+      case COMPUTE_BUDGET_PROGRAM_ADDRESS:
+        return { program, summary: decodeComputeBudget(instruction) };
+      case MEMO_PROGRAM_ADDRESS:
+      case MEMO_V1_PROGRAM_ADDRESS:
+        return { program, summary: `Memo "${getUtf8Decoder().decode(instruction.data)}"` };
+      case SQUADS_MULTISIG_PROGRAM_PROGRAM_ADDRESS:
+        return { program, summary: decodeSquads(instruction, context) };
+    }
+  } catch (error) {
+    // Fall through to the raw description when the data doesn't match the program's layout
+  }
+
+  return {
+    program,
+    summary: `Unknown instruction (${instruction.accounts.length} accounts, ${instruction.data.length} bytes of data)`,
+  };
+}
+
+/**
+ * Rebuilds Kit instructions from a compiled message, roles don't matter for decoding
+ */
+function toInstructions(message: VaultTransactionMessage, accountKeys: Address[]): ParsableInstruction[] {
+  return message.instructions.map(compiled => {
+    const programAddress = accountKeys[compiled.programIdIndex];
+    if (!programAddress) {
+      throw new Error(`Program index ${compiled.programIdIndex} is out of range`);
+    }
+    return {
+      programAddress,
+      accounts: [...compiled.accountIndexes].map(index => {
+        const account = accountKeys[index];
+        if (!account) {
+          throw new Error(`Account index ${index} is out of range`);
+        }
+        return { address: account, role: AccountRole.READONLY };
+      }),
+      data: compiled.data,
+    };
+  });
+}
+
+export async function decodeInstructions(
+  message: VaultTransactionMessage,
+  accountKeys: Address[],
+  context: DecodeContext = createDecodeContext()
+): Promise<DecodedInstruction[]> {
+  const instructions = toInstructions(message, accountKeys);
+
+  // Token accounts created in the same message don't exist yet, remember their owner and mint up front
+  for (const instruction of instructions) {
+    if (instruction.programAddress !== ASSOCIATED_TOKEN_PROGRAM_ADDRESS || instruction.accounts.length < 4) {
+      continue;
+    }
+    const [, ata, owner, mint] = instruction.accounts;
+    if (ata && owner && mint) {
+      context.tokenAccounts.set(ata.address, { owner: owner.address, mint: mint.address });
+      await getMintDisplay(context, mint.address);
+    }
+  }
+
+  const decoded: DecodedInstruction[] = [];
+  for (const instruction of instructions) {
+    decoded.push(await decodeInstruction(instruction, context));
+  }
+  return decoded;
+}
+
+export function formatDecodedInstructions(decoded: DecodedInstruction[]): string {
+  if (decoded.length === 0) {
+    return '  No instructions';
+  }
+  return decoded.map((instruction, i) => `  ${i + 1}. [${instruction.program}] ${instruction.summary}`).join('\n');
+}
+
+/**
+ * Labels the vault and ephemeral signers of a message, the accounts reviewers care about most
+ */
+export async function getMessageLabels(
+  multisigPda: string,
+  vaultIndex: number,
+  transactionPda: string,
+  ephemeralSigners: number
+): Promise<Map<string, string>> {
+  const [vaultPda] = await getVaultPda(multisigPda, vaultIndex);
+  const labels = new Map<string, string>([
+    [multisigPda, 'multisig'],
+    [vaultPda, `vault#${vaultIndex}`],
+  ]);
+
+  const ephemeralSignerPdas = await deriveEphemeralSignerPdas(transactionPda, ephemeralSigners);
+  ephemeralSignerPdas.forEach((ephemeralSignerPda, index) => {
+    labels.set(ephemeralSignerPda, `ephemeral#${index}`);
+  });
+  return labels;
+}
+
+/**
+ * Decoded instructions of the vault transaction, config transaction or batch at an index
+ */
+export async function describeTransaction(multisigPda: string, transactionIndex: bigint): Promise<string> {
+  const kind = await detectTransactionAccountKind(multisigPda, transactionIndex);
+  const [transactionPda] = await getTransactionPda(multisigPda, transactionIndex);
+
+  switch (kind) {
+    case 'vault': {
+      const vaultTransaction = await fetchVaultTransaction(rpc, address(transactionPda));
+      const { message, vaultIndex, ephemeralSignerBumps } = vaultTransaction.data;
+      const labels = await getMessageLabels(multisigPda, vaultIndex, transactionPda, ephemeralSignerBumps.length);
+      const accountKeys = await fetchMessageAccountKeys(message);
+      return formatDecodedInstructions(await decodeInstructions(message, accountKeys, createDecodeContext(labels)));
+    }
+    case 'config': {
+      const configTransaction = await fetchConfigTransaction(rpc, address(transactionPda));
+      return configTransaction.data.actions
+        .map((action, i) => `  ${i + 1}. [Config] ${describeConfigAction(action)}`)
+        .join('\n');
+    }
+    case 'batch': {
+      const batch = await fetchBatch(rpc, address(transactionPda));
+      const sections: string[] = [];
+      for (let index = 1; index <= batch.data.size; index++) {
+        const [batchTransactionPda] = await getBatchTransactionPda(multisigPda, transactionIndex, index);
+        const batchTransaction = await fetchVaultBatchTransaction(rpc, address(batchTransactionPda));
+        const { message, ephemeralSignerBumps } = batchTransaction.data;
+        const labels = await getMessageLabels(multisigPda, batch.data.vaultIndex, batchTransactionPda, ephemeralSignerBumps.length);
+        const accountKeys = await fetchMessageAccountKeys(message);
+        const decoded = await decodeInstructions(message, accountKeys, createDecodeContext(labels));
+        sections.push(`  Transaction ${index}/${batch.data.size}:\n${formatDecodedInstructions(decoded).replace(/^/gm, '  ')}`);
+      }
+      return sections.length > 0 ? sections.join('\n') : '  Empty batch';
+    }
+    default:
+      return '  Transaction account not found (closed or never created)';
+  }
+}
+
+/**
+ * Like describeTransaction, but a transaction that cannot be decoded is described instead of throwing
+ */
+export async function tryDescribeTransaction(multisigPda: string, transactionIndex: bigint): Promise<string> {
+  try {
+    return await describeTransaction(multisigPda, transactionIndex);
+  } catch (error) {
+    return `  Could not decode transaction #${transactionIndex}: ${error instanceof Error ? error.message : error}`;
+  }
+}
+
+export async function displayTransactionInstructions(multisigPda: string, transactionIndex: bigint): Promise<void> {
+  try {
+    console.log(`\n🔍 Transaction #${transactionIndex} will:`);
+    console.log(await describeTransaction(multisigPda, transactionIndex));
+  } catch (error) {
+    console.log(`⚠️  Could not decode transaction #${transactionIndex}: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Encrypted keystore for the secret keys in config.json
+ * Each wallet is encrypted with AES-256-GCM under a key derived from one passphrase with PBKDF2,
+ * using its own salt and its public key as additional data so ciphertexts cannot be swapped between wallets
+ */
+
+import type { EncryptedKey } from './types';
+import { KEYSTORE_PASSPHRASE } from './env';
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Unlocked once per session, the passphrase is only kept in memory
+let sessionPassphrase: string | undefined;
+// Deriving a key takes a noticeable moment, so keys are reused per salt within the session
+const derivedKeys = new Map<string, CryptoKey>();
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const cacheKey = `${Buffer.from(salt).toString('base64')}:${iterations}`;
+  const cached = passphrase === sessionPassphrase ? derivedKeys.get(cacheKey) : undefined;
+  if (cached) {
+    return cached;
+  }
+
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+
+  if (passphrase === sessionPassphrase) {
+    derivedKeys.set(cacheKey, key);
+  }
+  return key;
+}
+
+export async function encryptSecretKey(
+  keypairBytes: Uint8Array,
+  publicKey: string,
+  passphrase: string
+): Promise<EncryptedKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(publicKey) },
+    key,
+    keypairBytes
+  );
+
+  return {
+    kdf: 'pbkdf2-sha256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: Buffer.from(salt).toString('base64'),
+    iv: Buffer.from(iv).toString('base64'),
+    ciphertext: Buffer.from(ciphertext).toString('base64'),
+  };
+}
+
+export async function decryptSecretKey(
+  encryptedKey: EncryptedKey,
+  publicKey: string,
+  passphrase: string
+): Promise<Uint8Array> {
+  if (encryptedKey.kdf !== 'pbkdf2-sha256') {
+    throw new Error(`Unsupported keystore KDF "${encryptedKey.kdf}"`);
+  }
+
+  const salt = new Uint8Array(Buffer.from(encryptedKey.salt, 'base64'));
+  const key = await deriveKey(passphrase, salt, encryptedKey.iterations);
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: new Uint8Array(Buffer.from(encryptedKey.iv, 'base64')),
+        additionalData: new TextEncoder().encode(publicKey),
+      },
+      key,
+      new Uint8Array(Buffer.from(encryptedKey.ciphertext, 'base64'))
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    // GCM authentication fails the same way for a wrong passphrase and a tampered ciphertext
+    throw new Error('Wrong keystore passphrase or corrupted key');
+  }
+}
+
+/**
+ * Reads a line without echoing it when stdin is a terminal
+ */
+async function readPassphrase(question: string): Promise<string> {
+  process.stdout.write(question);
+
+  if (!process.stdin.isTTY) {
+    return new Promise((resolve) => {
+      process.stdin.once('data', (data) => resolve(data.toString().trim()));
+    });
+  }
+
+  process.stdin.setRawMode(true);
+  return new Promise((resolve, reject) => {
+    let input = '';
+    const onData = (data: Buffer) => {
+      for (const char of data.toString()) {
+        if (char === '\r' || char === '\n') {
+          process.stdin.setRawMode(false);
+          process.stdin.off('data', onData);
+          process.stdout.write('\n');
+          resolve(input);
+          return;
+        }
+        if (char === '\u0003') {
+          process.stdin.setRawMode(false);
+          process.stdin.off('data', onData);
+          process.stdout.write('\n');
+          reject(new Error('Passphrase entry cancelled'));
+          return;
+        }
+        if (char === '\u007f' || char === '\b') {
+          input = input.slice(0, -1);
+        } else {
+          input += char;
+        }
+      }
+    };
+    process.stdin.on('data', onData);
+  });
+}
+
+/**
+ * Returns the session passphrase, prompting for it on first use
+ * With `check`, the passphrase is verified by decrypting an existing wallet of the keystore.
+ * Without it the keystore is new, so the passphrase is asked twice
+ */
+export async function unlockKeystore(check?: { encryptedKey: EncryptedKey; publicKey: string }): Promise<string> {
+  if (sessionPassphrase !== undefined) {
+    return sessionPassphrase;
+  }
+
+  let passphrase: string;
+  if (KEYSTORE_PASSPHRASE !== undefined) {
+    passphrase = KEYSTORE_PASSPHRASE;
+  } else if (check) {
+    passphrase = await readPassphrase('🔐 Enter keystore passphrase: ');
+  } else {
+    console.log('🔐 Choose a passphrase to encrypt the secret keys in config.json');
+    passphrase = await readPassphrase('🔐 New keystore passphrase: ');
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Keystore passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    if (await readPassphrase('🔐 Repeat the passphrase: ') !== passphrase) {
+      throw new Error('Passphrases do not match');
+    }
+  }
+
+  sessionPassphrase = passphrase;
+  if (check) {
+    try {
+      await decryptSecretKey(check.encryptedKey, check.publicKey, passphrase);
+    } catch (error) {
+      sessionPassphrase = undefined;
+      derivedKeys.clear();
+      throw error;
+    }
+  }
+
+  console.log('🔓 Keystore unlocked for this session');
+  return passphrase;
+}
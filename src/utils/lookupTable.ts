@@ -0,0 +1,74 @@
+/**
+ * Address lookup table helpers
+ * Vault transaction messages can load extra accounts from address lookup tables,
+ * which have to be resolved to know every account the transaction touches
+ */
+
+import {
+  address,
+  fetchAddressesForLookupTables,
+  type Address,
+  type AddressesByLookupTableAddress,
+} from '@solana/kit';
+import type { VaultTransactionMessage } from './squads/index';
+import { rpc } from './rpc';
+import { prompt } from './prompt';
+
+export function parseLookupTableAddresses(input: string): Address[] {
+  const entries = input.split(/[\s,]+/).filter(entry => entry.length > 0);
+  return [...new Set(entries)].map(entry => address(entry));
+}
+
+export async function promptLookupTables(): Promise<Address[]> {
+  const input = await prompt('Enter address lookup tables, comma separated (optional): ');
+  const lookupTableAddresses = parseLookupTableAddresses(input);
+  if (lookupTableAddresses.length > 0) {
+    console.log(`🔎 Using ${lookupTableAddresses.length} address lookup table(s)`);
+  }
+  return lookupTableAddresses;
+}
+
+export async function fetchLookupTables(lookupTableAddresses: Address[]): Promise<AddressesByLookupTableAddress> {
+  if (lookupTableAddresses.length === 0) {
+    return {};
+  }
+  return await fetchAddressesForLookupTables(lookupTableAddresses, rpc);
+}
+
+/**
+ * Full account list of a vault transaction message, indexed like the compiled instructions:
+ * static keys, then writable accounts of every lookup, then readonly accounts of every lookup
+ */
+export function resolveMessageAccountKeys(
+  message: VaultTransactionMessage,
+  lookupTables: AddressesByLookupTableAddress
+): Address[] {
+  const writable: Address[] = [];
+  const readonly: Address[] = [];
+
+  for (const lookup of message.addressTableLookups) {
+    const addresses = lookupTables[lookup.accountKey];
+    if (!addresses) {
+      throw new Error(`Address lookup table ${lookup.accountKey} not found`);
+    }
+
+    const load = (indexes: Iterable<number>, target: Address[]) => {
+      for (const index of indexes) {
+        const loaded = addresses[index];
+        if (!loaded) {
+          throw new Error(`Address lookup table ${lookup.accountKey} has no entry at index ${index}`);
+        }
+        target.push(loaded);
+      }
+    };
+    load(lookup.writableIndexes, writable);
+    load(lookup.readonlyIndexes, readonly);
+  }
+
+  return [...message.accountKeys, ...writable, ...readonly];
+}
+
+export async function fetchMessageAccountKeys(message: VaultTransactionMessage): Promise<Address[]> {
+  const lookupTables = await fetchLookupTables(message.addressTableLookups.map(lookup => lookup.accountKey));
+  return resolveMessageAccountKeys(message, lookupTables);
+}
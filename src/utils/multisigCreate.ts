@@ -0,0 +1,133 @@
+/**
+ * Multisig creation shared by the setup script and the creation wizard
+ * Settings are validated against the program's invariants before anything is sent,
+ * and the creation fee is read from the ProgramConfig account
+ */
+
+import {
+  getMultisigCreateV2Instruction,
+  getMultisigPda,
+  type MemberArgs,
+} from './squads/index';
+import {
+  address,
+  generateKeyPairSigner,
+  type Address,
+  type TransactionSigner,
+} from '@solana/kit';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import { rpc } from './rpc';
+import { signAndSendTransaction } from './sign';
+import { fetchProgramConfigEntry, formatLamportsAsSol, type ProgramConfigEntry } from './programConfig';
+import { assertValidMembers, assertValidThreshold, assertValidTimeLock, describePermissions } from './validation';
+
+export interface MultisigSettings {
+  members: MemberArgs[];
+  threshold: number;
+  timeLock: number;
+  // null disables rent reclamation
+  rentCollector: Address | null;
+  // null creates an autonomous multisig, where config changes are voted on
+  configAuthority: Address | null;
+  memo?: string;
+}
+
+export interface MultisigCreationCost {
+  fee: bigint;
+  rent: bigint;
+  total: bigint;
+}
+
+// Multisig::size: fixed fields (rent collector always takes 32 bytes) plus 33 bytes per member
+const MULTISIG_BASE_SIZE = 8 + 32 + 32 + 2 + 4 + 8 + 8 + 1 + 32 + 1 + 4;
+const MEMBER_SIZE = 32 + 1;
+
+export function getMultisigAccountSize(memberCount: number): number {
+  return MULTISIG_BASE_SIZE + memberCount * MEMBER_SIZE;
+}
+
+export function assertValidMultisigSettings(settings: MultisigSettings): void {
+  assertValidMembers(settings.members);
+  assertValidThreshold(settings.threshold, settings.members);
+  assertValidTimeLock(settings.timeLock);
+}
+
+export async function getMultisigCreationCost(
+  programConfig: ProgramConfigEntry,
+  memberCount: number
+): Promise<MultisigCreationCost> {
+  if (!programConfig.data) {
+    throw new Error(`Program config ${programConfig.address} is not initialized. Run the "Program Config Admin" command first.`);
+  }
+
+  const fee = programConfig.data.multisigCreationFee;
+  const rent = await rpc.getMinimumBalanceForRentExemption(BigInt(getMultisigAccountSize(memberCount))).send();
+  return { fee, rent, total: fee + rent };
+}
+
+export function displayMultisigSettings(settings: MultisigSettings): void {
+  console.log(`👥 Members (${settings.members.length}):`);
+  settings.members.forEach((member, index) => {
+    console.log(`   ${index + 1}. ${member.key} - ${describePermissions(member.permissions.mask)}`);
+  });
+  console.log(`🎯 Threshold: ${settings.threshold}`);
+  console.log(`⏳ Time Lock: ${settings.timeLock} seconds`);
+  console.log(`♻️  Rent Collector: ${settings.rentCollector ?? 'None (rent reclamation disabled)'}`);
+  console.log(`🔐 Config Authority: ${settings.configAuthority ?? 'None (autonomous)'}`);
+}
+
+export function displayMultisigCreationCost(cost: MultisigCreationCost): void {
+  console.log(`💰 Creation Fee: ${formatLamportsAsSol(cost.fee)}`);
+  console.log(`🏠 Account Rent: ${formatLamportsAsSol(cost.rent)}`);
+  console.log(`💵 Total: ${formatLamportsAsSol(cost.total)}`);
+}
+
+/**
+ * Creates a multisig with multisigCreateV2, paid by the creator, and returns its address
+ */
+export async function createMultisig(creator: TransactionSigner, settings: MultisigSettings): Promise<string> {
+  console.log('\n🏛️  Creating multisig...');
+
+  try {
+    assertValidMultisigSettings(settings);
+
+    const programConfig = await fetchProgramConfigEntry();
+    if (!programConfig.data) {
+      throw new Error(`Program config ${programConfig.address} is not initialized. Run the "Program Config Admin" command first.`);
+    }
+
+    // The create key only seeds the multisig PDA, so a fresh key is used once and discarded
+    const createKey = await generateKeyPairSigner();
+    const [multisigPda] = await getMultisigPda(createKey.address);
+
+    const instruction = getMultisigCreateV2Instruction({
+      programConfig: programConfig.address,
+      treasury: programConfig.data.treasury,
+      multisig: address(multisigPda),
+      createKey,
+      creator,
+      systemProgram: SYSTEM_PROGRAM_ADDRESS,
+      configAuthority: settings.configAuthority,
+      threshold: settings.threshold,
+      members: settings.members,
+      timeLock: settings.timeLock,
+      rentCollector: settings.rentCollector,
+      memo: settings.memo ?? null,
+    });
+
+    // The create key signs through the instruction, next to the creator paying the fee
+    const signature = await signAndSendTransaction(
+      [instruction],
+      creator
+    );
+
+    console.log('✅ Multisig created!');
+    console.log(`🏛️  Address: ${multisigPda}`);
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+
+    return multisigPda;
+  } catch (error) {
+    console.error('❌ Error creating multisig:', error);
+    throw error;
+  }
+}
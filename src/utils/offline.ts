@@ -0,0 +1,350 @@
+/**
+ * Offline (air-gapped) signing
+ * The online machine exports the compiled, unsigned transaction with a summary of what it does,
+ * the offline machine signs its message bytes without any RPC access, and the online machine
+ * verifies and merges the signatures before sending
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import {
+  address,
+  assertIsSendableTransaction,
+  createNoopSigner,
+  getBase58Decoder,
+  getBase58Encoder,
+  getBase64EncodedWireTransaction,
+  getCompiledTransactionMessageDecoder,
+  getPublicKeyFromAddress,
+  getSignatureFromTransaction,
+  getSignersFromInstruction,
+  getTransactionDecoder,
+  verifySignature,
+  type Address,
+  type AddressesByLookupTableAddress,
+  type Base64EncodedWireTransaction,
+  type Blockhash,
+  type Instruction,
+  type Nonce,
+  type NoopSigner,
+  type SignatureBytes,
+  type Transaction,
+  type TransactionPartialSigner,
+  type TransactionSigner,
+} from '@solana/kit';
+import { fetchNonce, NonceState } from '@solana-program/system';
+import { rpc, sendAndConfirmDurableNonceTransaction, sendAndConfirmTransaction } from './rpc';
+import { prepareDurableNonceTransaction, prepareTransaction, type DurableNonce } from './prepare';
+import { COMPUTE_BUDGET_INSTRUCTION_COUNT } from './compute';
+import { decodeSendError } from './programErrors';
+import { prompt, promptWalletChoice } from './prompt';
+import { listWallets, loadSignerFromConfig } from './config';
+import type { WalletRole } from './types';
+
+const FILE_VERSION = 1;
+
+export interface UnsignedTransactionFile {
+  version: number;
+  summary: string[];
+  feePayer: Address;
+  signers: Address[];
+  transaction: Base64EncodedWireTransaction;
+  lifetime: { blockhash: Blockhash; lastValidBlockHeight: string } | { nonce: Nonce; nonceAccountAddress: Address };
+  // Instructions added in front of the caller's, to report the failing instruction by its original index
+  instructionOffset: number;
+  createdAt: string;
+}
+
+export interface SignatureFile {
+  version: number;
+  // SHA-256 of the message bytes, ties the signatures to one exported transaction
+  messageHash: string;
+  signatures: Record<string, string>; // signer address -> base58 signature
+}
+
+// A signer known only by its address, its signature is collected offline
+export type OfflineSigner = NoopSigner & { readonly offline: true };
+
+export function createOfflineSigner(signerAddress: Address): OfflineSigner {
+  return Object.freeze({ ...createNoopSigner(signerAddress), offline: true as const });
+}
+
+export function isOfflineSigner(signer: TransactionSigner): signer is OfflineSigner {
+  return 'offline' in signer && signer.offline === true;
+}
+
+export function isOfflineMode(): boolean {
+  return process.argv.includes('--offline');
+}
+
+/**
+ * Prompts for the wallet signing an action. With --offline any wallet can be picked, watch-only
+ * ones included, and the transaction is exported for it to sign instead of being sent
+ */
+export async function promptSigner(question: string, role?: WalletRole): Promise<TransactionSigner> {
+  if (!isOfflineMode()) {
+    const walletName = await promptWalletChoice(question, role);
+    return await loadSignerFromConfig(walletName);
+  }
+
+  const walletName = await promptWalletChoice(question, role, { watchOnly: true });
+  const wallet = (await listWallets()).find(entry => entry.name === walletName);
+  if (!wallet) {
+    throw new Error(`Wallet ${walletName} not found in config.json`);
+  }
+  console.log(`📴 ${walletName} signs offline, the transaction will be exported unsigned`);
+  return createOfflineSigner(wallet.address);
+}
+
+async function hashMessage(messageBytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', messageBytes);
+  return Buffer.from(digest).toString('hex');
+}
+
+function writeOutput(path: string, data: object): void {
+  const json = JSON.stringify(data, null, 2);
+  if (path === '-') {
+    console.log(json);
+    return;
+  }
+  if (existsSync(path)) {
+    throw new Error(`${path} already exists`);
+  }
+  writeFileSync(path, json);
+  console.log(`✅ Written to: ${path}`);
+}
+
+function readJsonFile<T extends { version: number }>(path: string): T {
+  const data = JSON.parse(readFileSync(path, 'utf8')) as T;
+  if (data.version !== FILE_VERSION) {
+    throw new Error(`Unsupported file version ${data.version} in ${path}`);
+  }
+  return data;
+}
+
+/**
+ * Asks for a durable nonce account, whose authority must be one of the transaction signers
+ * A recent blockhash expires after about a minute, too short for most offline signing
+ */
+async function promptDurableNonce(signerAddresses: Address[]): Promise<DurableNonce | null> {
+  const input = await prompt('🔢 Durable nonce account (Enter for a recent blockhash, valid for about a minute): ');
+  if (input === '') {
+    console.log('⚠️  Using a recent blockhash: the transaction must be signed and submitted within about a minute');
+    return null;
+  }
+
+  const nonceAccount = await fetchNonce(rpc, address(input));
+  if (nonceAccount.data.state !== NonceState.Initialized) {
+    throw new Error(`Nonce account ${input} is not initialized`);
+  }
+  if (!signerAddresses.includes(nonceAccount.data.authority)) {
+    throw new Error(`Nonce authority ${nonceAccount.data.authority} must be one of the signers: ${signerAddresses.join(', ')}`);
+  }
+
+  return {
+    nonceAccountAddress: nonceAccount.address,
+    nonceAuthorityAddress: nonceAccount.data.authority,
+    nonce: nonceAccount.data.blockhash as string as Nonce,
+  };
+}
+
+/**
+ * Compiles the transaction and writes it unsigned, with its summary, for the offline signers
+ */
+export async function exportUnsignedTransaction(
+  instructions: Instruction<string>[],
+  feePayer: Address,
+  summary: string[],
+  lookupTableAccounts: AddressesByLookupTableAddress = {}
+): Promise<UnsignedTransactionFile> {
+  console.log('\n📤 Exporting the unsigned transaction...');
+
+  const signerAddresses = [...new Set([
+    feePayer,
+    ...instructions.flatMap(instruction => getSignersFromInstruction(instruction).map(signer => signer.address)),
+  ])];
+  const durableNonce = await promptDurableNonce(signerAddresses);
+
+  let file: UnsignedTransactionFile;
+  if (durableNonce) {
+    const transaction = await prepareDurableNonceTransaction(instructions, feePayer, durableNonce, lookupTableAccounts);
+    file = {
+      version: FILE_VERSION,
+      summary,
+      feePayer,
+      signers: Object.keys(transaction.signatures) as Address[],
+      transaction: getBase64EncodedWireTransaction(transaction),
+      lifetime: { nonce: durableNonce.nonce, nonceAccountAddress: durableNonce.nonceAccountAddress },
+      instructionOffset: COMPUTE_BUDGET_INSTRUCTION_COUNT + 1,
+      createdAt: new Date().toISOString(),
+    };
+  } else {
+    const transaction = await prepareTransaction(instructions, feePayer, lookupTableAccounts);
+    file = {
+      version: FILE_VERSION,
+      summary,
+      feePayer,
+      signers: Object.keys(transaction.signatures) as Address[],
+      transaction: getBase64EncodedWireTransaction(transaction),
+      lifetime: {
+        blockhash: transaction.lifetimeConstraint.blockhash,
+        lastValidBlockHeight: transaction.lifetimeConstraint.lastValidBlockHeight.toString(),
+      },
+      instructionOffset: COMPUTE_BUDGET_INSTRUCTION_COUNT,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  displayUnsignedTransaction(file);
+
+  const defaultPath = `transaction-${Date.now()}.unsigned.json`;
+  const path = await prompt(`\nOutput file (default: ${defaultPath}, "-" for stdout): `) || defaultPath;
+  writeOutput(path, file);
+
+  console.log('\n💡 Next steps:');
+  console.log('   1. Copy the file to the offline machine and sign it with the "Sign Offline" command');
+  console.log('   2. Bring the signature files back and broadcast with the "Submit Signed Transaction" command');
+  return file;
+}
+
+export function readUnsignedTransactionFile(path: string): UnsignedTransactionFile {
+  return readJsonFile<UnsignedTransactionFile>(path);
+}
+
+export function readSignatureFile(path: string): SignatureFile {
+  return readJsonFile<SignatureFile>(path);
+}
+
+function decodeTransaction(file: UnsignedTransactionFile): Transaction {
+  return getTransactionDecoder().decode(Buffer.from(file.transaction, 'base64'));
+}
+
+/**
+ * Prints the summary written by the exporting machine next to what the message itself contains,
+ * decoded locally so it can be checked without any RPC access
+ */
+export function displayUnsignedTransaction(file: UnsignedTransactionFile): void {
+  const transaction = decodeTransaction(file);
+  const message = getCompiledTransactionMessageDecoder().decode(transaction.messageBytes);
+
+  console.log('\n📋 Summary:');
+  file.summary.forEach(line => console.log(`   ${line}`));
+
+  console.log('\n🔍 Message:');
+  console.log(`   Fee Payer: ${file.feePayer}`);
+  console.log(`   Signers: ${Object.keys(transaction.signatures).join(', ')}`);
+  message.instructions.forEach((instruction, index) => {
+    const program = message.staticAccounts[instruction.programAddressIndex] ?? `#${instruction.programAddressIndex}`;
+    console.log(`   ${index + 1}. ${program} - ${instruction.accountIndices?.length ?? 0} accounts, ${instruction.data?.length ?? 0} bytes of data`);
+  });
+
+  if ('nonce' in file.lifetime) {
+    console.log(`   Lifetime: durable nonce ${file.lifetime.nonce} (account ${file.lifetime.nonceAccountAddress})`);
+  } else {
+    console.log(`   Lifetime: blockhash ${file.lifetime.blockhash}, valid until block height ${file.lifetime.lastValidBlockHeight}`);
+  }
+  console.log(`   Created: ${file.createdAt}`);
+}
+
+/**
+ * Signs the exported message with the given signers, without any RPC access
+ */
+export async function signUnsignedTransaction(
+  file: UnsignedTransactionFile,
+  signers: TransactionPartialSigner[]
+): Promise<SignatureFile> {
+  const decoded = decodeTransaction(file);
+  // Signers receive the lifetime the message was compiled with, as they would when signing online
+  const transaction = {
+    ...decoded,
+    lifetimeConstraint: 'nonce' in file.lifetime
+      ? file.lifetime
+      : { blockhash: file.lifetime.blockhash, lastValidBlockHeight: BigInt(file.lifetime.lastValidBlockHeight) },
+  };
+  const signatures: Record<string, string> = {};
+
+  for (const signer of signers) {
+    if (!(signer.address in transaction.signatures)) {
+      throw new Error(`${signer.address} is not a signer of this transaction`);
+    }
+    const [signatureDictionary] = await signer.signTransactions([transaction]);
+    const signature = signatureDictionary?.[signer.address];
+    if (!signature) {
+      throw new Error(`${signer.address} did not sign the transaction`);
+    }
+    signatures[signer.address] = getBase58Decoder().decode(signature);
+  }
+
+  return {
+    version: FILE_VERSION,
+    messageHash: await hashMessage(new Uint8Array(transaction.messageBytes)),
+    signatures,
+  };
+}
+
+export function writeSignatureFile(path: string, signatureFile: SignatureFile): void {
+  writeOutput(path, signatureFile);
+}
+
+/**
+ * Verifies every signature against the message and its signer, then adds it to the transaction
+ */
+export async function mergeSignatures(file: UnsignedTransactionFile, signatureFiles: SignatureFile[]): Promise<Transaction> {
+  const transaction = decodeTransaction(file);
+  const messageHash = await hashMessage(new Uint8Array(transaction.messageBytes));
+  const signatures: Record<string, SignatureBytes | null> = { ...transaction.signatures };
+
+  for (const signatureFile of signatureFiles) {
+    if (signatureFile.messageHash !== messageHash) {
+      throw new Error('A signature file was made for a different transaction');
+    }
+
+    for (const [signerAddress, encodedSignature] of Object.entries(signatureFile.signatures)) {
+      if (!(signerAddress in signatures)) {
+        throw new Error(`${signerAddress} is not a signer of this transaction`);
+      }
+      const signature = getBase58Encoder().encode(encodedSignature) as SignatureBytes;
+      const publicKey = await getPublicKeyFromAddress(address(signerAddress));
+      if (!await verifySignature(publicKey, signature, transaction.messageBytes)) {
+        throw new Error(`Invalid signature from ${signerAddress}`);
+      }
+      signatures[signerAddress] = signature;
+      console.log(`✅ Valid signature from ${signerAddress}`);
+    }
+  }
+
+  return Object.freeze({ ...transaction, signatures: signatures as Transaction['signatures'] });
+}
+
+/**
+ * Sends a transaction whose signatures were all collected, returning its signature
+ */
+export async function submitSignedTransaction(file: UnsignedTransactionFile, transaction: Transaction): Promise<string> {
+  const missing = Object.entries(transaction.signatures).filter(([, signature]) => !signature).map(([signer]) => signer);
+  if (missing.length > 0) {
+    throw new Error(`Missing signatures from: ${missing.join(', ')}`);
+  }
+  assertIsSendableTransaction(transaction);
+
+  const signature = getSignatureFromTransaction(transaction);
+  console.log(`Transaction signature: ${signature}`);
+
+  try {
+    if ('nonce' in file.lifetime) {
+      await sendAndConfirmDurableNonceTransaction({ ...transaction, lifetimeConstraint: file.lifetime }, { commitment: 'confirmed' });
+    } else {
+      const lastValidBlockHeight = BigInt(file.lifetime.lastValidBlockHeight);
+      const blockHeight = await rpc.getBlockHeight().send();
+      if (blockHeight > lastValidBlockHeight) {
+        throw new Error('The blockhash of this transaction has expired, export it again with a durable nonce account');
+      }
+      await sendAndConfirmTransaction(
+        { ...transaction, lifetimeConstraint: { lastValidBlockHeight } },
+        { commitment: 'confirmed' }
+      );
+    }
+  } catch (error) {
+    throw decodeSendError(error, { instructionOffset: file.instructionOffset });
+  }
+
+  return signature;
+}
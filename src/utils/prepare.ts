@@ -4,9 +4,14 @@ import {
   setTransactionMessageFeePayer,
   appendTransactionMessageInstructions,
   setTransactionMessageLifetimeUsingBlockhash,
+  setTransactionMessageLifetimeUsingDurableNonce,
   type Instruction,
+  type Address,
+  type Nonce,
   address,
   compileTransaction,
+  compressTransactionMessageUsingAddressLookupTables,
+  type AddressesByLookupTableAddress,
 } from '@solana/kit';
 import { getComputeBudget } from './compute';
 import { rpc } from './rpc';
@@ -14,13 +19,14 @@ import { rpc } from './rpc';
 export async function prepareTransaction(
   instructions: Instruction<string>[],
   feePayer: string,
+  lookupTableAccounts: AddressesByLookupTableAddress = {},
 ) {
   try {
     const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
     const finalInstructions = await getComputeBudget(
       instructions,
       feePayer,
-      {},
+      lookupTableAccounts,
       latestBlockhash
     );
     const payer = address(feePayer);
@@ -29,6 +35,7 @@ export async function prepareTransaction(
       tx => setTransactionMessageFeePayer(payer, tx),
       tx => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
       tx => appendTransactionMessageInstructions(finalInstructions, tx),
+      tx => compressTransactionMessageUsingAddressLookupTables(tx, lookupTableAccounts),
     );
     return compileTransaction({
       ...message,
@@ -43,3 +50,37 @@ export async function prepareTransaction(
     throw error;
   }
 }
+
+export interface DurableNonce {
+  nonceAccountAddress: Address;
+  nonceAuthorityAddress: Address;
+  nonce: Nonce;
+}
+
+/**
+ * Prepares a transaction that stays valid until its nonce account is advanced, instead of for ~60 seconds
+ * The advance nonce instruction is placed first, in front of the compute budget instructions
+ */
+export async function prepareDurableNonceTransaction(
+  instructions: Instruction<string>[],
+  feePayer: string,
+  durableNonce: DurableNonce,
+  lookupTableAccounts: AddressesByLookupTableAddress = {},
+) {
+  // Compute units are still estimated by simulating against a recent blockhash
+  const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
+  const finalInstructions = await getComputeBudget(
+    instructions,
+    feePayer,
+    lookupTableAccounts,
+    latestBlockhash
+  );
+  const message = pipe(
+    createTransactionMessage({ version: 0 }),
+    tx => setTransactionMessageFeePayer(address(feePayer), tx),
+    tx => setTransactionMessageLifetimeUsingDurableNonce(durableNonce, tx),
+    tx => appendTransactionMessageInstructions(finalInstructions, tx),
+    tx => compressTransactionMessageUsingAddressLookupTables(tx, lookupTableAccounts),
+  );
+  return compileTransaction(message);
+}
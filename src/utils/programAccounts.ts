@@ -0,0 +1,24 @@
+/**
+ * getProgramAccounts filters shared by the Squads account scans
+ */
+
+import {
+  getAddressEncoder,
+  getBase58Decoder,
+  type Address,
+  type Base58EncodedBytes,
+  type GetProgramAccountsMemcmpFilter,
+} from '@solana/kit';
+
+/**
+ * Matches accounts whose `multisig` field, right after the 8-byte discriminator, is `multisigPda`
+ */
+export function getMultisigMemcmpFilter(multisigPda: Address): GetProgramAccountsMemcmpFilter {
+  return {
+    memcmp: {
+      offset: 8n,
+      bytes: getBase58Decoder().decode(getAddressEncoder().encode(multisigPda)) as Base58EncodedBytes,
+      encoding: 'base58',
+    },
+  };
+}
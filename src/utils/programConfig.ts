@@ -0,0 +1,56 @@
+/**
+ * ProgramConfig helpers
+ * The ProgramConfig account holds the multisig creation fee, the treasury receiving it
+ * and the authority allowed to change both. It has to be initialized once per deployment,
+ * so on localnet and forked programs it may not exist yet
+ */
+
+import {
+  fetchMaybeProgramConfig,
+  getProgramConfigPda,
+  type ProgramConfig,
+} from './squads/index';
+import { address, type Address } from '@solana/kit';
+import { rpc } from './rpc';
+import { LAMPORTS_PER_SOL } from './constants';
+
+export interface ProgramConfigEntry {
+  address: Address;
+  // null until programConfigInit has been executed on this deployment
+  data: ProgramConfig | null;
+}
+
+export async function fetchProgramConfigEntry(): Promise<ProgramConfigEntry> {
+  const [programConfigPda] = await getProgramConfigPda();
+  const account = await fetchMaybeProgramConfig(rpc, address(programConfigPda));
+  return {
+    address: account.address,
+    data: account.exists ? account.data : null,
+  };
+}
+
+export function formatLamportsAsSol(amount: bigint): string {
+  return `${Number(amount) / LAMPORTS_PER_SOL} SOL`;
+}
+
+export function parseSolToLamports(input: string): bigint {
+  const sol = Number(input);
+  if (input.trim() === '' || !Number.isFinite(sol) || sol < 0) {
+    throw new Error(`Invalid SOL amount: ${input}`);
+  }
+  return BigInt(Math.round(sol * LAMPORTS_PER_SOL));
+}
+
+export function displayProgramConfig(entry: ProgramConfigEntry): void {
+  console.log('\n🛠️  Program Config:');
+  console.log(`📍 Address: ${entry.address}`);
+
+  if (!entry.data) {
+    console.log('⚠️  Not initialized on this cluster');
+    return;
+  }
+
+  console.log(`👤 Authority: ${entry.data.authority}`);
+  console.log(`💰 Multisig Creation Fee: ${formatLamportsAsSol(entry.data.multisigCreationFee)} (${entry.data.multisigCreationFee} lamports)`);
+  console.log(`🏦 Treasury: ${entry.data.treasury}`);
+}
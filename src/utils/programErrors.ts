@@ -0,0 +1,312 @@
+/**
+ * Typed transaction errors
+ * Simulation and send failures arrive as a TransactionError or a SolanaError with a bare
+ * custom code. They are mapped to the program that raised the code, using its generated
+ * error table, and carry the failing instruction and a hint on how to fix it
+ */
+
+import {
+  SQUADS_MULTISIG_PROGRAM_ERROR__ALREADY_APPROVED,
+  SQUADS_MULTISIG_PROGRAM_ERROR__ALREADY_CANCELLED,
+  SQUADS_MULTISIG_PROGRAM_ERROR__ALREADY_REJECTED,
+  SQUADS_MULTISIG_PROGRAM_ERROR__DUPLICATE_MEMBER,
+  SQUADS_MULTISIG_PROGRAM_ERROR__EMPTY_MEMBERS,
+  SQUADS_MULTISIG_PROGRAM_ERROR__INVALID_PROPOSAL_STATUS,
+  SQUADS_MULTISIG_PROGRAM_ERROR__INVALID_THRESHOLD,
+  SQUADS_MULTISIG_PROGRAM_ERROR__INVALID_TRANSACTION_INDEX,
+  SQUADS_MULTISIG_PROGRAM_ERROR__NOT_A_MEMBER,
+  SQUADS_MULTISIG_PROGRAM_ERROR__NOT_SUPPORTED_FOR_CONTROLLED,
+  SQUADS_MULTISIG_PROGRAM_ERROR__NO_EXECUTORS,
+  SQUADS_MULTISIG_PROGRAM_ERROR__NO_PROPOSERS,
+  SQUADS_MULTISIG_PROGRAM_ERROR__NO_VOTERS,
+  SQUADS_MULTISIG_PROGRAM_ERROR__REMOVE_LAST_MEMBER,
+  SQUADS_MULTISIG_PROGRAM_ERROR__SPENDING_LIMIT_EXCEEDED,
+  SQUADS_MULTISIG_PROGRAM_ERROR__STALE_PROPOSAL,
+  SQUADS_MULTISIG_PROGRAM_ERROR__TIME_LOCK_NOT_RELEASED,
+  SQUADS_MULTISIG_PROGRAM_ERROR__UNAUTHORIZED,
+  SQUADS_MULTISIG_PROGRAM_PROGRAM_ADDRESS,
+  getSquadsMultisigProgramErrorMessage,
+  type SquadsMultisigProgramError,
+} from './squads/index';
+import {
+  SOLANA_ERROR__INSTRUCTION_ERROR__CUSTOM,
+  SOLANA_ERROR__INSTRUCTION_ERROR__INSUFFICIENT_FUNDS,
+  SOLANA_ERROR__JSON_RPC__SERVER_ERROR_SEND_TRANSACTION_PREFLIGHT_FAILURE,
+  SOLANA_ERROR__TRANSACTION_ERROR__INSUFFICIENT_FUNDS_FOR_FEE,
+  SOLANA_ERROR__TRANSACTION_ERROR__INSUFFICIENT_FUNDS_FOR_RENT,
+  getSolanaErrorFromTransactionError,
+  isSolanaError,
+  type Address,
+  type Instruction,
+  type SolanaError,
+  type TransactionError,
+} from '@solana/kit';
+import {
+  SYSTEM_ERROR__ACCOUNT_ALREADY_IN_USE,
+  SYSTEM_ERROR__RESULT_WITH_NEGATIVE_LAMPORTS,
+  SYSTEM_PROGRAM_ADDRESS,
+  getSystemErrorMessage,
+  type SystemError,
+} from '@solana-program/system';
+import {
+  TOKEN_ERROR__ACCOUNT_FROZEN,
+  TOKEN_ERROR__INSUFFICIENT_FUNDS,
+  TOKEN_ERROR__MINT_DECIMALS_MISMATCH,
+  TOKEN_ERROR__MINT_MISMATCH,
+  TOKEN_ERROR__OWNER_MISMATCH,
+  TOKEN_ERROR__UNINITIALIZED_STATE,
+  TOKEN_PROGRAM_ADDRESS,
+  getTokenErrorMessage,
+  type TokenError,
+} from '@solana-program/token';
+import { TOKEN_2022_PROGRAM_ADDRESS } from './constants';
+
+// SolanaError codes of transaction and instruction errors, e.g. from a failed confirmation
+const INSTRUCTION_ERROR_CODES = { min: 4615000, max: 4615999 };
+const TRANSACTION_ERROR_CODES = { min: 7050000, max: 7050999 };
+
+const SOL_HINT = 'Fund the fee payer or the paying vault with more SOL and try again.';
+
+const SQUADS_HINTS: Partial<Record<SquadsMultisigProgramError, string>> = {
+  [SQUADS_MULTISIG_PROGRAM_ERROR__DUPLICATE_MEMBER]: 'Remove the duplicate member address.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__EMPTY_MEMBERS]: 'Add at least one member.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__INVALID_THRESHOLD]: 'Pick a threshold between 1 and the number of members with Vote permission.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__UNAUTHORIZED]: 'Sign with the config authority, or a member holding the permission this action needs.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__NOT_A_MEMBER]: 'Sign with one of the multisig members listed in the info dashboard.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__STALE_PROPOSAL]: 'The multisig config changed after this proposal was created. Create a new proposal and close the stale one to reclaim rent.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__INVALID_PROPOSAL_STATUS]: 'Check the proposal status in the info dashboard: votes need an Active proposal, execution an Approved one.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__INVALID_TRANSACTION_INDEX]: 'Use a transaction index between 1 and the latest index shown in the info dashboard.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__ALREADY_APPROVED]: 'This member has already approved. Approve with another member.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__ALREADY_REJECTED]: 'This member has already rejected. Vote with another member.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__ALREADY_CANCELLED]: 'This member has already voted to cancel. Vote with another member.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__REMOVE_LAST_MEMBER]: 'Add another member before removing this one.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__NO_VOTERS]: 'Keep at least one member with Vote permission.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__NO_PROPOSERS]: 'Keep at least one member with Initiate permission.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__NO_EXECUTORS]: 'Keep at least one member with Execute permission.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__NOT_SUPPORTED_FOR_CONTROLLED]: 'Controlled multisigs are changed directly by the config authority, use the config command instead of a proposal.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__TIME_LOCK_NOT_RELEASED]: 'Wait for the time lock to pass, e.g. with `bun run src/execute.ts --wait`.',
+  [SQUADS_MULTISIG_PROGRAM_ERROR__SPENDING_LIMIT_EXCEEDED]: 'Spend less, wait for the spending limit to reset, or create a regular proposal.',
+};
+
+const SYSTEM_HINTS: Partial<Record<SystemError, string>> = {
+  [SYSTEM_ERROR__ACCOUNT_ALREADY_IN_USE]: 'The account already exists. Use a new address or close the existing account first.',
+};
+
+const TOKEN_HINTS: Partial<Record<TokenError, string>> = {
+  [TOKEN_ERROR__OWNER_MISMATCH]: 'The token account belongs to someone else. Use the token account owned by the signer or vault.',
+  [TOKEN_ERROR__MINT_MISMATCH]: 'The token accounts hold different mints. Check the mint of the source and destination.',
+  [TOKEN_ERROR__MINT_DECIMALS_MISMATCH]: 'Use the decimals of the mint in checked instructions.',
+  [TOKEN_ERROR__ACCOUNT_FROZEN]: 'The token account is frozen by the mint\'s freeze authority.',
+  [TOKEN_ERROR__UNINITIALIZED_STATE]: 'The token account doesn\'t exist yet. Create the associated token account first.',
+};
+
+interface FailureDetails {
+  // Index into the caller's instructions, null when it points at an added compute budget instruction
+  instructionIndex: number | null;
+  hint: string | null;
+  logs: string[];
+}
+
+export interface FailureContext {
+  logs?: readonly string[] | null;
+  // Instructions as built by the caller
+  instructions?: readonly Instruction[];
+  // Instructions added in front of the caller's, like compute budget instructions
+  instructionOffset?: number;
+}
+
+export class TransactionFailedError extends Error {
+  readonly instructionIndex: number | null;
+  readonly hint: string | null;
+  readonly logs: string[];
+
+  constructor(message: string, details: FailureDetails) {
+    super(details.instructionIndex === null ? message : `${message} (instruction ${details.instructionIndex + 1})`);
+    this.name = 'TransactionFailedError';
+    this.instructionIndex = details.instructionIndex;
+    this.hint = details.hint;
+    this.logs = details.logs;
+  }
+}
+
+export class SquadsProgramError extends TransactionFailedError {
+  readonly code: SquadsMultisigProgramError;
+  // Anchor error name, e.g. "AlreadyApproved", when the logs include it
+  readonly errorName: string | null;
+
+  constructor(code: SquadsMultisigProgramError, errorName: string | null, details: FailureDetails) {
+    super(`Squads error ${errorName ?? code}: ${getSquadsMultisigProgramErrorMessage(code)}`, details);
+    this.name = 'SquadsProgramError';
+    this.code = code;
+    this.errorName = errorName;
+  }
+}
+
+export class SystemProgramError extends TransactionFailedError {
+  readonly code: SystemError;
+
+  constructor(code: SystemError, details: FailureDetails) {
+    super(`System program error ${code}: ${getSystemErrorMessage(code)}`, details);
+    this.name = 'SystemProgramError';
+    this.code = code;
+  }
+}
+
+export class TokenProgramError extends TransactionFailedError {
+  readonly code: TokenError;
+
+  constructor(code: TokenError, details: FailureDetails) {
+    super(`Token program error ${code}: ${getTokenErrorMessage(code)}`, details);
+    this.name = 'TokenProgramError';
+    this.code = code;
+  }
+}
+
+export class InsufficientFundsError extends TransactionFailedError {
+  constructor(message: string, details: FailureDetails) {
+    super(message, details);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+/**
+ * The innermost program that failed with a custom error. Callers like vaultTransactionExecute
+ * fail with the same code after their CPI, so the first failure in the logs is the origin
+ */
+function findFailedProgram(logs: string[]): Address | null {
+  for (const log of logs) {
+    const match = log.match(/^Program (\w+) failed: custom program error: 0x[0-9a-f]+$/);
+    if (match?.[1]) {
+      return match[1] as Address;
+    }
+  }
+  return null;
+}
+
+function findAnchorErrorName(logs: string[], code: number): string | null {
+  for (const log of logs) {
+    const match = log.match(/Error Code: (\w+)\. Error Number: (\d+)\./);
+    if (match?.[1] && Number(match[2]) === code) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+// The System program logs the balance it found when a transfer can't be covered
+function describeMissingLamports(logs: string[]): string | null {
+  for (const log of logs) {
+    const match = log.match(/Transfer: insufficient lamports (\d+), need (\d+)/);
+    if (match?.[1] && match[2]) {
+      return `Insufficient SOL: the account has ${match[1]} lamports but the transfer needs ${match[2]}`;
+    }
+  }
+  return null;
+}
+
+function decodeCustomError(program: Address | null, code: number, details: FailureDetails): TransactionFailedError {
+  if (program === SQUADS_MULTISIG_PROGRAM_PROGRAM_ADDRESS && getSquadsMultisigProgramErrorMessage(code as SquadsMultisigProgramError)) {
+    const squadsCode = code as SquadsMultisigProgramError;
+    return new SquadsProgramError(squadsCode, findAnchorErrorName(details.logs, code), {
+      ...details,
+      hint: SQUADS_HINTS[squadsCode] ?? null,
+    });
+  }
+
+  if (program === SYSTEM_PROGRAM_ADDRESS && getSystemErrorMessage(code as SystemError)) {
+    if (code === SYSTEM_ERROR__RESULT_WITH_NEGATIVE_LAMPORTS) {
+      return new InsufficientFundsError(
+        describeMissingLamports(details.logs) ?? 'Insufficient SOL for this transfer',
+        { ...details, hint: SOL_HINT }
+      );
+    }
+    return new SystemProgramError(code as SystemError, { ...details, hint: SYSTEM_HINTS[code as SystemError] ?? null });
+  }
+
+  if ((program === TOKEN_PROGRAM_ADDRESS || program === TOKEN_2022_PROGRAM_ADDRESS) && getTokenErrorMessage(code as TokenError)) {
+    if (code === TOKEN_ERROR__INSUFFICIENT_FUNDS) {
+      return new InsufficientFundsError('Insufficient token balance for this transfer', {
+        ...details,
+        hint: 'Fund the source token account, e.g. send USDC to the vault, or lower the amount.',
+      });
+    }
+    return new TokenProgramError(code as TokenError, { ...details, hint: TOKEN_HINTS[code as TokenError] ?? null });
+  }
+
+  const origin = program ? ` from program ${program}` : '';
+  return new TransactionFailedError(`Custom program error ${code} (0x${code.toString(16)})${origin}`, details);
+}
+
+/**
+ * Maps the SolanaError of a failed transaction to a typed error
+ */
+export function decodeTransactionFailure(error: SolanaError, context: FailureContext = {}): TransactionFailedError {
+  const logs = [...(context.logs ?? [])];
+  const offset = context.instructionOffset ?? 0;
+  const rawIndex = (error.context as { index?: unknown }).index;
+  const instructionIndex = typeof rawIndex === 'number' && rawIndex >= offset ? rawIndex - offset : null;
+  const details: FailureDetails = { instructionIndex, hint: null, logs };
+
+  if (isSolanaError(error, SOLANA_ERROR__INSTRUCTION_ERROR__CUSTOM)) {
+    const instruction = instructionIndex === null ? undefined : context.instructions?.[instructionIndex];
+    const program = findFailedProgram(logs) ?? instruction?.programAddress ?? null;
+    return decodeCustomError(program, error.context.code, details);
+  }
+
+  if (
+    isSolanaError(error, SOLANA_ERROR__INSTRUCTION_ERROR__INSUFFICIENT_FUNDS) ||
+    isSolanaError(error, SOLANA_ERROR__TRANSACTION_ERROR__INSUFFICIENT_FUNDS_FOR_RENT)
+  ) {
+    return new InsufficientFundsError(describeMissingLamports(logs) ?? 'Insufficient SOL to keep the accounts rent exempt', {
+      ...details,
+      hint: SOL_HINT,
+    });
+  }
+
+  if (isSolanaError(error, SOLANA_ERROR__TRANSACTION_ERROR__INSUFFICIENT_FUNDS_FOR_FEE)) {
+    return new InsufficientFundsError('The fee payer doesn\'t have enough SOL to pay the transaction fee', {
+      ...details,
+      hint: 'Fund the fee payer wallet, e.g. with `solana airdrop` on devnet.',
+    });
+  }
+
+  return new TransactionFailedError(error.message, details);
+}
+
+/**
+ * Maps the `err` of a simulation result to a typed error
+ */
+export function decodeSimulationError(err: TransactionError, context: FailureContext = {}): TransactionFailedError {
+  return decodeTransactionFailure(getSolanaErrorFromTransactionError(err), context);
+}
+
+/**
+ * Maps errors thrown while sending a transaction, leaving unrelated errors untouched
+ * Preflight failures wrap the transaction error and carry the simulation logs
+ */
+export function decodeSendError(error: unknown, context: FailureContext = {}): unknown {
+  if (isSolanaError(error, SOLANA_ERROR__JSON_RPC__SERVER_ERROR_SEND_TRANSACTION_PREFLIGHT_FAILURE)) {
+    const cause = error.cause;
+    return isSolanaError(cause)
+      ? decodeTransactionFailure(cause, { ...context, logs: error.context.logs })
+      : error;
+  }
+
+  if (isSolanaError(error)) {
+    const isTransactionError =
+      (error.context.__code >= INSTRUCTION_ERROR_CODES.min && error.context.__code <= INSTRUCTION_ERROR_CODES.max) ||
+      (error.context.__code >= TRANSACTION_ERROR_CODES.min && error.context.__code <= TRANSACTION_ERROR_CODES.max);
+    if (isTransactionError) {
+      return decodeTransactionFailure(error, context);
+    }
+  }
+
+  return error;
+}
+
+/**
+ * Error message followed by the hint, for the CLI
+ */
+export function formatTransactionFailure(error: TransactionFailedError): string {
+  return error.hint ? `${error.message}\n💡 ${error.hint}` : error.message;
+}
@@ -2,6 +2,9 @@
  * Shared prompt utilities for user interactions
  */
 
+import { formatWalletEntry, listSigners, listWallets } from './config';
+import type { WalletEntry, WalletName, WalletRole } from './types';
+
 export async function prompt(question: string): Promise<string> {
   process.stdout.write(question);
   return new Promise((resolve) => {
@@ -28,16 +31,33 @@ export async function promptChoice(question: string, choices: string[]): Promise
   return choices[choiceIndex] as string;
 }
 
-export async function promptWalletChoice(question: string): Promise<'manager' | 'voter1' | 'voter2'> {
-  const answer = await prompt(`${question} (1 for manager, 2 for voter1, 3 for voter2): `);
-  
-  if (answer === '1') {
-    return 'manager';
-  } else if (answer === '2') {
-    return 'voter1';
-  } else if (answer === '3') {
-    return 'voter2';
-  } else {
-    throw new Error('Invalid choice. Please enter 1, 2, or 3.');
+/**
+ * Lets the user pick one of the signing wallets in config.json, or any wallet with `watchOnly`
+ * Wallets holding `role` are listed first and the first of them is the default
+ */
+export async function promptWalletChoice(
+  question: string,
+  role?: WalletRole,
+  options: { watchOnly?: boolean } = {}
+): Promise<WalletName> {
+  const signers = options.watchOnly ? await listWallets() : await listSigners();
+  if (signers.length === 0) {
+    throw new Error(options.watchOnly ? 'No wallets in config.json' : 'No wallet with a secret key in config.json');
+  }
+
+  const preferred = role ? signers.filter(signer => signer.roles.includes(role)) : [];
+  const ordered = [...preferred, ...signers.filter(signer => !preferred.includes(signer))];
+  const defaultWallet = ordered[0] as WalletEntry;
+
+  const choiceText = ordered.map((wallet, index) => `${index + 1}. ${formatWalletEntry(wallet)}`).join('\n');
+  const answer = await prompt(`${question}\n${choiceText}\nEnter your choice (1-${ordered.length}, default: ${defaultWallet.name}): `);
+  if (answer === '') {
+    return defaultWallet.name;
+  }
+
+  const wallet = ordered[parseInt(answer) - 1] ?? ordered.find(wallet => wallet.name === answer);
+  if (!wallet) {
+    throw new Error(`Invalid choice. Please enter a number between 1 and ${ordered.length} or a wallet name.`);
   }
+  return wallet.name;
 }
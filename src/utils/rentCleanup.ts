@@ -0,0 +1,210 @@
+/**
+ * Rent cleanup helpers
+ * Every transaction index holds a vault transaction, a config transaction or a batch,
+ * each with its own close instruction and closing rules. Rent is returned to the
+ * multisig's rent collector, except for transaction buffers which refund their creator
+ */
+
+import {
+  BATCH_DISCRIMINATOR,
+  CONFIG_TRANSACTION_DISCRIMINATOR,
+  SQUADS_MULTISIG_PROGRAM_PROGRAM_ADDRESS,
+  TRANSACTION_BUFFER_DISCRIMINATOR,
+  VAULT_TRANSACTION_DISCRIMINATOR,
+  fetchBatch,
+  fetchMaybeVaultBatchTransaction,
+  getBatchAccountsCloseInstruction,
+  getBatchTransactionPda,
+  getConfigTransactionAccountsCloseInstruction,
+  getProposalPda,
+  getTransactionBufferDecoder,
+  getTransactionPda,
+  getVaultBatchTransactionAccountCloseInstruction,
+  getVaultTransactionAccountsCloseInstruction,
+  type Multisig,
+  type ProposalStatus,
+  type TransactionBuffer,
+} from './squads/index';
+import {
+  address,
+  fetchEncodedAccount,
+  getBase58Decoder,
+  getBase64Encoder,
+  isSome,
+  type Address,
+  type Base58EncodedBytes,
+  type Instruction,
+  type ReadonlyUint8Array,
+} from '@solana/kit';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import { rpc } from './rpc';
+import { getMultisigMemcmpFilter } from './programAccounts';
+
+export type TransactionAccountKind = 'vault' | 'config' | 'batch';
+
+export interface TransactionBufferEntry {
+  address: Address;
+  data: TransactionBuffer;
+}
+
+export interface CloseStep {
+  description: string;
+  instruction: Instruction;
+}
+
+function hasDiscriminator(data: ReadonlyUint8Array, discriminator: ReadonlyUint8Array): boolean {
+  return data.length >= discriminator.length && discriminator.every((byte, index) => data[index] === byte);
+}
+
+/**
+ * Reads which kind of transaction account lives at a transaction index, or null once closed
+ */
+export async function detectTransactionAccountKind(
+  multisigPda: string,
+  transactionIndex: bigint
+): Promise<TransactionAccountKind | null> {
+  const [transactionPda] = await getTransactionPda(multisigPda, transactionIndex);
+  const account = await fetchEncodedAccount(rpc, address(transactionPda));
+  if (!account.exists) {
+    return null;
+  }
+
+  if (hasDiscriminator(account.data, VAULT_TRANSACTION_DISCRIMINATOR)) return 'vault';
+  if (hasDiscriminator(account.data, CONFIG_TRANSACTION_DISCRIMINATOR)) return 'config';
+  if (hasDiscriminator(account.data, BATCH_DISCRIMINATOR)) return 'batch';
+  return null;
+}
+
+/**
+ * Mirrors the program's closing rules: finished proposals can always be closed,
+ * pending ones only once stale. Approved vault transactions and batches stay executable
+ * when stale, so they can't be closed, while stale approved config transactions can
+ */
+export function canCloseTransaction(
+  kind: TransactionAccountKind,
+  status: ProposalStatus['__kind'] | null,
+  isStale: boolean
+): boolean {
+  switch (status) {
+    case null:
+    case 'Draft':
+    case 'Active':
+      return isStale;
+    case 'Approved':
+      return kind === 'config' && isStale;
+    case 'Rejected':
+    case 'Executed':
+    case 'Cancelled':
+      return true;
+    case 'Executing':
+      return false;
+  }
+}
+
+export function getRentCollector(multisig: Multisig): Address | null {
+  return isSome(multisig.rentCollector) ? multisig.rentCollector.value : null;
+}
+
+/**
+ * Close instructions for a vault or config transaction and its proposal
+ */
+export async function getTransactionCloseInstruction(
+  kind: Exclude<TransactionAccountKind, 'batch'>,
+  multisigPda: string,
+  transactionIndex: bigint,
+  rentCollector: Address
+): Promise<Instruction> {
+  const [transactionPda] = await getTransactionPda(multisigPda, transactionIndex);
+  const [proposalPda] = await getProposalPda(multisigPda, transactionIndex);
+
+  const accounts = {
+    multisig: address(multisigPda),
+    proposal: address(proposalPda),
+    transaction: address(transactionPda),
+    rentCollector,
+    systemProgram: SYSTEM_PROGRAM_ADDRESS,
+  };
+
+  return kind === 'vault'
+    ? getVaultTransactionAccountsCloseInstruction(accounts)
+    : getConfigTransactionAccountsCloseInstruction(accounts);
+}
+
+/**
+ * Close steps for a batch: its transactions from the last one down, as the program requires,
+ * then the batch and its proposal once the batch is empty
+ */
+export async function getBatchCloseSteps(
+  multisigPda: string,
+  batchIndex: bigint,
+  rentCollector: Address
+): Promise<CloseStep[]> {
+  const [batchPda] = await getTransactionPda(multisigPda, batchIndex);
+  const [proposalPda] = await getProposalPda(multisigPda, batchIndex);
+  const batch = await fetchBatch(rpc, address(batchPda));
+
+  const steps: CloseStep[] = [];
+  for (let transactionIndex = batch.data.size; transactionIndex >= 1; transactionIndex--) {
+    const [batchTransactionPda] = await getBatchTransactionPda(multisigPda, batchIndex, transactionIndex);
+    const batchTransaction = await fetchMaybeVaultBatchTransaction(rpc, address(batchTransactionPda));
+    if (!batchTransaction.exists) {
+      continue;
+    }
+
+    steps.push({
+      description: `batch transaction ${transactionIndex}/${batch.data.size}`,
+      instruction: getVaultBatchTransactionAccountCloseInstruction({
+        multisig: address(multisigPda),
+        proposal: address(proposalPda),
+        batch: address(batchPda),
+        transaction: address(batchTransactionPda),
+        rentCollector,
+        systemProgram: SYSTEM_PROGRAM_ADDRESS,
+      }),
+    });
+  }
+
+  steps.push({
+    description: 'batch and proposal',
+    instruction: getBatchAccountsCloseInstruction({
+      multisig: address(multisigPda),
+      proposal: address(proposalPda),
+      batch: address(batchPda),
+      rentCollector,
+      systemProgram: SYSTEM_PROGRAM_ADDRESS,
+    }),
+  });
+
+  return steps;
+}
+
+/**
+ * Finds every transaction buffer of a multisig, including ones left behind by failed uploads
+ */
+export async function fetchTransactionBuffers(multisigPda: string): Promise<TransactionBufferEntry[]> {
+  const base58 = getBase58Decoder();
+
+  const accounts = await rpc
+    .getProgramAccounts(SQUADS_MULTISIG_PROGRAM_PROGRAM_ADDRESS, {
+      encoding: 'base64',
+      filters: [
+        {
+          memcmp: {
+            offset: 0n,
+            bytes: base58.decode(TRANSACTION_BUFFER_DISCRIMINATOR) as Base58EncodedBytes,
+            encoding: 'base58',
+          },
+        },
+        getMultisigMemcmpFilter(address(multisigPda)),
+      ],
+    })
+    .send();
+
+  const decoder = getTransactionBufferDecoder();
+  const base64 = getBase64Encoder();
+
+  return accounts.map(account => ({
+    address: address(account.pubkey),
+    data: decoder.decode(base64.encode(account.account.data[0])),
+  }));
+}
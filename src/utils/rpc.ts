@@ -1,9 +1,9 @@
-import { web3 } from "@coral-xyz/anchor";
 import { 
   createSolanaRpc,
   createSolanaRpcSubscriptions,
   getSignatureFromTransaction,
   sendAndConfirmTransactionFactory,
+  sendAndConfirmDurableNonceTransactionFactory,
   generateKeyPairSigner,
   createSignerFromKeyPair,
   type SendableTransaction,
@@ -17,11 +17,7 @@ import { RPC_URL } from './env';
 export const rpc = createSolanaRpc(RPC_URL);
 export const rpcSubscriptions = createSolanaRpcSubscriptions(RPC_URL.replace('http', 'ws'));
 export const sendAndConfirmTransaction = sendAndConfirmTransactionFactory({ rpc, rpcSubscriptions });
-
-export const solanaConnection = new web3.Connection(
-  RPC_URL,
-  'confirmed'
-);
+export const sendAndConfirmDurableNonceTransaction = sendAndConfirmDurableNonceTransactionFactory({ rpc, rpcSubscriptions });
 
 // Re-export signer types and utilities
 export { 
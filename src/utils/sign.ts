@@ -4,27 +4,39 @@
 
 import { 
   assertIsSendableTransaction,
+  assertIsTransactionPartialSigner,
   getSignatureFromTransaction,
+  getSignersFromInstruction,
   type Instruction,
-  signTransaction,
+  type AddressesByLookupTableAddress,
+  type TransactionSigner,
 } from '@solana/kit';
 import { sendAndConfirmTransaction } from './rpc';
 import { prepareTransaction } from './prepare';
+import { COMPUTE_BUDGET_INSTRUCTION_COUNT } from './compute';
+import { decodeSendError } from './programErrors';
+import { exportUnsignedTransaction, isOfflineSigner } from './offline';
 
+/**
+ * Signs with the fee payer and the signers attached to the instructions, then sends and confirms
+ * Each signer signs through its own backend: an in-memory keypair, the keystore or a remote service
+ */
 export async function signAndSendTransaction(
   instructions: Instruction<string>[],
-  signers: CryptoKeyPair[],
-  feePayer: string,
-  commitment: 'processed' | 'confirmed' | 'finalized' = 'confirmed'
-): Promise<string> {  
-  // Create transaction message using the new approach
-  const transactionMessage =  await prepareTransaction(instructions, feePayer);
-  
-  // Sign the transaction message
-  const signedTransaction = await signTransaction(
-    signers,
-    transactionMessage
-  );
+  feePayer: TransactionSigner,
+  commitment: 'processed' | 'confirmed' | 'finalized' = 'confirmed',
+  lookupTableAccounts: AddressesByLookupTableAddress = {}
+): Promise<string> {
+  const transaction = await prepareTransaction(instructions, feePayer.address, lookupTableAccounts);
+
+  // Every signer adds its signature to the same compiled message
+  let signatures = transaction.signatures;
+  for (const signer of getTransactionSigners(instructions, feePayer)) {
+    assertIsTransactionPartialSigner(signer);
+    const [signatureDictionary] = await signer.signTransactions([transaction]);
+    signatures = { ...signatures, ...signatureDictionary };
+  }
+  const signedTransaction = Object.freeze({ ...transaction, signatures });
   assertIsSendableTransaction(signedTransaction);
 
   // Get signature before sending
@@ -32,7 +44,45 @@ export async function signAndSendTransaction(
   console.log(`Transaction signature: ${signature}`);
 
   // Send and confirm transaction using the factory
-  await sendAndConfirmTransaction(signedTransaction, { commitment });
+  try {
+    await sendAndConfirmTransaction(signedTransaction, { commitment });
+  } catch (error) {
+    throw decodeSendError(error, { instructions, instructionOffset: COMPUTE_BUDGET_INSTRUCTION_COUNT });
+  }
   
   return signature;
-}
\ No newline at end of file
+}
+
+/**
+ * Like signAndSendTransaction, but when one of the signers is an offline signer the unsigned
+ * transaction is exported for offline signing instead, described by `summary`, and null is returned
+ * A summary that needs RPC calls can be passed as a function, it is only built for an export
+ */
+export async function signAndSendOrExport(
+  instructions: Instruction<string>[],
+  feePayer: TransactionSigner,
+  summary: string[] | (() => Promise<string[]>),
+  commitment: 'processed' | 'confirmed' | 'finalized' = 'confirmed',
+  lookupTableAccounts: AddressesByLookupTableAddress = {}
+): Promise<string | null> {
+  if (getTransactionSigners(instructions, feePayer).some(isOfflineSigner)) {
+    const summaryLines = typeof summary === 'function' ? await summary() : summary;
+    await exportUnsignedTransaction(instructions, feePayer.address, summaryLines, lookupTableAccounts);
+    return null;
+  }
+  return await signAndSendTransaction(instructions, feePayer, commitment, lookupTableAccounts);
+}
+
+/**
+ * The fee payer and instruction signers, the same signer can be attached to several instructions
+ * but signs once
+ */
+function getTransactionSigners(instructions: Instruction<string>[], feePayer: TransactionSigner): TransactionSigner[] {
+  const signers = new Map<string, TransactionSigner>([[feePayer.address, feePayer]]);
+  for (const signer of instructions.flatMap(instruction => getSignersFromInstruction(instruction))) {
+    if (!signers.has(signer.address)) {
+      signers.set(signer.address, signer);
+    }
+  }
+  return [...signers.values()];
+}
@@ -0,0 +1,120 @@
+/**
+ * Signer backends
+ * Scripts sign through Kit's TransactionSigner and MessageSigner interfaces instead of holding a
+ * CryptoKeyPair, so a secret key can stay in the encrypted keystore until a signature is needed,
+ * or never reach this process at all when a remote signing service holds it
+ */
+
+import {
+  createSignerFromKeyPair,
+  getBase58Encoder,
+  getPublicKeyFromAddress,
+  signBytes,
+  verifySignature,
+  type Address,
+  type MessagePartialSigner,
+  type SignatureBytes,
+  type TransactionPartialSigner,
+} from '@solana/kit';
+import { REMOTE_SIGNER_TOKEN } from './env';
+
+// Signs both transactions and off-chain messages, whatever holds the key
+export type WalletSigner = TransactionPartialSigner & MessagePartialSigner;
+
+// Remote signing protocol: POST { address, message } to the service URL, answered with { signature }
+export interface RemoteSignRequest {
+  address: Address;
+  message: string; // base64 bytes to sign, the compiled message for transactions
+}
+
+export interface RemoteSignResponse {
+  signature: string; // base58 Ed25519 signature
+}
+
+// Services may wait for a human to approve the request
+const REMOTE_SIGNER_TIMEOUT_MS = 120_000;
+
+/**
+ * Builds a signer from a function that signs raw bytes, transactions sign their message bytes
+ */
+function createBytesSigner(
+  signerAddress: Address,
+  sign: (bytes: Uint8Array) => Promise<SignatureBytes>
+): WalletSigner {
+  return Object.freeze({
+    address: signerAddress,
+    signMessages: async (messages) => {
+      const signatures = [];
+      for (const message of messages) {
+        signatures.push(Object.freeze({ [signerAddress]: await sign(message.content) }));
+      }
+      return signatures;
+    },
+    signTransactions: async (transactions) => {
+      const signatures = [];
+      for (const transaction of transactions) {
+        signatures.push(Object.freeze({ [signerAddress]: await sign(new Uint8Array(transaction.messageBytes)) }));
+      }
+      return signatures;
+    },
+  });
+}
+
+/**
+ * Signer for a keypair already in memory
+ */
+export async function createKeypairSigner(keypair: CryptoKeyPair): Promise<WalletSigner> {
+  return await createSignerFromKeyPair(keypair);
+}
+
+/**
+ * Signer for an encrypted keystore wallet, the key is only decrypted while signing
+ */
+export function createKeystoreSigner(
+  signerAddress: Address,
+  unlock: () => Promise<CryptoKeyPair>
+): WalletSigner {
+  return createBytesSigner(signerAddress, async (bytes) => {
+    const keypair = await unlock();
+    return await signBytes(keypair.privateKey, bytes);
+  });
+}
+
+/**
+ * Signer that asks a remote signing service for each signature
+ * The returned signature is verified locally, a misbehaving service cannot slip in a bad one
+ */
+export function createRemoteSigner(signerAddress: Address, url: string): WalletSigner {
+  return createBytesSigner(signerAddress, async (bytes) => {
+    const request: RemoteSignRequest = {
+      address: signerAddress,
+      message: Buffer.from(bytes).toString('base64'),
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(REMOTE_SIGNER_TOKEN ? { Authorization: `Bearer ${REMOTE_SIGNER_TOKEN}` } : {}),
+        },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(REMOTE_SIGNER_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new Error(`Remote signer ${url} is unreachable: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Remote signer ${url} refused to sign for ${signerAddress}: ${response.status} ${await response.text()}`);
+    }
+
+    const { signature } = await response.json() as RemoteSignResponse;
+    const signatureBytes = getBase58Encoder().encode(signature) as SignatureBytes;
+    const publicKey = await getPublicKeyFromAddress(signerAddress);
+    if (signatureBytes.length !== 64 || !await verifySignature(publicKey, signatureBytes, bytes)) {
+      throw new Error(`Remote signer ${url} returned an invalid signature for ${signerAddress}`);
+    }
+    return signatureBytes;
+  });
+}
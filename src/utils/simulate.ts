@@ -0,0 +1,369 @@
+/**
+ * Execution simulation for proposals
+ * Builds the transaction that would execute a vault transaction and runs it through
+ * simulateTransaction without signatures, reporting logs, compute and balance changes.
+ * Proposals that can't be executed yet are simulated from their inner message instead,
+ * with the vault and ephemeral signers as unchecked signers, so members can check them before voting
+ */
+
+import {
+  fetchMaybeProposal,
+  fetchMultisig,
+  fetchVaultTransaction,
+  getProposalPda,
+  getTransactionPda,
+  getVaultPda,
+  type VaultTransactionMessage,
+} from './squads/index';
+import {
+  address,
+  appendTransactionMessageInstructions,
+  compileTransaction,
+  compressTransactionMessageUsingAddressLookupTables,
+  createNoopSigner,
+  createTransactionMessage,
+  getBase64EncodedWireTransaction,
+  getBase64Encoder,
+  isWritableRole,
+  pipe,
+  setTransactionMessageFeePayer,
+  setTransactionMessageLifetimeUsingBlockhash,
+  upgradeRoleToSigner,
+  type AccountMeta,
+  type Address,
+  type AddressesByLookupTableAddress,
+  type Instruction,
+  type ReadonlyUint8Array,
+  type TransactionError,
+} from '@solana/kit';
+import { getSetComputeUnitLimitInstruction } from '@solana-program/compute-budget';
+import { TOKEN_PROGRAM_ADDRESS, getTokenDecoder, getTokenSize } from '@solana-program/token';
+import { rpc } from './rpc';
+import { promptYesNo } from './prompt';
+import { buildVaultTransactionExecute, resolveExecuteAccounts, type ResolvedExecuteAccounts } from './executeAccounts';
+import {
+  createDecodeContext,
+  formatTokenAmount,
+  getMessageLabels,
+  getMintDisplay,
+  shortenAddress,
+  type DecodeContext,
+} from './instructionDecoder';
+import { TOKEN_2022_PROGRAM_ADDRESS } from './constants';
+import { detectTransactionAccountKind } from './rentCleanup';
+import { getClusterTime, getExecutableAt } from './timeLock';
+import { decodeSimulationError, formatTransactionFailure, type TransactionFailedError } from './programErrors';
+
+// Simulations run with the maximum budget so compute used isn't capped by the default limit
+const SIMULATION_COMPUTE_UNITS = 1_400_000;
+
+// Token-2022 accounts with extensions store their account type right after the base layout
+const TOKEN_2022_ACCOUNT_TYPE = 2;
+
+export type SimulationMode = 'execute' | 'message';
+
+interface AccountBalance {
+  lamports: bigint;
+  token: { mint: Address; amount: bigint } | null;
+}
+
+export interface BalanceChange {
+  account: Address;
+  before: AccountBalance | null;
+  after: AccountBalance | null;
+}
+
+export interface ExecutionSimulation {
+  transactionIndex: bigint;
+  // 'execute' simulates vaultTransactionExecute, 'message' the inner instructions of a proposal not yet executable
+  mode: SimulationMode;
+  err: TransactionError | null;
+  // Decoded program error of a failed simulation
+  failure: TransactionFailedError | null;
+  logs: string[];
+  unitsConsumed: bigint | null;
+  balanceChanges: BalanceChange[];
+  context: DecodeContext;
+}
+
+interface SimulationPlan {
+  instructions: Instruction[];
+  lookupTables: AddressesByLookupTableAddress;
+  // Accounts the inner message may change, the vault first
+  watchedAccounts: Address[];
+}
+
+function toAccountBalance(lamports: bigint, owner: Address, data: ReadonlyUint8Array): AccountBalance {
+  const isTokenAccount =
+    (owner === TOKEN_PROGRAM_ADDRESS && data.length === getTokenSize()) ||
+    (owner === TOKEN_2022_PROGRAM_ADDRESS && data.length > getTokenSize() && data[getTokenSize()] === TOKEN_2022_ACCOUNT_TYPE);
+
+  if (!isTokenAccount) {
+    return { lamports, token: null };
+  }
+
+  const token = getTokenDecoder().decode(data.slice(0, getTokenSize()));
+  return { lamports, token: { mint: token.mint, amount: token.amount } };
+}
+
+async function fetchBalances(accounts: Address[]): Promise<(AccountBalance | null)[]> {
+  const base64 = getBase64Encoder();
+  const { value } = await rpc.getMultipleAccounts(accounts, { encoding: 'base64' }).send();
+  return value.map(account => account
+    ? toAccountBalance(account.lamports, account.owner, base64.encode(account.data[0]))
+    : null);
+}
+
+/**
+ * Accounts of the inner message with their roles from the message header, ordered like its account keys
+ * The vault and ephemeral signers keep their signer role, which only works because signatures aren't verified
+ */
+function getMessageAccountMetas(message: VaultTransactionMessage, resolved: ResolvedExecuteAccounts): AccountMeta[] {
+  const lookupTableCount = Object.keys(resolved.lookupTables).length;
+  return resolved.remainingAccounts.slice(lookupTableCount).map((account, index) => ({
+    address: account.address,
+    role: index < message.numSigners ? upgradeRoleToSigner(account.role) : account.role,
+  }));
+}
+
+function getMessageInstructions(message: VaultTransactionMessage, accountMetas: AccountMeta[]): Instruction[] {
+  return message.instructions.map(compiled => {
+    const program = accountMetas[compiled.programIdIndex];
+    if (!program) {
+      throw new Error(`Program index ${compiled.programIdIndex} is out of range`);
+    }
+    return {
+      programAddress: program.address,
+      accounts: [...compiled.accountIndexes].map(index => {
+        const account = accountMetas[index];
+        if (!account) {
+          throw new Error(`Account index ${index} is out of range`);
+        }
+        return account;
+      }),
+      data: compiled.data,
+    };
+  });
+}
+
+async function planSimulation(
+  multisigPda: string,
+  transactionIndex: bigint,
+  member: Address,
+  mode: SimulationMode,
+  message: VaultTransactionMessage,
+  transactionPda: string,
+  vaultPda: string,
+  ephemeralSigners: number
+): Promise<SimulationPlan> {
+  const resolved = await resolveExecuteAccounts(message, transactionPda, vaultPda, ephemeralSigners);
+  const accountMetas = getMessageAccountMetas(message, resolved);
+  const watchedAccounts = [...new Set([
+    address(vaultPda),
+    ...accountMetas.filter(account => isWritableRole(account.role)).map(account => account.address),
+  ])];
+
+  if (mode === 'message') {
+    return {
+      instructions: getMessageInstructions(message, accountMetas),
+      lookupTables: resolved.lookupTables,
+      watchedAccounts,
+    };
+  }
+
+  // The member only has to sign for real, a noop signer is enough to build the instruction
+  const { instruction, lookupTables } = await buildVaultTransactionExecute(
+    multisigPda,
+    transactionIndex,
+    createNoopSigner(member)
+  );
+  return { instructions: [instruction], lookupTables, watchedAccounts };
+}
+
+/**
+ * Simulates executing the vault transaction at `transactionIndex` with `member` as executor and fee payer
+ */
+export async function simulateProposalExecution(
+  multisigPda: string,
+  transactionIndex: bigint,
+  member: Address
+): Promise<ExecutionSimulation> {
+  const kind = await detectTransactionAccountKind(multisigPda, transactionIndex);
+  if (kind !== 'vault') {
+    throw new Error(kind
+      ? `Transaction #${transactionIndex} is a ${kind} transaction, only vault transactions can be simulated`
+      : `No vault transaction found for transaction #${transactionIndex}`);
+  }
+
+  const [transactionPda] = await getTransactionPda(multisigPda, transactionIndex);
+  const [proposalPda] = await getProposalPda(multisigPda, transactionIndex);
+  const [multisig, vaultTransaction, proposal] = await Promise.all([
+    fetchMultisig(rpc, address(multisigPda)),
+    fetchVaultTransaction(rpc, address(transactionPda)),
+    fetchMaybeProposal(rpc, address(proposalPda)),
+  ]);
+
+  // vaultTransactionExecute fails until the proposal is Approved and its time lock has passed
+  const executableAt = proposal.exists ? getExecutableAt(proposal.data, multisig.data.timeLock) : null;
+  const mode: SimulationMode = executableAt !== null && await getClusterTime() >= executableAt ? 'execute' : 'message';
+
+  const { message, vaultIndex, ephemeralSignerBumps } = vaultTransaction.data;
+  const [vaultPda] = await getVaultPda(multisigPda, vaultIndex);
+  const plan = await planSimulation(
+    multisigPda,
+    transactionIndex,
+    member,
+    mode,
+    message,
+    transactionPda,
+    vaultPda,
+    ephemeralSignerBumps.length
+  );
+
+  // The blockhash is replaced by the RPC node, any recent one compiles
+  const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
+  const transactionMessage = pipe(
+    createTransactionMessage({ version: 0 }),
+    tx => setTransactionMessageFeePayer(member, tx),
+    tx => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+    tx => appendTransactionMessageInstructions([
+      getSetComputeUnitLimitInstruction({ units: SIMULATION_COMPUTE_UNITS }),
+      ...plan.instructions,
+    ], tx),
+    tx => compressTransactionMessageUsingAddressLookupTables(tx, plan.lookupTables),
+  );
+  const wireTransaction = getBase64EncodedWireTransaction(compileTransaction(transactionMessage));
+
+  const before = await fetchBalances(plan.watchedAccounts);
+  const { value: simulation } = await rpc
+    .simulateTransaction(wireTransaction, {
+      encoding: 'base64',
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: { addresses: plan.watchedAccounts, encoding: 'base64' },
+    })
+    .send();
+
+  // Post-simulation accounts are only returned when the simulation succeeds
+  const base64 = getBase64Encoder();
+  const balanceChanges = simulation.err ? [] : plan.watchedAccounts.map((account, index) => {
+    const after = simulation.accounts?.[index];
+    return {
+      account,
+      before: before[index] ?? null,
+      after: after ? toAccountBalance(after.lamports, after.owner, base64.encode(after.data[0])) : null,
+    };
+  });
+
+  const labels = await getMessageLabels(multisigPda, vaultIndex, transactionPda, ephemeralSignerBumps.length);
+
+  return {
+    transactionIndex,
+    mode,
+    err: simulation.err,
+    failure: simulation.err
+      ? decodeSimulationError(simulation.err, {
+          logs: simulation.logs,
+          instructions: plan.instructions,
+          instructionOffset: 1,
+        })
+      : null,
+    logs: simulation.logs ?? [],
+    unitsConsumed: simulation.unitsConsumed ?? null,
+    balanceChanges,
+    context: createDecodeContext(labels),
+  };
+}
+
+function formatSignedDelta(delta: bigint, format: (amount: bigint) => string): string {
+  return delta < 0n ? `-${format(-delta)}` : `+${format(delta)}`;
+}
+
+async function describeBalanceChange(change: BalanceChange, context: DecodeContext): Promise<string[]> {
+  const name = context.labels.get(change.account) ?? shortenAddress(change.account);
+  const lines: string[] = [];
+
+  const lamportsBefore = change.before?.lamports ?? 0n;
+  const lamportsAfter = change.after?.lamports ?? 0n;
+  if (lamportsBefore !== lamportsAfter) {
+    const sol = (lamports: bigint) => `${formatTokenAmount(lamports, 9)} SOL`;
+    const state = !change.before ? ' (created)' : !change.after ? ' (closed)' : '';
+    lines.push(`${name}: ${sol(lamportsBefore)} → ${sol(lamportsAfter)} (${formatSignedDelta(lamportsAfter - lamportsBefore, sol)})${state}`);
+  }
+
+  const token = change.after?.token ?? change.before?.token;
+  if (token) {
+    const tokensBefore = change.before?.token?.amount ?? 0n;
+    const tokensAfter = change.after?.token?.amount ?? 0n;
+    if (tokensBefore !== tokensAfter) {
+      const mint = await getMintDisplay(context, token.mint);
+      const amount = (value: bigint) => mint
+        ? `${formatTokenAmount(value, mint.decimals)} ${mint.symbol}`
+        : `${value} base units of ${shortenAddress(token.mint)}`;
+      lines.push(`${name} token account: ${amount(tokensBefore)} → ${amount(tokensAfter)} (${formatSignedDelta(tokensAfter - tokensBefore, amount)})`);
+    }
+  }
+
+  return lines;
+}
+
+export async function displaySimulation(simulation: ExecutionSimulation): Promise<void> {
+  console.log(`\n🧪 Simulation of transaction #${simulation.transactionIndex}:`);
+  if (simulation.mode === 'execute') {
+    console.log('📋 Simulated: vaultTransactionExecute');
+  } else {
+    console.log('📋 Simulated: the vault transaction instructions (the proposal is not executable yet)');
+  }
+
+  if (simulation.failure) {
+    console.log(`❌ Simulation failed: ${formatTransactionFailure(simulation.failure)}`);
+  } else {
+    console.log('✅ Simulation succeeded');
+  }
+
+  if (simulation.unitsConsumed !== null) {
+    console.log(`⚙️  Compute Used: ${simulation.unitsConsumed} units`);
+  }
+
+  if (!simulation.err) {
+    const changes: string[] = [];
+    for (const change of simulation.balanceChanges) {
+      changes.push(...await describeBalanceChange(change, simulation.context));
+    }
+    console.log('💰 Balance Changes:');
+    console.log(changes.length > 0 ? changes.map(line => `   ${line}`).join('\n') : '   None');
+  }
+
+  if (simulation.logs.length > 0) {
+    console.log('📜 Logs:');
+    simulation.logs.forEach(log => console.log(`   ${log}`));
+  }
+}
+
+/**
+ * Offers a simulation before `action` and returns whether to go on
+ * A failed simulation asks for confirmation, a failure to simulate at all is only reported
+ */
+export async function confirmWithSimulation(
+  multisigPda: string,
+  transactionIndex: bigint,
+  member: Address,
+  action: string
+): Promise<boolean> {
+  if (!await promptYesNo(`\n🧪 Simulate execution before you ${action}?`)) {
+    return true;
+  }
+
+  try {
+    const simulation = await simulateProposalExecution(multisigPda, transactionIndex, member);
+    await displaySimulation(simulation);
+    if (!simulation.err) {
+      return true;
+    }
+  } catch (error) {
+    console.log(`⚠️  Could not simulate transaction #${transactionIndex}: ${error instanceof Error ? error.message : error}`);
+    return true;
+  }
+
+  return promptYesNo(`⚠️  The simulation failed, ${action} anyway?`);
+}
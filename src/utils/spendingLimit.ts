@@ -0,0 +1,181 @@
+/**
+ * Spending limit helpers shared by the spend and config tools
+ * Mirrors how the Squads program resets and checks a SpendingLimit account
+ * and discovers the limits of a multisig, whose addresses derive from unsaved create keys
+ */
+
+import {
+  Period,
+  SPENDING_LIMIT_DISCRIMINATOR,
+  SQUADS_MULTISIG_PROGRAM_PROGRAM_ADDRESS,
+  getSpendingLimitDecoder,
+  type SpendingLimit,
+} from './squads/index';
+import {
+  address,
+  getBase58Decoder,
+  getBase64Encoder,
+  type Address,
+  type Base58EncodedBytes,
+} from '@solana/kit';
+import { rpc } from './rpc';
+import { getMultisigMemcmpFilter } from './programAccounts';
+import { prompt } from './prompt';
+import { getMintInfo } from './getMint';
+
+export interface SpendingLimitEntry {
+  address: Address;
+  data: SpendingLimit;
+}
+
+export interface SpendingLimitMint {
+  decimals: number;
+  // null for SOL limits, which transfer lamports through the system program
+  tokenProgram: Address | null;
+}
+
+// A spending limit with the default pubkey as mint is denominated in SOL
+export const SPENDING_LIMIT_SOL_MINT = '11111111111111111111111111111111';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Reset period lengths used by the program, OneTime limits never reset
+const PERIOD_SECONDS: Record<Period, bigint | null> = {
+  [Period.OneTime]: null,
+  [Period.Day]: BigInt(SECONDS_PER_DAY),
+  [Period.Week]: BigInt(7 * SECONDS_PER_DAY),
+  [Period.Month]: BigInt(30 * SECONDS_PER_DAY),
+};
+
+export function isSolSpendingLimit(spendingLimit: SpendingLimit): boolean {
+  return spendingLimit.mint === SPENDING_LIMIT_SOL_MINT;
+}
+
+export function describePeriod(period: Period): string {
+  return Period[period];
+}
+
+/**
+ * Remaining amount as the program will see it, including the reset it applies
+ * lazily on the next use once a full period has passed since the last reset
+ */
+export function getAvailableAmount(spendingLimit: SpendingLimit, now: bigint = BigInt(Math.floor(Date.now() / 1000))): bigint {
+  const periodSeconds = PERIOD_SECONDS[spendingLimit.period];
+  if (periodSeconds !== null && now - spendingLimit.lastReset > periodSeconds) {
+    return spendingLimit.amount;
+  }
+  return spendingLimit.remainingAmount;
+}
+
+/**
+ * Unix timestamp of the next reset, or null for OneTime limits
+ */
+export function getNextReset(spendingLimit: SpendingLimit, now: bigint = BigInt(Math.floor(Date.now() / 1000))): bigint | null {
+  const periodSeconds = PERIOD_SECONDS[spendingLimit.period];
+  if (periodSeconds === null) {
+    return null;
+  }
+
+  const periodsPassed = (now - spendingLimit.lastReset) / periodSeconds;
+  return spendingLimit.lastReset + (periodsPassed + 1n) * periodSeconds;
+}
+
+export function formatTimestamp(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toLocaleString();
+}
+
+function formatAmount(amount: bigint, decimals: number): string {
+  return (Number(amount) / Math.pow(10, decimals)).toString();
+}
+
+/**
+ * Finds every SpendingLimit account of the multisig
+ * Filters on the account discriminator and the multisig field right after it
+ */
+export async function fetchSpendingLimits(multisigPda: string): Promise<SpendingLimitEntry[]> {
+  const base58 = getBase58Decoder();
+
+  const accounts = await rpc
+    .getProgramAccounts(SQUADS_MULTISIG_PROGRAM_PROGRAM_ADDRESS, {
+      encoding: 'base64',
+      filters: [
+        {
+          memcmp: {
+            offset: 0n,
+            bytes: base58.decode(SPENDING_LIMIT_DISCRIMINATOR) as Base58EncodedBytes,
+            encoding: 'base58',
+          },
+        },
+        getMultisigMemcmpFilter(address(multisigPda)),
+      ],
+    })
+    .send();
+
+  const decoder = getSpendingLimitDecoder();
+  const base64 = getBase64Encoder();
+
+  return accounts.map(account => ({
+    address: address(account.pubkey),
+    data: decoder.decode(base64.encode(account.account.data[0])),
+  }));
+}
+
+export async function getSpendingLimitMint(spendingLimit: SpendingLimit): Promise<SpendingLimitMint> {
+  // SOL limits are in lamports, SPL limits in the mint's base units
+  if (isSolSpendingLimit(spendingLimit)) {
+    return { decimals: 9, tokenProgram: null };
+  }
+
+  const mintInfo = await getMintInfo(spendingLimit.mint);
+  if (!mintInfo) {
+    throw new Error(`Could not fetch mint ${spendingLimit.mint}`);
+  }
+  return { decimals: mintInfo.data.decimals, tokenProgram: address(mintInfo.programAddress) };
+}
+
+export function formatSpendingLimitAmount(amount: bigint, spendingLimit: SpendingLimit, decimals: number): string {
+  return `${formatAmount(amount, decimals)} ${isSolSpendingLimit(spendingLimit) ? 'SOL' : 'tokens'}`;
+}
+
+export function displaySpendingLimit(entry: SpendingLimitEntry, decimals: number): void {
+  const spendingLimit = entry.data;
+  const nextReset = getNextReset(spendingLimit);
+
+  console.log(`📋 Address: ${entry.address}`);
+  console.log(`   🏦 Vault Index: ${spendingLimit.vaultIndex}`);
+  console.log(`   🪙 Mint: ${isSolSpendingLimit(spendingLimit) ? 'SOL' : spendingLimit.mint}`);
+  console.log(`   💵 Limit: ${formatSpendingLimitAmount(spendingLimit.amount, spendingLimit, decimals)} per ${describePeriod(spendingLimit.period)}`);
+  console.log(`   💰 Remaining: ${formatSpendingLimitAmount(getAvailableAmount(spendingLimit), spendingLimit, decimals)}`);
+  console.log(`   🕐 Last Reset: ${formatTimestamp(spendingLimit.lastReset)}`);
+  console.log(`   🕐 Next Reset: ${nextReset === null ? 'Never (one time)' : formatTimestamp(nextReset)}`);
+  console.log(`   👥 Members: ${spendingLimit.members.join(', ')}`);
+  console.log(`   📍 Destinations: ${spendingLimit.destinations.length > 0 ? spendingLimit.destinations.join(', ') : 'Any'}`);
+}
+
+export async function displaySpendingLimits(multisigPda: string): Promise<SpendingLimitEntry[]> {
+  const spendingLimits = await fetchSpendingLimits(multisigPda);
+
+  console.log(`\n💳 Spending Limits: ${spendingLimits.length}`);
+  for (const [index, entry] of spendingLimits.entries()) {
+    const { decimals } = await getSpendingLimitMint(entry.data);
+    console.log(`\n${index + 1}.`);
+    displaySpendingLimit(entry, decimals);
+  }
+
+  return spendingLimits;
+}
+
+export async function selectSpendingLimit(multisigPda: string, action: string): Promise<SpendingLimitEntry> {
+  const spendingLimits = await displaySpendingLimits(multisigPda);
+  if (spendingLimits.length === 0) {
+    throw new Error('No spending limits found for this multisig');
+  }
+
+  const choice = await prompt(`\nSelect spending limit to ${action} (1-${spendingLimits.length}): `);
+  const selected = spendingLimits[parseInt(choice || '0') - 1];
+  if (!selected) {
+    throw new Error('Invalid spending limit selection');
+  }
+
+  return selected;
+}
@@ -59,7 +59,7 @@ export type VaultTransactionCreateFromBufferInstruction<
     | string
     | AccountMeta<string> = '11111111111111111111111111111111',
   TAccountTransactionBuffer extends string | AccountMeta<string> = string,
-  TAccountCreator extends string | AccountMeta<string> = string,
+  TAccountBufferCreator extends string | AccountMeta<string> = string,
   TRemainingAccounts extends readonly AccountMeta<string>[] = [],
 > = Instruction<TProgram> &
   InstructionWithData<ReadonlyUint8Array> &
@@ -85,10 +85,10 @@ export type VaultTransactionCreateFromBufferInstruction<
       TAccountTransactionBuffer extends string
         ? WritableAccount<TAccountTransactionBuffer>
         : TAccountTransactionBuffer,
-      TAccountCreator extends string
-        ? WritableSignerAccount<TAccountCreator> &
-            AccountSignerMeta<TAccountCreator>
-        : TAccountCreator,
+      TAccountBufferCreator extends string
+        ? WritableSignerAccount<TAccountBufferCreator> &
+            AccountSignerMeta<TAccountBufferCreator>
+        : TAccountBufferCreator,
       ...TRemainingAccounts,
     ]
   >;
@@ -139,7 +139,7 @@ export type VaultTransactionCreateFromBufferInput<
   TAccountRentPayer extends string = string,
   TAccountSystemProgram extends string = string,
   TAccountTransactionBuffer extends string = string,
-  TAccountCreator extends string = string,
+  TAccountBufferCreator extends string = string,
 > = {
   multisig: Address<TAccountMultisig>;
   transaction: Address<TAccountTransaction>;
@@ -149,7 +149,7 @@ export type VaultTransactionCreateFromBufferInput<
   rentPayer: TransactionSigner<TAccountRentPayer>;
   systemProgram?: Address<TAccountSystemProgram>;
   transactionBuffer: Address<TAccountTransactionBuffer>;
-  creator: TransactionSigner<TAccountCreator>;
+  bufferCreator: TransactionSigner<TAccountBufferCreator>;
   args: VaultTransactionCreateFromBufferInstructionDataArgs['args'];
 };
 
@@ -160,7 +160,7 @@ export function getVaultTransactionCreateFromBufferInstruction<
   TAccountRentPayer extends string,
   TAccountSystemProgram extends string,
   TAccountTransactionBuffer extends string,
-  TAccountCreator extends string,
+  TAccountBufferCreator extends string,
   TProgramAddress extends
     Address = typeof SQUADS_MULTISIG_PROGRAM_PROGRAM_ADDRESS,
 >(
@@ -171,7 +171,7 @@ export function getVaultTransactionCreateFromBufferInstruction<
     TAccountRentPayer,
     TAccountSystemProgram,
     TAccountTransactionBuffer,
-    TAccountCreator
+    TAccountBufferCreator
   >,
   config?: { programAddress?: TProgramAddress }
 ): VaultTransactionCreateFromBufferInstruction<
@@ -182,7 +182,7 @@ export function getVaultTransactionCreateFromBufferInstruction<
   TAccountRentPayer,
   TAccountSystemProgram,
   TAccountTransactionBuffer,
-  TAccountCreator
+  TAccountBufferCreator
 > {
   // Program address.
   const programAddress =
@@ -199,7 +199,7 @@ export function getVaultTransactionCreateFromBufferInstruction<
       value: input.transactionBuffer ?? null,
       isWritable: true,
     },
-    creator: { value: input.creator ?? null, isWritable: true },
+    bufferCreator: { value: input.bufferCreator ?? null, isWritable: true },
   };
   const accounts = originalAccounts as Record<
     keyof typeof originalAccounts,
@@ -207,7 +207,7 @@ export function getVaultTransactionCreateFromBufferInstruction<
   >;
 
   // Original args.
-  const args = { ...input, creator: input.creatorArg };
+  const args = { ...input };
 
   // Resolve default values.
   if (!accounts.systemProgram.value) {
@@ -224,7 +224,7 @@ export function getVaultTransactionCreateFromBufferInstruction<
       getAccountMeta(accounts.rentPayer),
       getAccountMeta(accounts.systemProgram),
       getAccountMeta(accounts.transactionBuffer),
-      getAccountMeta(accounts.creator),
+      getAccountMeta(accounts.bufferCreator),
     ],
     programAddress,
     data: getVaultTransactionCreateFromBufferInstructionDataEncoder().encode(
@@ -238,7 +238,7 @@ export function getVaultTransactionCreateFromBufferInstruction<
     TAccountRentPayer,
     TAccountSystemProgram,
     TAccountTransactionBuffer,
-    TAccountCreator
+    TAccountBufferCreator
   >;
 
   return instruction;
@@ -258,7 +258,7 @@ export type ParsedVaultTransactionCreateFromBufferInstruction<
     rentPayer: TAccountMetas[3];
     systemProgram: TAccountMetas[4];
     transactionBuffer: TAccountMetas[5];
-    creator: TAccountMetas[6];
+    bufferCreator: TAccountMetas[6];
   };
   data: VaultTransactionCreateFromBufferInstructionData;
 };
@@ -290,7 +290,7 @@ export function parseVaultTransactionCreateFromBufferInstruction<
       rentPayer: getNextAccount(),
       systemProgram: getNextAccount(),
       transactionBuffer: getNextAccount(),
-      creator: getNextAccount(),
+      bufferCreator: getNextAccount(),
     },
     data: getVaultTransactionCreateFromBufferInstructionDataDecoder().decode(
       instruction.data
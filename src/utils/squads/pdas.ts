@@ -186,3 +186,24 @@ export async function getSpendingLimitPda(multisig: string, createKey: string, v
   });
   return [pda, bump];
 }
+
+/**
+ * Derives the transaction buffer PDA from multisig, creator, and buffer index
+ */
+export async function getTransactionBufferPda(multisig: string, creator: string, bufferIndex: number): Promise<[string, number]> {
+  if (bufferIndex < 0 || bufferIndex >= 256) {
+    throw new Error('Invalid buffer index');
+  }
+
+  const [pda, bump] = await getProgramDerivedAddress({
+    programAddress: SQUADS_MULTISIG_PROGRAM_PROGRAM_ADDRESS,
+    seeds: [
+      SEED_PREFIX,
+      addressEncoder.encode(address(multisig)),
+      SEED_TRANSACTION_BUFFER,
+      addressEncoder.encode(address(creator)),
+      new Uint8Array([bufferIndex]),
+    ],
+  });
+  return [pda, bump];
+}
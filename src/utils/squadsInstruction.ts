@@ -0,0 +1,134 @@
+/**
+ * Parses any Squads program instruction into its typed accounts and arguments
+ * The generated client only ships the per-instruction parsers and the
+ * ParsedSquadsMultisigProgramInstruction union, this ties them together
+ */
+
+import {
+  SquadsMultisigProgramInstruction,
+  identifySquadsMultisigProgramInstruction,
+  parseProgramConfigInitInstruction,
+  parseProgramConfigSetAuthorityInstruction,
+  parseProgramConfigSetMultisigCreationFeeInstruction,
+  parseProgramConfigSetTreasuryInstruction,
+  parseMultisigCreateInstruction,
+  parseMultisigCreateV2Instruction,
+  parseMultisigAddMemberInstruction,
+  parseMultisigRemoveMemberInstruction,
+  parseMultisigSetTimeLockInstruction,
+  parseMultisigChangeThresholdInstruction,
+  parseMultisigSetConfigAuthorityInstruction,
+  parseMultisigSetRentCollectorInstruction,
+  parseMultisigAddSpendingLimitInstruction,
+  parseMultisigRemoveSpendingLimitInstruction,
+  parseConfigTransactionCreateInstruction,
+  parseConfigTransactionExecuteInstruction,
+  parseVaultTransactionCreateInstruction,
+  parseTransactionBufferCreateInstruction,
+  parseTransactionBufferCloseInstruction,
+  parseTransactionBufferExtendInstruction,
+  parseVaultTransactionCreateFromBufferInstruction,
+  parseVaultTransactionExecuteInstruction,
+  parseBatchCreateInstruction,
+  parseBatchAddTransactionInstruction,
+  parseBatchExecuteTransactionInstruction,
+  parseProposalCreateInstruction,
+  parseProposalActivateInstruction,
+  parseProposalApproveInstruction,
+  parseProposalRejectInstruction,
+  parseProposalCancelInstruction,
+  parseProposalCancelV2Instruction,
+  parseSpendingLimitUseInstruction,
+  parseConfigTransactionAccountsCloseInstruction,
+  parseVaultTransactionAccountsCloseInstruction,
+  parseVaultBatchTransactionAccountCloseInstruction,
+  parseBatchAccountsCloseInstruction,
+  type ParsedSquadsMultisigProgramInstruction,
+} from './squads/index';
+import type {
+  AccountMeta,
+  Instruction,
+  InstructionWithAccounts,
+  InstructionWithData,
+  ReadonlyUint8Array,
+} from '@solana/kit';
+
+export function parseSquadsMultisigProgramInstruction<TProgram extends string>(
+  instruction: Instruction<TProgram> & InstructionWithAccounts<readonly AccountMeta[]> & InstructionWithData<ReadonlyUint8Array>
+): ParsedSquadsMultisigProgramInstruction<TProgram> {
+  const instructionType = identifySquadsMultisigProgramInstruction(instruction);
+  switch (instructionType) {
+    case SquadsMultisigProgramInstruction.ProgramConfigInit:
+      return { instructionType, ...parseProgramConfigInitInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.ProgramConfigSetAuthority:
+      return { instructionType, ...parseProgramConfigSetAuthorityInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.ProgramConfigSetMultisigCreationFee:
+      return { instructionType, ...parseProgramConfigSetMultisigCreationFeeInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.ProgramConfigSetTreasury:
+      return { instructionType, ...parseProgramConfigSetTreasuryInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.MultisigCreate:
+      return { instructionType, ...parseMultisigCreateInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.MultisigCreateV2:
+      return { instructionType, ...parseMultisigCreateV2Instruction(instruction) };
+    case SquadsMultisigProgramInstruction.MultisigAddMember:
+      return { instructionType, ...parseMultisigAddMemberInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.MultisigRemoveMember:
+      return { instructionType, ...parseMultisigRemoveMemberInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.MultisigSetTimeLock:
+      return { instructionType, ...parseMultisigSetTimeLockInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.MultisigChangeThreshold:
+      return { instructionType, ...parseMultisigChangeThresholdInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.MultisigSetConfigAuthority:
+      return { instructionType, ...parseMultisigSetConfigAuthorityInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.MultisigSetRentCollector:
+      return { instructionType, ...parseMultisigSetRentCollectorInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.MultisigAddSpendingLimit:
+      return { instructionType, ...parseMultisigAddSpendingLimitInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.MultisigRemoveSpendingLimit:
+      return { instructionType, ...parseMultisigRemoveSpendingLimitInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.ConfigTransactionCreate:
+      return { instructionType, ...parseConfigTransactionCreateInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.ConfigTransactionExecute:
+      return { instructionType, ...parseConfigTransactionExecuteInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.VaultTransactionCreate:
+      return { instructionType, ...parseVaultTransactionCreateInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.TransactionBufferCreate:
+      return { instructionType, ...parseTransactionBufferCreateInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.TransactionBufferClose:
+      return { instructionType, ...parseTransactionBufferCloseInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.TransactionBufferExtend:
+      return { instructionType, ...parseTransactionBufferExtendInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.VaultTransactionCreateFromBuffer:
+      return { instructionType, ...parseVaultTransactionCreateFromBufferInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.VaultTransactionExecute:
+      return { instructionType, ...parseVaultTransactionExecuteInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.BatchCreate:
+      return { instructionType, ...parseBatchCreateInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.BatchAddTransaction:
+      return { instructionType, ...parseBatchAddTransactionInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.BatchExecuteTransaction:
+      return { instructionType, ...parseBatchExecuteTransactionInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.ProposalCreate:
+      return { instructionType, ...parseProposalCreateInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.ProposalActivate:
+      return { instructionType, ...parseProposalActivateInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.ProposalApprove:
+      return { instructionType, ...parseProposalApproveInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.ProposalReject:
+      return { instructionType, ...parseProposalRejectInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.ProposalCancel:
+      return { instructionType, ...parseProposalCancelInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.ProposalCancelV2:
+      return { instructionType, ...parseProposalCancelV2Instruction(instruction) };
+    case SquadsMultisigProgramInstruction.SpendingLimitUse:
+      return { instructionType, ...parseSpendingLimitUseInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.ConfigTransactionAccountsClose:
+      return { instructionType, ...parseConfigTransactionAccountsCloseInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.VaultTransactionAccountsClose:
+      return { instructionType, ...parseVaultTransactionAccountsCloseInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.VaultBatchTransactionAccountClose:
+      return { instructionType, ...parseVaultBatchTransactionAccountCloseInstruction(instruction) };
+    case SquadsMultisigProgramInstruction.BatchAccountsClose:
+      return { instructionType, ...parseBatchAccountsCloseInstruction(instruction) };
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Time lock helpers
+ * An Approved proposal can only be executed once the multisig's timeLock seconds
+ * have passed since its approval timestamp, as measured by the on-chain clock
+ */
+
+import { sleep } from 'bun';
+import { address } from '@solana/kit';
+import { fetchMaybeProposal, getProposalPda, type Proposal } from './squads/index';
+import { promptYesNo } from './prompt';
+import { rpc } from './rpc';
+import { formatTimestamp } from './spendingLimit';
+
+// How often the countdown is printed while waiting
+const WAIT_LOG_INTERVAL_SECONDS = 30;
+
+/**
+ * Unix timestamp from which the proposal can be executed, or null when it isn't Approved
+ */
+export function getExecutableAt(proposal: Proposal, timeLock: number): bigint | null {
+  if (proposal.status.__kind !== 'Approved') {
+    return null;
+  }
+  return proposal.status.timestamp + BigInt(timeLock);
+}
+
+/**
+ * Current cluster time, from the latest finalized block so it never runs ahead of the program's clock
+ * Falls back to the local clock when the block time isn't available
+ */
+export async function getClusterTime(): Promise<bigint> {
+  try {
+    const slot = await rpc.getSlot({ commitment: 'finalized' }).send();
+    const blockTime = await rpc.getBlockTime(slot).send();
+    if (blockTime !== null) {
+      return BigInt(blockTime);
+    }
+  } catch (error) {
+    // Use the local clock below
+  }
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+export function formatDuration(seconds: bigint): string {
+  let remaining = seconds > 0n ? seconds : 0n;
+  const days = remaining / 86400n;
+  remaining %= 86400n;
+  const hours = remaining / 3600n;
+  remaining %= 3600n;
+  const minutes = remaining / 60n;
+  const secs = remaining % 60n;
+
+  const parts: string[] = [];
+  if (days > 0n) parts.push(`${days}d`);
+  if (hours > 0n) parts.push(`${hours}h`);
+  if (minutes > 0n) parts.push(`${minutes}m`);
+  if (secs > 0n || parts.length === 0) parts.push(`${secs}s`);
+  return parts.join(' ');
+}
+
+export function describeExecutableAt(executableAt: bigint, now: bigint): string {
+  if (now >= executableAt) {
+    return `executable now (since ${formatTimestamp(executableAt)})`;
+  }
+  return `executable at ${formatTimestamp(executableAt)} (in ${formatDuration(executableAt - now)})`;
+}
+
+/**
+ * Sleeps until the cluster clock reaches the executable time, printing a countdown
+ */
+export async function waitUntilExecutable(executableAt: bigint): Promise<void> {
+  let now = await getClusterTime();
+
+  while (now < executableAt) {
+    const remaining = executableAt - now;
+    console.log(`⏳ Time lock: ${formatDuration(remaining)} remaining...`);
+
+    const step = remaining < BigInt(WAIT_LOG_INTERVAL_SECONDS) ? remaining : BigInt(WAIT_LOG_INTERVAL_SECONDS);
+    await sleep(Number(step) * 1000);
+    now = await getClusterTime();
+  }
+
+  console.log('✅ Time lock has passed');
+}
+
+/**
+ * Checks the proposal is Approved and its time lock has passed, waiting for it if requested
+ * The program rejects execution before approval timestamp + timeLock
+ */
+export async function ensureExecutable(
+  multisigPda: string,
+  transactionIndex: bigint,
+  timeLock: number,
+  wait: boolean
+): Promise<void> {
+  const [proposalPda] = await getProposalPda(multisigPda, transactionIndex);
+  const proposal = await fetchMaybeProposal(rpc, address(proposalPda));
+  if (!proposal.exists) {
+    throw new Error(`No proposal found for transaction #${transactionIndex}`);
+  }
+
+  const executableAt = getExecutableAt(proposal.data, timeLock);
+  if (executableAt === null) {
+    throw new Error(`Transaction #${transactionIndex} is ${proposal.data.status.__kind}, it must be Approved before execution`);
+  }
+
+  const now = await getClusterTime();
+  console.log(`⏰ Time Lock: ${timeLock} seconds`);
+  console.log(`🕐 Approved at ${formatTimestamp(executableAt - BigInt(timeLock))}, ${describeExecutableAt(executableAt, now)}`);
+  if (now >= executableAt) {
+    return;
+  }
+
+  const shouldWait = wait || await promptYesNo(`⏳ Wait ${formatDuration(executableAt - now)} for the time lock to pass?`);
+  if (!shouldWait) {
+    throw new Error(`Transaction #${transactionIndex} is time locked until ${formatTimestamp(executableAt)}`);
+  }
+  await waitUntilExecutable(executableAt);
+}
@@ -0,0 +1,242 @@
+/**
+ * Transaction buffer utilities for proposals that don't fit in a single transaction
+ * The serialized vault transaction message is uploaded in chunks to a TransactionBuffer
+ * account, verified against its hash and then turned into a vault transaction
+ */
+
+import {
+  getTransactionBufferCreateInstruction,
+  getTransactionBufferExtendInstruction,
+  getTransactionBufferCloseInstruction,
+  getVaultTransactionCreateFromBufferInstruction,
+  getTransactionBufferPda,
+  getVaultTransactionPda,
+  fetchTransactionBuffer,
+  fetchMaybeTransactionBuffer,
+} from './squads/index';
+import { pipe } from '@solana/functional';
+import {
+  address,
+  appendTransactionMessageInstructions,
+  compileTransaction,
+  createTransactionMessage,
+  getTransactionSize,
+  setTransactionMessageFeePayer,
+  setTransactionMessageLifetimeUsingBlockhash,
+  TRANSACTION_SIZE_LIMIT,
+  type Blockhash,
+  type Instruction,
+  type TransactionSigner,
+} from '@solana/kit';
+import {
+  getSetComputeUnitLimitInstruction,
+  getSetComputeUnitPriceInstruction,
+} from '@solana-program/compute-budget';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import { rpc } from './rpc';
+import { signAndSendTransaction } from './sign';
+
+// Squads caps the assembled message at 10128 bytes (10240 byte inner allocation limit minus account data)
+export const MAX_BUFFER_SIZE = 10128;
+
+// Bytes uploaded per transaction, leaving room for accounts, signatures and compute budget instructions
+const BUFFER_CHUNK_SIZE = 800;
+
+// Squads requires the inline message to be an empty (all zero) message when creating from a buffer
+const EMPTY_TRANSACTION_MESSAGE = new Uint8Array(6);
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+/**
+ * Checks whether the instructions fit in one transaction once signed and
+ * prefixed with the compute budget instructions added by prepareTransaction
+ */
+export function fitsInSingleTransaction(
+  instructions: Instruction<string>[],
+  feePayer: string,
+  signerCount: number = 1
+): boolean {
+  const computeBudgetInstructions = [
+    getSetComputeUnitLimitInstruction({ units: 1_400_000 }),
+    getSetComputeUnitPriceInstruction({ microLamports: 1_000_000n }),
+  ];
+
+  const message = pipe(
+    createTransactionMessage({ version: 0 }),
+    tx => setTransactionMessageFeePayer(address(feePayer), tx),
+    tx => setTransactionMessageLifetimeUsingBlockhash({
+      blockhash: '11111111111111111111111111111111' as Blockhash,
+      lastValidBlockHeight: 0n,
+    }, tx),
+    tx => appendTransactionMessageInstructions([...computeBudgetInstructions, ...instructions], tx),
+  );
+
+  const transaction = compileTransaction(message);
+  // Additional signers beyond the fee payer each add a 64 byte signature
+  const size = getTransactionSize(transaction) + (signerCount - 1) * 64;
+
+  return size <= TRANSACTION_SIZE_LIMIT;
+}
+
+/**
+ * Finds the first buffer index not already holding a buffer for this creator
+ */
+async function findFreeBufferIndex(multisigPda: string, creatorAddress: string): Promise<number> {
+  for (let bufferIndex = 0; bufferIndex < 256; bufferIndex++) {
+    const [bufferPda] = await getTransactionBufferPda(multisigPda, creatorAddress, bufferIndex);
+    const buffer = await fetchMaybeTransactionBuffer(rpc, address(bufferPda));
+    if (!buffer.exists) {
+      return bufferIndex;
+    }
+  }
+
+  throw new Error('All 256 transaction buffer slots are in use, close unused buffers first');
+}
+
+export async function closeTransactionBuffer(
+  creator: TransactionSigner,
+  multisigPda: string,
+  bufferIndex: number
+): Promise<void> {
+  console.log('\n🧹 Closing transaction buffer...');
+
+  try {
+    const creatorAddress = creator.address;
+    const [bufferPda] = await getTransactionBufferPda(multisigPda, creatorAddress, bufferIndex);
+
+    const closeInstruction = getTransactionBufferCloseInstruction({
+      multisig: address(multisigPda),
+      transactionBuffer: address(bufferPda),
+      creator,
+    });
+
+    const signature = await signAndSendTransaction(
+      [closeInstruction],
+      creator
+    );
+
+    console.log(`✅ Transaction buffer ${bufferPda} closed`);
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+  } catch (error) {
+    console.error('❌ Error closing transaction buffer:', error);
+    throw error;
+  }
+}
+
+/**
+ * Creates a vault transaction by uploading its serialized message through a transaction buffer
+ * The buffer is closed by vaultTransactionCreateFromBuffer on success, and explicitly on failure
+ */
+export async function createVaultTransactionFromBuffer(
+  creator: TransactionSigner,
+  multisigPda: string,
+  transactionIndex: bigint,
+  transactionMessage: Uint8Array,
+  vaultIndex: number = 0,
+  ephemeralSigners: number = 0,
+  memo?: string
+): Promise<string> {
+  console.log('\n📦 Creating vault transaction from buffer...');
+
+  if (transactionMessage.length > MAX_BUFFER_SIZE) {
+    throw new Error(`Transaction message is ${transactionMessage.length} bytes, the buffer limit is ${MAX_BUFFER_SIZE} bytes`);
+  }
+
+  const creatorAddress = creator.address;
+
+  const bufferIndex = await findFreeBufferIndex(multisigPda, creatorAddress);
+  const [bufferPda] = await getTransactionBufferPda(multisigPda, creatorAddress, bufferIndex);
+  const [transactionPda] = await getVaultTransactionPda(multisigPda, transactionIndex);
+
+  const finalBufferHash = await sha256(transactionMessage);
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < transactionMessage.length; offset += BUFFER_CHUNK_SIZE) {
+    chunks.push(transactionMessage.slice(offset, offset + BUFFER_CHUNK_SIZE));
+  }
+
+  console.log(`📋 Message Size: ${transactionMessage.length} bytes`);
+  console.log(`📋 Buffer: ${bufferPda} (index ${bufferIndex})`);
+  console.log(`📋 Chunks: ${chunks.length}`);
+
+  const createInstruction = getTransactionBufferCreateInstruction({
+    multisig: address(multisigPda),
+    transactionBuffer: address(bufferPda),
+    creator,
+    rentPayer: creator,
+    systemProgram: SYSTEM_PROGRAM_ADDRESS,
+    bufferIndex,
+    vaultIndex,
+    finalBufferHash,
+    finalBufferSize: transactionMessage.length,
+    buffer: chunks[0]!,
+  });
+
+  try {
+    await signAndSendTransaction([createInstruction], creator);
+    console.log(`✅ Uploaded chunk 1/${chunks.length}`);
+  } catch (error) {
+    console.error('❌ Error creating transaction buffer:', error);
+    throw error;
+  }
+
+  try {
+    for (let i = 1; i < chunks.length; i++) {
+      const extendInstruction = getTransactionBufferExtendInstruction({
+        multisig: address(multisigPda),
+        transactionBuffer: address(bufferPda),
+        creator,
+        buffer: chunks[i]!,
+      });
+
+      await signAndSendTransaction([extendInstruction], creator);
+      console.log(`✅ Uploaded chunk ${i + 1}/${chunks.length}`);
+    }
+
+    // Verify the uploaded bytes before turning them into a vault transaction
+    const buffer = await fetchTransactionBuffer(rpc, address(bufferPda));
+    const uploaded = new Uint8Array(buffer.data.buffer);
+    if (uploaded.length !== transactionMessage.length || !bytesEqual(await sha256(uploaded), finalBufferHash)) {
+      throw new Error(`Transaction buffer ${bufferPda} does not match the local message (${uploaded.length}/${transactionMessage.length} bytes)`);
+    }
+    console.log('✅ Buffer hash verified');
+
+    const createFromBufferInstruction = getVaultTransactionCreateFromBufferInstruction({
+      multisig: address(multisigPda),
+      transaction: address(transactionPda),
+      creator,
+      rentPayer: creator,
+      systemProgram: SYSTEM_PROGRAM_ADDRESS,
+      transactionBuffer: address(bufferPda),
+      bufferCreator: creator,
+      args: {
+        vaultIndex,
+        ephemeralSigners,
+        transactionMessage: EMPTY_TRANSACTION_MESSAGE,
+        memo: memo || null,
+      },
+    });
+
+    const signature = await signAndSendTransaction(
+      [createFromBufferInstruction],
+      creator
+    );
+
+    console.log(`✅ Vault transaction created from buffer: ${transactionPda}`);
+    console.log(`🔗 Transaction: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+
+    return signature;
+  } catch (error) {
+    console.error('❌ Error creating vault transaction from buffer:', error);
+    // Reclaim the buffer rent so the slot can be reused
+    await closeTransactionBuffer(creator, multisigPda, bufferIndex).catch(() => {
+      console.log(`⚠️  Could not close transaction buffer ${bufferPda}, close it manually`);
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Kit-native compiler for Squads vault transaction messages
+ * Turns Kit Instructions into the TransactionMessage bytes taken by vaultTransactionCreate
+ * and transaction buffers. The instruction argument uses u8/u16 length prefixes (SmallVec),
+ * unlike the u32 prefixed VaultTransactionMessage stored on the account
+ */
+
+import {
+  addEncoderSizePrefix,
+  getAddressEncoder,
+  getArrayEncoder,
+  getBytesEncoder,
+  getStructEncoder,
+  getU16Encoder,
+  getU8Encoder,
+  isSignerRole,
+  isWritableRole,
+  type Address,
+  type AddressesByLookupTableAddress,
+  type Encoder,
+  type Instruction,
+} from '@solana/kit';
+import type {
+  MultisigCompiledInstructionArgs,
+  MultisigMessageAddressTableLookupArgs,
+  VaultTransactionMessageArgs,
+} from './squads/index';
+
+// SmallVec<u8, _> length prefixes cap account keys, instructions and lookups at 255 entries
+const MAX_SMALL_VEC_LENGTH = 255;
+
+interface AccountFlags {
+  signer: boolean;
+  writable: boolean;
+  // Invoked programs must be static keys, they can't be loaded from lookup tables
+  invoked: boolean;
+}
+
+function getSmallVecEncoder<T>(item: Encoder<T>): Encoder<T[]> {
+  return getArrayEncoder(item, { size: getU8Encoder() });
+}
+
+export function getTransactionMessageEncoder(): Encoder<VaultTransactionMessageArgs> {
+  const compiledInstructionEncoder: Encoder<MultisigCompiledInstructionArgs> = getStructEncoder([
+    ['programIdIndex', getU8Encoder()],
+    ['accountIndexes', addEncoderSizePrefix(getBytesEncoder(), getU8Encoder())],
+    ['data', addEncoderSizePrefix(getBytesEncoder(), getU16Encoder())],
+  ]);
+  const addressTableLookupEncoder: Encoder<MultisigMessageAddressTableLookupArgs> = getStructEncoder([
+    ['accountKey', getAddressEncoder()],
+    ['writableIndexes', addEncoderSizePrefix(getBytesEncoder(), getU8Encoder())],
+    ['readonlyIndexes', addEncoderSizePrefix(getBytesEncoder(), getU8Encoder())],
+  ]);
+
+  return getStructEncoder([
+    ['numSigners', getU8Encoder()],
+    ['numWritableSigners', getU8Encoder()],
+    ['numWritableNonSigners', getU8Encoder()],
+    ['accountKeys', getSmallVecEncoder(getAddressEncoder())],
+    ['instructions', getSmallVecEncoder(compiledInstructionEncoder)],
+    ['addressTableLookups', getSmallVecEncoder(addressTableLookupEncoder)],
+  ]);
+}
+
+/**
+ * Compiles instructions into a vault transaction message with the vault as payer
+ * Non-signer accounts found in the lookup tables are loaded through them, in table order
+ */
+export function compileVaultTransactionMessage(
+  instructions: Instruction[],
+  vaultPda: Address,
+  lookupTables: AddressesByLookupTableAddress = {}
+): VaultTransactionMessageArgs {
+  const accounts = new Map<Address, AccountFlags>();
+  const upsert = (account: Address, flags: AccountFlags) => {
+    const existing = accounts.get(account);
+    accounts.set(account, existing
+      ? {
+          signer: existing.signer || flags.signer,
+          writable: existing.writable || flags.writable,
+          invoked: existing.invoked || flags.invoked,
+        }
+      : flags);
+  };
+
+  // The vault signs and pays for the inner transaction, so it always comes first
+  upsert(vaultPda, { signer: true, writable: true, invoked: false });
+  for (const instruction of instructions) {
+    upsert(instruction.programAddress, { signer: false, writable: false, invoked: true });
+    for (const account of instruction.accounts ?? []) {
+      upsert(account.address, {
+        signer: isSignerRole(account.role),
+        writable: isWritableRole(account.role),
+        invoked: false,
+      });
+    }
+  }
+
+  const lookupWritable: Address[] = [];
+  const lookupReadonly: Address[] = [];
+  const addressTableLookups: MultisigMessageAddressTableLookupArgs[] = [];
+
+  for (const [lookupTableAddress, tableAddresses] of Object.entries(lookupTables) as [Address, Address[]][]) {
+    const writableIndexes: number[] = [];
+    const readonlyIndexes: number[] = [];
+
+    for (const [account, flags] of accounts) {
+      if (flags.signer || flags.invoked) {
+        continue;
+      }
+      const tableIndex = tableAddresses.indexOf(account);
+      if (tableIndex === -1 || tableIndex > MAX_SMALL_VEC_LENGTH) {
+        continue;
+      }
+
+      (flags.writable ? writableIndexes : readonlyIndexes).push(tableIndex);
+      (flags.writable ? lookupWritable : lookupReadonly).push(account);
+      accounts.delete(account);
+    }
+
+    if (writableIndexes.length > 0 || readonlyIndexes.length > 0) {
+      addressTableLookups.push({
+        accountKey: lookupTableAddress,
+        writableIndexes: new Uint8Array(writableIndexes),
+        readonlyIndexes: new Uint8Array(readonlyIndexes),
+      });
+    }
+  }
+
+  // Static keys: writable signers, readonly signers, writable non-signers, readonly non-signers
+  const staticAccounts = [...accounts.entries()];
+  const group = (signer: boolean, writable: boolean) => staticAccounts
+    .filter(([, flags]) => flags.signer === signer && flags.writable === writable)
+    .map(([account]) => account);
+
+  const writableSigners = group(true, true);
+  const readonlySigners = group(true, false);
+  const writableNonSigners = group(false, true);
+  const readonlyNonSigners = group(false, false);
+  const accountKeys = [...writableSigners, ...readonlySigners, ...writableNonSigners, ...readonlyNonSigners];
+
+  if (accountKeys.length > MAX_SMALL_VEC_LENGTH) {
+    throw new Error(`Vault transaction message has ${accountKeys.length} static accounts, the limit is ${MAX_SMALL_VEC_LENGTH}; use address lookup tables`);
+  }
+  if (instructions.length > MAX_SMALL_VEC_LENGTH) {
+    throw new Error(`Vault transaction message has ${instructions.length} instructions, the limit is ${MAX_SMALL_VEC_LENGTH}`);
+  }
+
+  // Compiled instructions index into the static keys followed by the looked-up accounts
+  const allAccountKeys = [...accountKeys, ...lookupWritable, ...lookupReadonly];
+  const indexOf = (account: Address) => {
+    const index = allAccountKeys.indexOf(account);
+    if (index === -1 || index > MAX_SMALL_VEC_LENGTH) {
+      throw new Error(`Account ${account} can't be indexed in the vault transaction message`);
+    }
+    return index;
+  };
+
+  const compiledInstructions: MultisigCompiledInstructionArgs[] = instructions.map(instruction => ({
+    programIdIndex: indexOf(instruction.programAddress),
+    accountIndexes: new Uint8Array((instruction.accounts ?? []).map(account => indexOf(account.address))),
+    data: instruction.data ?? new Uint8Array(),
+  }));
+
+  return {
+    numSigners: writableSigners.length + readonlySigners.length,
+    numWritableSigners: writableSigners.length,
+    numWritableNonSigners: writableNonSigners.length,
+    accountKeys,
+    instructions: compiledInstructions,
+    addressTableLookups,
+  };
+}
+
+export function compileVaultTransactionMessageBytes(
+  instructions: Instruction[],
+  vaultPda: Address,
+  lookupTables: AddressesByLookupTableAddress = {}
+): Uint8Array {
+  const message = compileVaultTransactionMessage(instructions, vaultPda, lookupTables);
+  return new Uint8Array(getTransactionMessageEncoder().encode(message));
+}
@@ -5,18 +5,50 @@
 import type { Address } from "@solana/kit";
 
 // Wallet types
-export type WalletName = 'manager' | 'voter1' | 'voter2';
+// Wallets are named freely in config.json, e.g. "alice" or "treasury-ledger"
+export type WalletName = string;
+
+// Roles pick the default wallet for an action, the multisig permissions still decide what it may do
+export type WalletRole = 'proposer' | 'voter' | 'executor';
+
+// Keypair bytes encrypted with AES-256-GCM under a PBKDF2-SHA256 key derived from the keystore passphrase
+export interface EncryptedKey {
+  kdf: 'pbkdf2-sha256';
+  iterations: number;
+  salt: string; // base64
+  iv: string; // base64, 12 bytes
+  ciphertext: string; // base64, includes the GCM tag
+}
+
+// Where the signatures of a wallet come from
+export type SignerBackend = 'keypair' | 'keystore' | 'remote';
+
+// A signing service holding the secret key, see signer.ts for the request format
+export interface RemoteSignerConfig {
+  url: string;
+}
 
 export interface WalletData {
-  privateKey: string; // base64 encoded keypair bytes (64 bytes: 32 private + 32 public)
-  publicKey: string;
+  privateKey?: string; // plaintext base64 keypair bytes (64 bytes: 32 private + 32 public)
+  encryptedKey?: EncryptedKey; // keypair bytes in the encrypted keystore, replaces privateKey
+  remoteSigner?: RemoteSignerConfig; // signed by a remote service, no secret key in config.json
+  publicKey: string; // the only field of watch-only wallets
+  roles?: WalletRole[];
 }
 
 export interface ConfigData {
+  wallets?: Record<WalletName, WalletData>;
+  multisigAddress?: string;
+  vaultLabels?: Record<string, string>; // vault index -> human-readable label
+}
+
+// config.json before named wallets, migrated on first load
+export interface LegacyConfigData {
   manager?: WalletData;
   voter1?: WalletData;
   voter2?: WalletData;
   multisigAddress?: string;
+  vaultLabels?: Record<string, string>;
 }
 
 // Balance result type
@@ -26,9 +58,11 @@ export interface BalanceResult {
   usdcBalance?: number; // USDC balance
 }
 
-// Wallet collection type
-export interface WalletCollection {
-  manager: CryptoKeyPair;
-  voter1: CryptoKeyPair;
-  voter2: CryptoKeyPair;
+// Wallet listing entry
+export interface WalletEntry {
+  name: WalletName;
+  address: Address;
+  roles: WalletRole[];
+  watchOnly: boolean;
+  backend: SignerBackend | null; // null for watch-only wallets
 }
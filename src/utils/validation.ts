@@ -0,0 +1,115 @@
+/**
+ * Multisig config validation mirroring the invariants enforced by the Squads program
+ * Catches invalid values before a transaction is sent instead of failing on-chain
+ */
+
+import type { Member, MemberArgs } from './squads/index';
+
+// Permission bits of a member mask
+export const Permission = {
+  Initiate: 1,
+  Vote: 2,
+  Execute: 4,
+} as const;
+
+// Squads rejects time locks above 90 days (TimeLockExceedsMaxAllowed)
+export const MAX_TIME_LOCK = 90 * 24 * 60 * 60;
+
+export function hasPermission(member: Member | MemberArgs, permission: number): boolean {
+  return (member.permissions.mask & permission) !== 0;
+}
+
+export function countVoters(members: Array<Member | MemberArgs>): number {
+  return members.filter(member => hasPermission(member, Permission.Vote)).length;
+}
+
+export function assertValidThreshold(threshold: number, members: Array<Member | MemberArgs>): void {
+  const voters = countVoters(members);
+
+  if (!Number.isInteger(threshold) || threshold < 1) {
+    throw new Error(`Invalid threshold ${threshold}: must be at least 1`);
+  }
+  if (threshold > voters) {
+    throw new Error(`Invalid threshold ${threshold}: only ${voters} member(s) have the Vote permission`);
+  }
+}
+
+export function assertValidTimeLock(timeLock: number): void {
+  if (!Number.isInteger(timeLock) || timeLock < 0) {
+    throw new Error(`Invalid time lock ${timeLock}: must be a whole number of seconds`);
+  }
+  if (timeLock > MAX_TIME_LOCK) {
+    throw new Error(`Invalid time lock ${timeLock}: maximum allowed is ${MAX_TIME_LOCK} seconds (90 days)`);
+  }
+}
+
+// Permissions only uses the three lowest bits (UnknownPermission)
+export const ALL_PERMISSIONS = Permission.Initiate | Permission.Vote | Permission.Execute;
+
+// Members are stored in a Vec whose length must fit in a u16
+export const MAX_MEMBERS = 65535;
+
+/**
+ * Parses a permission mask, either as a number (1=initiate, 2=vote, 4=execute, 7=all)
+ * or as names joined with "+", e.g. "vote+execute"
+ */
+export function parsePermissions(input: string): number {
+  const trimmed = input.trim().toLowerCase();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  let mask = 0;
+  for (const name of trimmed.split('+').map(part => part.trim())) {
+    if (name === 'all') mask |= ALL_PERMISSIONS;
+    else if (name === 'initiate' || name === 'propose') mask |= Permission.Initiate;
+    else if (name === 'vote') mask |= Permission.Vote;
+    else if (name === 'execute') mask |= Permission.Execute;
+    else throw new Error(`Unknown permission "${name}": use initiate, vote, execute or all`);
+  }
+  return mask;
+}
+
+export function describePermissions(mask: number): string {
+  const names = [];
+  if (mask & Permission.Initiate) names.push('Initiate');
+  if (mask & Permission.Vote) names.push('Vote');
+  if (mask & Permission.Execute) names.push('Execute');
+  return names.length > 0 ? names.join(' + ') : 'None';
+}
+
+/**
+ * Checks the member list like Multisig::invariant: not empty, no duplicates,
+ * known permission bits only, and at least one proposer, voter and executor
+ */
+export function assertValidMembers(members: Array<Member | MemberArgs>): void {
+  if (members.length === 0) {
+    throw new Error('A multisig needs at least one member');
+  }
+  if (members.length > MAX_MEMBERS) {
+    throw new Error(`Too many members: maximum allowed is ${MAX_MEMBERS}`);
+  }
+
+  const keys = new Set<string>();
+  for (const member of members) {
+    if (keys.has(member.key)) {
+      throw new Error(`Duplicate member ${member.key}`);
+    }
+    keys.add(member.key);
+
+    const mask = member.permissions.mask;
+    if (!Number.isInteger(mask) || mask < 0 || (mask & ~ALL_PERMISSIONS) !== 0) {
+      throw new Error(`Invalid permissions ${mask} for member ${member.key}: must be between 0 and ${ALL_PERMISSIONS}`);
+    }
+  }
+
+  if (!members.some(member => hasPermission(member, Permission.Initiate))) {
+    throw new Error('At least one member needs the Initiate permission');
+  }
+  if (countVoters(members) === 0) {
+    throw new Error('At least one member needs the Vote permission');
+  }
+  if (!members.some(member => hasPermission(member, Permission.Execute))) {
+    throw new Error('At least one member needs the Execute permission');
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Vault index helpers
+ * A multisig owns up to 256 vaults (index 0-255), each labelled locally in config.json
+ */
+
+import {
+  getTransactionPda,
+  fetchMultisig,
+  decodeVaultTransaction,
+  decodeBatch,
+  VAULT_TRANSACTION_DISCRIMINATOR,
+  BATCH_DISCRIMINATOR,
+} from './squads/index';
+import { address, fetchEncodedAccounts, type ReadonlyUint8Array } from '@solana/kit';
+import { rpc } from './rpc';
+import { prompt } from './prompt';
+import { loadVaultLabelsFromConfig } from './config';
+import { fetchSpendingLimits } from './spendingLimit';
+
+export const DEFAULT_VAULT_INDEX = 0;
+export const MAX_VAULT_INDEX = 255;
+
+// getMultipleAccounts accepts at most 100 addresses per call
+const ACCOUNTS_PER_REQUEST = 100;
+
+function hasDiscriminator(data: ReadonlyUint8Array, discriminator: Uint8Array): boolean {
+  return discriminator.every((byte, index) => data[index] === byte);
+}
+
+export function parseVaultIndex(input: string): number {
+  if (!input.trim()) {
+    return DEFAULT_VAULT_INDEX;
+  }
+
+  const vaultIndex = Number(input.trim());
+  if (!Number.isInteger(vaultIndex) || vaultIndex < 0 || vaultIndex > MAX_VAULT_INDEX) {
+    throw new Error(`Invalid vault index ${input}: must be a whole number between 0 and ${MAX_VAULT_INDEX}`);
+  }
+  return vaultIndex;
+}
+
+export function formatVaultName(vaultIndex: number, labels: Record<number, string>): string {
+  const label = labels[vaultIndex];
+  return label ? `Vault #${vaultIndex} (${label})` : `Vault #${vaultIndex}`;
+}
+
+export async function promptVaultIndex(action: string): Promise<number> {
+  const labels = await loadVaultLabelsFromConfig();
+  const labelledIndices = Object.keys(labels).map(Number).sort((a, b) => a - b);
+
+  if (labelledIndices.length > 0) {
+    console.log('\n🏦 Labelled Vaults:');
+    labelledIndices.forEach(vaultIndex => {
+      console.log(`   ${formatVaultName(vaultIndex, labels)}`);
+    });
+  }
+
+  const input = await prompt(`Enter vault index to ${action} (0-${MAX_VAULT_INDEX}, default ${DEFAULT_VAULT_INDEX}): `);
+  const vaultIndex = parseVaultIndex(input);
+  console.log(`🏦 Using ${formatVaultName(vaultIndex, labels)}`);
+  return vaultIndex;
+}
+
+/**
+ * Vault indices referenced by the default vault, local labels,
+ * spending limits, vault transactions and batches
+ */
+export async function getVaultIndicesInUse(multisigPda: string): Promise<number[]> {
+  const indices = new Set<number>([DEFAULT_VAULT_INDEX]);
+
+  const labels = await loadVaultLabelsFromConfig();
+  Object.keys(labels).forEach(vaultIndex => indices.add(Number(vaultIndex)));
+
+  const spendingLimits = await fetchSpendingLimits(multisigPda);
+  spendingLimits.forEach(spendingLimit => indices.add(spendingLimit.data.vaultIndex));
+
+  const multisigAccount = await fetchMultisig(rpc, address(multisigPda));
+  const lastTransactionIndex = Number(multisigAccount.data.transactionIndex);
+
+  for (let start = 1; start <= lastTransactionIndex; start += ACCOUNTS_PER_REQUEST) {
+    const end = Math.min(start + ACCOUNTS_PER_REQUEST - 1, lastTransactionIndex);
+    const transactionPdas = [];
+    for (let i = start; i <= end; i++) {
+      const [transactionPda] = await getTransactionPda(multisigPda, BigInt(i));
+      transactionPdas.push(address(transactionPda));
+    }
+
+    // Config transactions share these addresses but have no vault, only decode vault accounts
+    const accounts = await fetchEncodedAccounts(rpc, transactionPdas);
+    for (const account of accounts) {
+      if (!account.exists) {
+        continue;
+      }
+      if (hasDiscriminator(account.data, VAULT_TRANSACTION_DISCRIMINATOR)) {
+        indices.add(decodeVaultTransaction(account).data.vaultIndex);
+      } else if (hasDiscriminator(account.data, BATCH_DISCRIMINATOR)) {
+        indices.add(decodeBatch(account).data.vaultIndex);
+      }
+    }
+  }
+
+  return [...indices].sort((a, b) => a - b);
+}
@@ -11,59 +11,78 @@ import {
   createSignerFromKeyPair,
   type KeyPairSigner,
   type TransactionSigner,
-  type MessageSigner
+  type MessageSigner,
+  createKeyPairFromPrivateKeyBytes,
+  getBase58Decoder,
+  getBase58Encoder,
+  type Address,
 } from '@solana/kit';
 
-export async function generateManagerVoterWallets() {
-  console.log('🏗️  Creating Manager and Voter Wallets');
-  console.log('=====================================\n');
-  
-  // Generate all keypairs using extractable keys for saving
-  console.log('🔑 Generating Manager keypair...');
-  const managerKeypair = await generateExtractableKeyPair();
-  const managerSigner = await createSignerFromKeyPair(managerKeypair);
-  const managerAddress = await getAddressFromPublicKey(managerKeypair.publicKey);
-  console.log(`✅ Manager keypair generated`);
-  console.log(`📍 Manager Public Key: ${managerAddress}`);
-  console.log(`🔗 View on Solana Explorer: https://explorer.solana.com/address/${managerAddress}`);
-  
-  console.log('🔑 Generating Voter1 keypair...');
-  const voter1Keypair = await generateExtractableKeyPair();
-  const voter1Signer = await createSignerFromKeyPair(voter1Keypair);
-  const voter1Address = await getAddressFromPublicKey(voter1Keypair.publicKey);
-  console.log(`✅ Voter1 keypair generated`);
-  console.log(`📍 Voter1 Public Key: ${voter1Address}`);
-  console.log(`🔗 View on Solana Explorer: https://explorer.solana.com/address/${voter1Address}`);
-  
-  console.log('🔑 Generating Voter2 keypair...');
-  const voter2Keypair = await generateExtractableKeyPair();
-  const voter2Signer = await createSignerFromKeyPair(voter2Keypair);
-  const voter2Address = await getAddressFromPublicKey(voter2Keypair.publicKey);
-  console.log(`✅ Voter2 keypair generated`);
-  console.log(`📍 Voter2 Public Key: ${voter2Address}`);
-  console.log(`🔗 View on Solana Explorer: https://explorer.solana.com/address/${voter2Address}`);
-  
-  console.log('\n📋 Wallet Summary:');
-  console.log(`👤 Manager: ${managerAddress} (can propose, vote, and execute)`);
-  console.log(`👤 Voter1: ${voter1Address} (can vote only)`);
-  console.log(`👤 Voter2: ${voter2Address} (can vote only)`);
+// Text formats of a 64-byte keypair: a JSON byte array (the Solana CLI keypair file) or base58 (Phantom and other wallets)
+export type SecretKeyFormat = 'bytes' | 'base58';
+
+/**
+ * Generates a new wallet with an exportable secret key, ready to be saved to config.json
+ */
+export async function generateWallet(name: string) {
+  console.log(`🔑 Generating ${name} keypair...`);
+  const keypair = await generateExtractableKeyPair();
+  const signer = await createSignerFromKeyPair(keypair);
+  const address = await getAddressFromPublicKey(keypair.publicKey);
+  console.log(`✅ ${name} keypair generated`);
+  console.log(`📍 ${name} Public Key: ${address}`);
+  console.log(`🔗 View on Solana Explorer: https://explorer.solana.com/address/${address}`);
 
   // Export the full 64-byte keypair format (32 bytes private + 32 bytes public)
-  const managerKeypairBytes = await exportKeypairBytes(managerKeypair);
-  const voter1KeypairBytes = await exportKeypairBytes(voter1Keypair);
-  const voter2KeypairBytes = await exportKeypairBytes(voter2Keypair);
-  
-  return { 
-    managerKeypair, 
-    voter1Keypair, 
-    voter2Keypair,
-    managerSigner,
-    voter1Signer,
-    voter2Signer,
-    managerKeypairBytes,
-    voter1KeypairBytes,
-    voter2KeypairBytes
-  };
+  const keypairBytes = await exportKeypairBytes(keypair);
+
+  return { keypair, signer, address, keypairBytes };
+}
+
+/**
+ * Parses a 64-byte keypair from a JSON byte array or a base58 string
+ */
+export function parseSecretKey(input: string): Uint8Array {
+  const trimmed = input.trim();
+
+  let bytes: Uint8Array;
+  if (trimmed.startsWith('[')) {
+    const values: unknown = JSON.parse(trimmed);
+    if (!Array.isArray(values) || !values.every(value => Number.isInteger(value) && value >= 0 && value <= 255)) {
+      throw new Error('Invalid keypair byte array: expected numbers between 0 and 255');
+    }
+    bytes = new Uint8Array(values);
+  } else {
+    try {
+      bytes = new Uint8Array(getBase58Encoder().encode(trimmed));
+    } catch {
+      throw new Error('Invalid secret key: expected a JSON byte array or a base58 string');
+    }
+  }
+
+  if (bytes.length !== 64) {
+    throw new Error(`Invalid keypair length: expected 64 bytes (32 private + 32 public), got ${bytes.length}`);
+  }
+  return bytes;
+}
+
+export function formatSecretKey(keypairBytes: Uint8Array, format: SecretKeyFormat): string {
+  return format === 'base58'
+    ? getBase58Decoder().decode(keypairBytes)
+    : JSON.stringify(Array.from(keypairBytes));
+}
+
+/**
+ * Returns the address of a 64-byte keypair after checking that its public half belongs to its private half
+ */
+export async function getKeypairAddress(keypairBytes: Uint8Array): Promise<Address> {
+  const derived = await createKeyPairFromPrivateKeyBytes(keypairBytes.slice(0, 32));
+  const derivedAddress = await getAddressFromPublicKey(derived.publicKey);
+  const storedAddress = getBase58Decoder().decode(keypairBytes.slice(32));
+  if (derivedAddress !== storedAddress) {
+    throw new Error(`Public key ${storedAddress} does not match the private key, which belongs to ${derivedAddress}`);
+  }
+  return derivedAddress;
 }
 
 /**
@@ -0,0 +1,258 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { address, createSignableMessage } from '@solana/kit';
+import {
+  WALLET_ROLES,
+  assertValidWalletName,
+  checkConfigExists,
+  encryptPlaintextWallets,
+  findWalletByAddress,
+  getConfigPath,
+  formatWalletEntry,
+  listWallets,
+  loadSecretKeyFromConfig,
+  removeWalletFromConfig,
+  saveWalletToConfig,
+  setWalletRolesInConfig,
+} from './utils/config';
+import { REMOTE_SIGNER_PORT } from './utils/env';
+import { prompt, promptChoice, promptWalletChoice, promptYesNo } from './utils/prompt';
+import { createRemoteSigner } from './utils/signer';
+import { formatSecretKey, generateWallet, getKeypairAddress, parseSecretKey } from './utils/wallet';
+import type { WalletRole } from './utils/types';
+
+function parseWalletRoles(input: string): WalletRole[] {
+  const roles = input.split(',').map(role => role.trim().toLowerCase()).filter(role => role !== '');
+  for (const role of roles) {
+    if (!WALLET_ROLES.includes(role as WalletRole)) {
+      throw new Error(`Unknown role "${role}": use ${WALLET_ROLES.join(', ')}`);
+    }
+  }
+  return [...new Set(roles)] as WalletRole[];
+}
+
+async function promptWalletRoles(): Promise<WalletRole[]> {
+  return parseWalletRoles(await prompt(`Enter roles, comma separated (${WALLET_ROLES.join(', ')}, empty for none): `));
+}
+
+async function promptNewWalletName(): Promise<string> {
+  const name = await prompt('Enter wallet name: ');
+  assertValidWalletName(name);
+  if (await checkConfigExists() && (await listWallets()).some(wallet => wallet.name === name)) {
+    throw new Error(`Wallet ${name} already exists in config.json`);
+  }
+  return name;
+}
+
+/**
+ * Accepts a keypair file path (Solana CLI id.json), a JSON byte array or a base58 secret
+ */
+function readSecretKeyInput(input: string): Uint8Array {
+  const trimmed = input.trim();
+  if (trimmed.startsWith('[')) {
+    return parseSecretKey(trimmed);
+  }
+
+  // Expand ~ like a shell would, for the Solana CLI default ~/.config/solana/id.json
+  const path = trimmed === '~' || trimmed.startsWith('~/') ? join(homedir(), trimmed.slice(1)) : trimmed;
+  if (existsSync(path)) {
+    return parseSecretKey(readFileSync(path, 'utf8'));
+  }
+  // Base58 has no separators or dots, so anything containing them was meant as a path
+  if (/[~\/\\.]/.test(trimmed)) {
+    throw new Error(`Keypair file not found: ${path}`);
+  }
+  return parseSecretKey(trimmed);
+}
+
+async function importWallet(): Promise<void> {
+  const keypairBytes = readSecretKeyInput(await prompt('Enter a keypair file path, base58 secret key or byte array: '));
+  const walletAddress = await getKeypairAddress(keypairBytes);
+  console.log(`✅ Valid keypair for ${walletAddress}`);
+
+  const existing = await checkConfigExists() ? await findWalletByAddress(walletAddress) : null;
+  if (existing) {
+    throw new Error(`Duplicate: ${walletAddress} is already in config.json as ${existing.name}${existing.watchOnly ? ' (watch-only, remove it first to import the secret key)' : ''}`);
+  }
+
+  const name = await promptNewWalletName();
+  const roles = await promptWalletRoles();
+  await saveWalletToConfig(name, walletAddress, roles, keypairBytes, {
+    plaintext: process.argv.includes('--plaintext'),
+  });
+}
+
+async function exportWallet(): Promise<void> {
+  const name = await promptWalletChoice('\n👛 Select the wallet to export');
+  const format = await promptChoice('\n📤 Export format:', [
+    'Keypair file - JSON byte array, as used by the Solana CLI',
+    'Base58 - secret key string, as used by Phantom and other wallets',
+    'Byte array - JSON byte array printed to the terminal',
+  ]);
+
+  if (!await promptYesNo(`⚠️  Anyone with the exported secret key controls ${name}. Continue?`)) {
+    console.log('❌ Export cancelled');
+    return;
+  }
+
+  const keypairBytes = await loadSecretKeyFromConfig(name);
+  if (format.startsWith('Keypair file')) {
+    const path = await prompt(`Enter the output path (default: ${name}.json): `) || `${name}.json`;
+    if (existsSync(path)) {
+      throw new Error(`${path} already exists`);
+    }
+    // Readable by the owner only, like solana-keygen does
+    writeFileSync(path, formatSecretKey(keypairBytes, 'bytes'), { mode: 0o600 });
+    console.log(`✅ ${name} exported to: ${path}`);
+  } else {
+    console.log(`\n🔑 ${name}: ${formatSecretKey(keypairBytes, format.startsWith('Base58') ? 'base58' : 'bytes')}`);
+  }
+}
+
+async function addRemoteWallet(): Promise<void> {
+  const name = await promptNewWalletName();
+  const walletAddress = address(await prompt('Enter wallet address: '));
+  const defaultUrl = `http://127.0.0.1:${REMOTE_SIGNER_PORT}/sign`;
+  const url = await prompt(`Enter the signing service URL (default: ${defaultUrl}): `) || defaultUrl;
+  // Throws on a malformed URL before anything is saved
+  new URL(url);
+
+  if (await promptYesNo('🔍 Request a test signature from the service?')) {
+    const signer = createRemoteSigner(walletAddress, url);
+    await signer.signMessages([createSignableMessage(`squads-cli remote signer check for ${walletAddress}`)]);
+    console.log(`✅ ${url} signs for ${walletAddress}`);
+  }
+
+  const roles = await promptWalletRoles();
+  await saveWalletToConfig(name, walletAddress, roles, undefined, { remoteSigner: { url } });
+}
+
+async function encryptWallets(): Promise<void> {
+  const encrypted = await encryptPlaintextWallets();
+  if (encrypted.length === 0) {
+    console.log('✅ No unencrypted secret keys in config.json');
+    return;
+  }
+  console.log(`✅ Encrypted ${encrypted.length} wallet(s): ${encrypted.join(', ')}`);
+
+  // The migration backup still holds the keys in plaintext
+  const backupPath = `${getConfigPath()}.bak`;
+  if (existsSync(backupPath)) {
+    console.log(`⚠️  ${backupPath} still contains plaintext secret keys, delete it once you no longer need it`);
+  }
+}
+
+async function displayWallets(): Promise<void> {
+  const wallets = await checkConfigExists() ? await listWallets() : [];
+
+  console.log(`\n👛 Wallets (${wallets.length}):`);
+  if (wallets.length === 0) {
+    console.log('   None yet, generate a signer or add a watch-only wallet');
+  }
+  wallets.forEach((wallet, index) => {
+    console.log(`   ${index + 1}. ${formatWalletEntry(wallet)}`);
+  });
+}
+
+async function main() {
+  try {
+    console.log('👛 Wallet Management Tool');
+    console.log('=========================\n');
+    console.log('ℹ️  Roles only pick the default wallet in prompts, permissions are set on the multisig');
+
+    while (true) {
+      await displayWallets();
+
+      console.log('\n🔧 Wallet Actions:');
+      console.log('1. Generate - Create a new signing wallet');
+      console.log('2. Watch - Add a watch-only wallet by address');
+      console.log('3. Roles - Change the roles of a wallet');
+      console.log('4. Remove - Delete a wallet from config.json');
+      console.log('5. Encrypt - Move unencrypted secret keys into the encrypted keystore');
+      console.log('6. Import - Add a signer from a keypair file, base58 secret or byte array');
+      console.log('7. Export - Write a signer as a keypair file, base58 secret or byte array');
+      console.log('8. Remote - Add a wallet signed by a remote signing service');
+      console.log('0. Exit - Exit the wallet tool');
+
+      const choice = await prompt('\nSelect an action (0-8): ');
+
+      try {
+        switch (choice) {
+          case '1': {
+            const name = await promptNewWalletName();
+            const roles = await promptWalletRoles();
+            const wallet = await generateWallet(name);
+            await saveWalletToConfig(name, wallet.address, roles, wallet.keypairBytes, {
+              plaintext: process.argv.includes('--plaintext'),
+            });
+            console.log('💡 Fund the wallet and add it to the multisig before signing with it.');
+            break;
+          }
+
+          case '2': {
+            const name = await promptNewWalletName();
+            const walletAddress = address(await prompt('Enter wallet address: '));
+            const roles = await promptWalletRoles();
+            await saveWalletToConfig(name, walletAddress, roles);
+            break;
+          }
+
+          case '3': {
+            const name = await prompt('Enter wallet name: ');
+            await setWalletRolesInConfig(name, await promptWalletRoles());
+            break;
+          }
+
+          case '4': {
+            const name = await prompt('Enter wallet name: ');
+            if (await promptYesNo(`⚠️  Remove ${name}? Its secret key is lost unless backed up`)) {
+              await removeWalletFromConfig(name);
+            }
+            break;
+          }
+
+          case '5': {
+            await encryptWallets();
+            break;
+          }
+
+          case '6': {
+            await importWallet();
+            break;
+          }
+
+          case '7': {
+            await exportWallet();
+            break;
+          }
+
+          case '8': {
+            await addRemoteWallet();
+            break;
+          }
+
+          case '0': {
+            console.log('\n👋 Exiting wallet tool...');
+            return;
+          }
+
+          default:
+            console.log('❌ Invalid choice. Please select 0-8.');
+        }
+      } catch (error) {
+        // Keep the wallet tool open when an action fails
+        console.error(`❌ ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  } catch (error) {
+    throw error; // Let the CLI handle the error gracefully
+  }
+}
+
+export { main };
+
+// Run the script
+if (import.meta.main) {
+  main();
+}